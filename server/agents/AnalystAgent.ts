@@ -2,12 +2,19 @@ import OpenAI from 'openai';
 import { getDatabase } from '../database/init.js';
 import { SQLTool } from '../tools/SQLTool.js';
 import { MaskPIITool } from '../tools/MaskPIITool.js';
+import { QueryRejectedError } from '../services/SQLGuard.js';
+import { QueryCancelledError } from '../database/queryExecution.js';
+import { ConnectorService, type Connector } from '../services/ConnectorService.js';
+import { PromptContextBuilder } from '../services/PromptContextBuilder.js';
+import { GroundingVerification, NumericGroundingVerifier } from '../services/NumericGroundingVerifier.js';
 import { logger } from '../utils/logger.js';
 
 interface MessageContext {
   userId: string;
   userRole: string;
   conversationId: string;
+  connector?: Connector | null;
+  signal?: AbortSignal;
   conversationHistory?: Array<{
     type: string;
     content: string;
@@ -18,6 +25,15 @@ interface MessageContext {
   }>;
 }
 
+// One execution of a generated query; failed attempts carry the database error that was fed back for repair
+export interface SQLAttempt {
+  attempt: number;
+  sql: string;
+  status: 'success' | 'error' | 'rejected';
+  error?: string;
+  rowCount?: number;
+}
+
 interface AgentResponse {
   content: string;
   sql?: string;
@@ -25,16 +41,29 @@ interface AgentResponse {
   agentUsed: string;
   data: any[];
   timestamp: string;
+  queryAttempts?: SQLAttempt[];
+  // Whether the numbers of the summary were found in or derived from the query results
+  verification?: GroundingVerification;
 }
 
+// Corrected queries tried after the first one fails
+const MAX_SQL_REPAIRS = parseInt(process.env.SQL_REPAIR_MAX_ATTEMPTS || '2');
+const REPAIRABLE_REJECTIONS = ['PARSE_ERROR', 'QUERY_TOO_EXPENSIVE'];
+// Result rows shown to the model when summarizing
+const SUMMARY_ROWS = 10;
+
 export class AnalystAgent {
   private sqlTool: SQLTool;
   private maskPIITool: MaskPIITool;
+  private promptContextBuilder: PromptContextBuilder;
+  private groundingVerifier: NumericGroundingVerifier;
   private openai: OpenAI;
 
   constructor() {
     this.sqlTool = new SQLTool();
     this.maskPIITool = new MaskPIITool();
+    this.promptContextBuilder = new PromptContextBuilder();
+    this.groundingVerifier = new NumericGroundingVerifier();
     this.openai = new OpenAI({
       apiKey: process.env.OPENAI_API_KEY,
     });
@@ -95,13 +124,15 @@ If the user is not an admin and the data contains PII columns, use MaskPIITool t
       let response = completion.choices[0]?.message?.content || 'I apologize, but I could not process your request.';
       let sql: string | undefined;
       let data: any[] = [];
+      let queryAttempts: SQLAttempt[] | undefined;
+      let verification: GroundingVerification | undefined;
 
       // Check if the user explicitly requested NOT to run queries
       if (!this.shouldSkipDataQuery(message)) {
         logger.info(`🔍 Attempting to find and execute SQL query for message: ${message}`);
 
         // First, try to extract SQL from the initial response
-        let sqlQuery = this.extractSQLFromResponse(response);
+        let sqlQuery = this.extractSQLFromResponse(response, context);
 
         // If no SQL found in response, try to generate one separately
         if (!sqlQuery) {
@@ -112,11 +143,24 @@ If the user is not an admin and the data contains PII columns, use MaskPIITool t
         }
 
         if (sqlQuery) {
-          try {
-            const queryResult = await this.sqlTool.execute(sqlQuery, context);
-            logger.info(`✅ Query executed successfully. Rows: ${queryResult.rowCount}`);
-            sql = sqlQuery;
-            data = queryResult.data || [];
+          const outcome = await this.executeWithRepair(message, sqlQuery, context);
+          queryAttempts = outcome.attempts;
+
+          // The route discards the response of a cancelled request, so don't describe attempts that never ran
+          if (outcome.cancelled) {
+            return {
+              content: 'The request was cancelled.',
+              sql: undefined,
+              data: [],
+              timestamp: new Date().toISOString(),
+              agentUsed: 'AnalystAgent',
+              queryAttempts,
+            };
+          }
+
+          if (outcome.result) {
+            sql = outcome.sql;
+            data = outcome.result.data || [];
 
             // Mask PII if user is not admin
             let processedData = data;
@@ -124,14 +168,17 @@ If the user is not an admin and the data contains PII columns, use MaskPIITool t
               processedData = await this.maskPIITool.maskData(data, context.userRole);
             }
 
-            // Generate response with data
-            response = await this.generateResponseWithData(message, sqlQuery, processedData);
-          } catch (error) {
-            const err = error as Error;
-            logger.error('💥 SQL execution error:', err);
-            logger.error(`Error details: message=${err.message}, stack=${err.stack}, name=${err.name}`);
-            // Don't override response with error for non-data queries
-            logger.info('ℹ️  Continuing with original response due to SQL error');
+            // Generate response with data, its numbers checked against the rows
+            ({ content: response, verification } = await this.generateResponseWithData(message, outcome.sql, processedData));
+            if (queryAttempts.length > 1) {
+              response += `\n\n_Note: ${this.describeRepair(queryAttempts)}_`;
+            }
+          } else if (outcome.rejection) {
+            // Tell the user why nothing ran instead of returning an answer without data
+            response = `I couldn't run the query generated for this request because it was blocked before execution: ${outcome.rejection.reason}\n\nPlease rephrase your question and try again.`;
+          } else {
+            const lastError = queryAttempts[queryAttempts.length - 1]?.error;
+            response += `\n\n_Note: I tried ${queryAttempts.length} ${queryAttempts.length === 1 ? 'query' : 'queries'} for this request but none ran successfully (last error: ${lastError}), so this answer is not based on live data._`;
           }
         } else {
           logger.info('❌ No SQL query found or generated - using original response');
@@ -146,6 +193,8 @@ If the user is not an admin and the data contains PII columns, use MaskPIITool t
         data,
         timestamp: new Date().toISOString(),
         agentUsed: 'AnalystAgent',
+        queryAttempts,
+        verification,
       };
     } catch (error) {
       logger.error('AnalystAgent error:', error);
@@ -159,6 +208,132 @@ If the user is not an admin and the data contains PII columns, use MaskPIITool t
     }
   }
 
+  // Run the query, and on a database error ask the model for a corrected one, up to MAX_SQL_REPAIRS times.
+  // Parse errors and cost guard refusals are sent back for rewriting too. Other guard rejections are not
+  // retried: a rewrite would only try to get around them.
+  private async executeWithRepair(
+    message: string,
+    initialSQL: string,
+    context: MessageContext
+  ): Promise<{ sql: string; result?: any; rejection?: QueryRejectedError; cancelled?: boolean; attempts: SQLAttempt[] }> {
+    const attempts: SQLAttempt[] = [];
+    let sqlQuery = initialSQL;
+
+    while (true) {
+      const attempt = attempts.length + 1;
+      try {
+        const queryResult = await this.sqlTool.execute(sqlQuery, context);
+        logger.info(`✅ Query executed successfully on attempt ${attempt}. Rows: ${queryResult.rowCount}`);
+        attempts.push({ attempt, sql: sqlQuery, status: 'success', rowCount: queryResult.rowCount });
+        return { sql: sqlQuery, result: queryResult, attempts };
+      } catch (error) {
+        if (error instanceof QueryCancelledError) {
+          logger.info('⏹️  Request cancelled - not retrying');
+          return { sql: sqlQuery, cancelled: true, attempts };
+        }
+        if (error instanceof QueryRejectedError && !REPAIRABLE_REJECTIONS.includes(error.code)) {
+          logger.warn(`🚫 Generated SQL rejected: ${error.code} - ${error.reason}`);
+          attempts.push({ attempt, sql: sqlQuery, status: 'rejected', error: error.reason });
+          return { sql: sqlQuery, rejection: error, attempts };
+        }
+
+        const errorMessage = this.databaseErrorMessage(error);
+        logger.error(`💥 SQL execution error on attempt ${attempt}: ${errorMessage}`);
+        attempts.push({
+          attempt,
+          sql: sqlQuery,
+          status: error instanceof QueryRejectedError ? 'rejected' : 'error',
+          error: errorMessage,
+        });
+
+        if (attempts.length > MAX_SQL_REPAIRS) {
+          logger.info(`ℹ️  Giving up after ${attempts.length} attempts - using original response`);
+          return { sql: sqlQuery, rejection: error instanceof QueryRejectedError ? error : undefined, attempts };
+        }
+
+        const repaired = await this.repairSQLQuery(message, attempts, context);
+        if (!repaired || attempts.some(previous => previous.sql === repaired)) {
+          logger.info('ℹ️  No new corrected query produced - using original response');
+          return { sql: sqlQuery, attempts };
+        }
+
+        logger.info(`🔧 Retrying with repaired SQL: ${repaired}`);
+        sqlQuery = repaired;
+      }
+    }
+  }
+
+  private async repairSQLQuery(message: string, attempts: SQLAttempt[], context: MessageContext): Promise<string | null> {
+    try {
+      const failed = attempts[attempts.length - 1];
+      const promptContext = await this.promptContextBuilder.build(message, context);
+
+      const history = attempts.map(previous =>
+        `Attempt ${previous.attempt}:\n\`\`\`\n${previous.sql}\n\`\`\`\nError: ${previous.error}`
+      ).join('\n\n');
+
+      const completion = await this.openai.chat.completions.create({
+        model: 'gpt-4.1',
+        messages: [
+          {
+            role: 'system',
+            content: `You are a SQL expert for Bosta logistics database. A generated query failed when it was executed. Fix it using the database error and the schema below.
+
+${promptContext.text}
+
+${this.repairHint(failed.error || '')}
+Keep the intent of the original query. Return ONLY the corrected query in a code block, with no explanation.`
+          },
+          {
+            role: 'user',
+            content: `User asked: "${message}"
+
+${history}`
+          }
+        ],
+        temperature: 0.1,
+        max_tokens: 500,
+      });
+
+      const content = completion.choices[0]?.message?.content?.trim() || '';
+      const match = content.match(/```(?:sql|json)?\s*([\s\S]*?)\s*```/);
+      const repaired = (match ? match[1] : content).trim();
+
+      return ConnectorService.looksLikeQuery(repaired, context.connector) ? repaired : null;
+    } catch (error) {
+      logger.error('💥 SQL repair error:', error);
+      return null;
+    }
+  }
+
+  // Targeted advice for the failures seen most often: unknown columns, GROUP BY violations and oversized scans
+  private repairHint(errorMessage: string): string {
+    if (/unknown column|column .* does not exist|no such column|ER_BAD_FIELD_ERROR/i.test(errorMessage)) {
+      return 'The query references a column that does not exist. Use only the column names listed in the schema, check which table each column belongs to, and qualify columns with the right table alias.\n';
+    }
+    if (/group by|only_full_group_by|must appear in the group by clause|ER_WRONG_FIELD_WITH_GROUP/i.test(errorMessage)) {
+      return 'The query violates GROUP BY rules. Every selected column that is not inside an aggregate function must appear in the GROUP BY clause, and ORDER BY may only use grouped columns or aggregates.\n';
+    }
+    if (/would scan all of|would read about|execution limit/i.test(errorMessage)) {
+      return 'The query was stopped because it reads too many rows. Add a filter on an indexed column such as a created_at date range, and aggregate instead of returning raw rows.\n';
+    }
+    return '';
+  }
+
+  private databaseErrorMessage(error: unknown): string {
+    if (error instanceof QueryRejectedError) return error.reason;
+    const message = error instanceof Error ? error.message : String(error);
+    // SQLTool wraps driver errors as "Query execution failed: Error: ..."
+    return message.replace(/^Query execution failed:\s*(Error:\s*)?/, '');
+  }
+
+  private describeRepair(attempts: SQLAttempt[]): string {
+    const failures = attempts.filter(attempt => attempt.status !== 'success');
+    const first = failures[0];
+    const retries = failures.length > 1 ? ` (${failures.length} corrections were needed)` : '';
+    return `the first query failed (${first.error}), so it was corrected and re-run${retries}.`;
+  }
+
   private shouldSkipDataQuery(message: string): boolean {
     const skipPhrases = [
       'without running queries',
@@ -178,12 +353,12 @@ If the user is not an admin and the data contains PII columns, use MaskPIITool t
     );
   }
 
-  private extractSQLFromResponse(response: string): string | null {
-    const sqlMatch = response.match(/```(?:sql)?\s*([\s\S]*?)\s*```/);
+  private extractSQLFromResponse(response: string, context: MessageContext): string | null {
+    const sqlMatch = response.match(/```(?:sql|json)?\s*([\s\S]*?)\s*```/);
     if (sqlMatch) {
       const sql = sqlMatch[1].trim();
-      // Basic validation - should start with SELECT
-      if (sql.toLowerCase().startsWith('select')) {
+      // Basic validation - SELECT/WITH, or a JSON pipeline for mongo; SQLTool does the full read-only check
+      if (ConnectorService.looksLikeQuery(sql, context.connector)) {
         return sql;
       }
     }
@@ -211,12 +386,17 @@ If the user is not an admin and the data contains PII columns, use MaskPIITool t
         conversationContext += '\nUse this context to understand references like "that business", "those customers", etc.\n';
       }
 
+      const promptContext = await this.promptContextBuilder.build(message, context);
+      logger.info(`📚 Prompt context: ${promptContext.tables.length} tables, ${promptContext.examples.length} examples, ~${promptContext.estimatedTokens} tokens`);
+
       const completion = await this.openai.chat.completions.create({
         model: 'gpt-4.1',
         messages: [
           {
             role: 'system',
-            content: `You are a SQL expert for Bosta logistics database. Generate SQL queries based on user requests.${conversationContext}
+            content: `You are a SQL expert for Bosta logistics database. Generate SQL queries based on user requests.
+
+${promptContext.text}${conversationContext}
 
 User role: ${context.userRole}`
           },
@@ -235,20 +415,20 @@ User role: ${context.userRole}`
 
       // Extract SQL from markdown code blocks if present
       if (sqlQuery && sqlQuery.includes('```')) {
-        const sqlMatch = sqlQuery.match(/```(?:sql)?\s*([\s\S]*?)\s*```/);
+        const sqlMatch = sqlQuery.match(/```(?:sql|json)?\s*([\s\S]*?)\s*```/);
         if (sqlMatch) {
           sqlQuery = sqlMatch[1].trim();
           logger.info(`🔧 Extracted SQL from code blocks: ${sqlQuery}`);
         }
       }
 
-      // Basic validation
-      if (sqlQuery && sqlQuery.toLowerCase().startsWith('select')) {
+      // Basic validation - SQLTool does the full read-only check
+      if (sqlQuery && ConnectorService.looksLikeQuery(sqlQuery, context.connector)) {
         logger.info('✅ SQL query validated successfully');
         return sqlQuery;
       }
 
-      logger.info(`❌ SQL validation failed: hasContent=${!!sqlQuery}, startsWithSelect=${sqlQuery ? sqlQuery.toLowerCase().startsWith('select') : false}, firstChars=${sqlQuery ? sqlQuery.substring(0, 20) : 'null'}`);
+      logger.info(`❌ SQL validation failed: hasContent=${!!sqlQuery}, looksLikeQuery=${ConnectorService.looksLikeQuery(sqlQuery, context.connector)}, firstChars=${sqlQuery ? sqlQuery.substring(0, 20) : 'null'}`);
       return null;
     } catch (error) {
       logger.error('💥 SQL generation error:', error);
@@ -256,7 +436,11 @@ User role: ${context.userRole}`
     }
   }
 
-  private async generateResponseWithData(message: string, sql: string, data: any[]): Promise<string> {
+  private async generateResponseWithData(
+    message: string,
+    sql: string,
+    data: any[]
+  ): Promise<{ content: string; verification?: GroundingVerification }> {
     try {
       const completion = await this.openai.chat.completions.create({
         model: 'gpt-4.1',
@@ -283,9 +467,9 @@ ${sql}
 \`\`\`
 
 Query results:
-${JSON.stringify(data.slice(0, 10), null, 2)}
+${JSON.stringify(data.slice(0, SUMMARY_ROWS), null, 2)}
 
-${data.length > 10 ? `... and ${data.length - 10} more rows` : ''}
+${data.length > SUMMARY_ROWS ? `... and ${data.length - SUMMARY_ROWS} more rows` : ''}
 
 Please provide a summary of what this data shows.`
           }
@@ -294,10 +478,20 @@ Please provide a summary of what this data shows.`
         max_tokens: 500,
       });
 
-      return completion.choices[0]?.message?.content || 'Analysis completed.';
+      const summary = completion.choices[0]?.message?.content;
+      if (!summary) return { content: 'Analysis completed.' };
+
+      const { text, verification } = this.groundingVerifier.verify(summary, data, {
+        shownRows: SUMMARY_ROWS,
+        context: [sql]
+      });
+      if (verification.status === 'unverified' || verification.status === 'corrected') {
+        logger.warn(`⚠️ Summary had unsupported figures: ${verification.claims.filter(claim => !claim.supported).map(claim => claim.text).join(', ')}`);
+      }
+      return { content: text, verification };
     } catch (error) {
       logger.error('Response generation error:', error);
-      return `Query executed successfully. Found ${data.length} results.\n\n\`\`\`sql\n${sql}\n\`\`\``;
+      return { content: `Query executed successfully. Found ${data.length} results.\n\n\`\`\`sql\n${sql}\n\`\`\`` };
     }
   }
 }
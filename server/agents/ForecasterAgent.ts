@@ -2,12 +2,17 @@ import OpenAI from 'openai';
 import { getDatabase } from '../database/init.js';
 import { SQLTool } from '../tools/SQLTool.js';
 import { ForecastTool } from '../tools/ForecastTool.js';
+import { QueryRejectedError } from '../services/SQLGuard.js';
+import { ConnectorService, type Connector } from '../services/ConnectorService.js';
+import { PromptContextBuilder } from '../services/PromptContextBuilder.js';
 import { logger } from '../utils/logger.js';
 
 interface MessageContext {
   userId: string;
   userRole: string;
   conversationId: string;
+  connector?: Connector | null;
+  signal?: AbortSignal;
 }
 
 interface AgentResponse {
@@ -21,6 +26,7 @@ export class ForecasterAgent {
   private openai: OpenAI;
   private sqlTool: SQLTool;
   private forecastTool: ForecastTool;
+  private promptContextBuilder: PromptContextBuilder;
 
   constructor() {
     this.openai = new OpenAI({
@@ -28,6 +34,7 @@ export class ForecasterAgent {
     });
     this.sqlTool = new SQLTool();
     this.forecastTool = new ForecastTool();
+    this.promptContextBuilder = new PromptContextBuilder();
   }
 
   async processMessage(message: string, context: MessageContext): Promise<AgentResponse> {
@@ -90,6 +97,13 @@ Provide insights about trends and predictions.`
         agentUsed: 'ForecasterAgent',
       };
     } catch (error) {
+      if (error instanceof QueryRejectedError) {
+        logger.warn(`🚫 ForecasterAgent: generated SQL rejected: ${error.code} - ${error.reason}`);
+        return {
+          content: `I couldn't run the query needed for this forecast because it was blocked before execution: ${error.reason}\n\nPlease rephrase your request and try again.`,
+          agentUsed: 'ForecasterAgent',
+        };
+      }
       logger.error('ForecasterAgent error:', error);
       return {
         content: 'I apologize, but I encountered an error generating the forecast. Please try again.',
@@ -144,8 +158,10 @@ Respond with exactly "YES" if time series data is needed, or "NO" if not.`
     }
   }
 
-  private async generateSQLQuery(message: string, _context: MessageContext): Promise<string | null> {
+  private async generateSQLQuery(message: string, context: MessageContext): Promise<string | null> {
     try {
+      const promptContext = await this.promptContextBuilder.build(message, context);
+
       const completion = await this.openai.chat.completions.create({
         model: 'gpt-4.1',
         messages: [
@@ -153,29 +169,7 @@ Respond with exactly "YES" if time series data is needed, or "NO" if not.`
             role: 'system',
             content: `Generate SQL query for forecasting data analysis. Focus on time-series data.
 
-PRIMARY VIEW: new_deliveries_dashboard_cdc (comprehensive delivery view with all related data)
-
-This view contains all delivery information with proper joins:
-
-Main delivery fields:
-- delivery_id, tracking_number, sender_id, sender_name, cod_amount, created_at, updated_at
-
-Receiver fields:
-- receiver_id, receiver_first_name, receiver_last_name, receiver_full_name, receiver_phone
-
-Address fields:
-- Dropoff: dropoff_first_line, dropoff_state, dropoff_country_name, dropoff_city_name
-- Pickup: pickup_first_line, pickup_state, pickup_country_name, pickup_city_name
-
-IMPORTANT PERFORMANCE RULE:
-Avoid using YEAR(column_name) or MONTH(column_name) or DATE(column_name) or DATE_SUB(column_name, INTERVAL n DAY) or similar date functions as they prevent index usage. Use BETWEEN instead.
-
-Example:
-❌ WHERE YEAR(created_at) = 2024
-✅ WHERE created_at BETWEEN '2024-01-01' AND '2024-12-31 23:59:59'
-
-❌ WHERE DATE(created_at) >= '2024-01-01'
-✅ WHERE created_at >= '2024-01-01 00:00:00'
+${promptContext.text}
 
 For forecasting, focus on:
 - Time-based aggregations (daily, weekly, monthly trends)
@@ -183,7 +177,6 @@ For forecasting, focus on:
 - Seasonal variations
 - Growth trends
 
-Always use the view name: new_deliveries_dashboard_cdc
 Generate queries that return time-series data suitable for forecasting analysis.
 Return only valid SQL query without markdown formatting.`
           },
@@ -201,13 +194,13 @@ Return only valid SQL query without markdown formatting.`
       // Extract SQL from markdown if present
       let cleanSqlQuery = sqlQuery;
       if (sqlQuery && sqlQuery.includes('```')) {
-        const sqlMatch = sqlQuery.match(/```(?:sql)?\s*([\s\S]*?)\s*```/);
+        const sqlMatch = sqlQuery.match(/```(?:sql|json)?\s*([\s\S]*?)\s*```/);
         if (sqlMatch) {
           cleanSqlQuery = sqlMatch[1].trim();
         }
       }
       
-      if (cleanSqlQuery && cleanSqlQuery.toLowerCase().startsWith('select')) {
+      if (cleanSqlQuery && ConnectorService.looksLikeQuery(cleanSqlQuery, context.connector)) {
         return cleanSqlQuery;
       }
 
@@ -1,61 +1,145 @@
 import OpenAI from 'openai';
-import { ValidatedQueriesService } from '../services/validatedQueries.js';
+import { FilterParams, ValidatedQueriesService, ValidatedQuery, ValidatedQueryExecution } from '../services/validatedQueries.js';
+import { RowLevelIdentity } from '../services/RowLevelSecurity.js';
+import { ValidatedQueryVectors } from '../services/ValidatedQueryVectors.js';
+import { AppliedFilter, QuestionFilterExtractor } from '../services/QuestionFilterExtractor.js';
+import { FilterValidationError } from '../services/PlaceholderBinder.js';
+import {
+  AnswerFigure,
+  AnswerProvenance,
+  AnswerProvenanceBuilder,
+  CITED_ANSWER_FORMAT,
+  MAX_CITABLE_ROWS
+} from '../services/AnswerProvenance.js';
+import { GroundingVerification, NumericGroundingVerifier } from '../services/NumericGroundingVerifier.js';
 import { getDatabase } from '../database/init.js';
 import { logger } from '../utils/logger.js';
 
+interface QueryCandidate {
+  query: ValidatedQuery;
+  confidence: number;
+}
+
 interface QueryContext {
-  qid: string;
-  name: string;
-  sql_text: string;
-  data: any[];
+  query: ValidatedQuery;
+  // Filters taken from the question or set by the user
+  applied: AppliedFilter[];
+  execution: ValidatedQueryExecution;
   confidence: number;
 }
 
+// Milliseconds spent in each phase of answering a question
+export interface AnswerTimings {
+  // Matching the question against query metadata, nothing is executed
+  rank_ms: number;
+  // Running the best match, 0 when no query matched
+  execute_ms: number;
+  answer_ms: number;
+  total_ms: number;
+}
+
+// Set when the user edits the filter chips of an answer: the question is answered again from
+// that query with exactly these filters
+export interface AnswerOverrides {
+  qid?: string;
+  filters?: FilterParams;
+}
+
 export class QueryAnswerAgent {
   private openai: OpenAI;
   private validatedQueriesService: ValidatedQueriesService;
-  private readonly CONFIDENCE_THRESHOLD = 0.8;
+  private vectors: ValidatedQueryVectors;
+  private filterExtractor = new QuestionFilterExtractor();
+  private provenance = new AnswerProvenanceBuilder();
+  private groundingVerifier = new NumericGroundingVerifier();
+  // Minimum embedding similarity for a validated answer, by default the embedding model's own
+  private readonly CONFIDENCE_THRESHOLD: number;
 
-  constructor() {
+  constructor(vectors = new ValidatedQueryVectors()) {
     this.openai = new OpenAI({
       apiKey: process.env.OPENAI_API_KEY,
     });
     this.validatedQueriesService = new ValidatedQueriesService();
+    this.vectors = vectors;
+    this.CONFIDENCE_THRESHOLD = parseFloat(process.env.VALIDATED_ANSWER_MIN_SIMILARITY || '') || vectors.matchThreshold;
   }
 
-  async answerQuestion(question: string, scope?: string): Promise<{
+  // Two phases: rank the validated queries on their metadata (embeddings of name, description
+  // and columns), then execute only the best match, with the dates and entities the question
+  // names as filters. Nothing runs when no query is similar enough.
+  async answerQuestion(
+    question: string,
+    scope?: string,
+    identity?: RowLevelIdentity,
+    signal?: AbortSignal,
+    overrides: AnswerOverrides = {}
+  ): Promise<{
     answer: string;
     badge: 'validated' | 'ai-generated';
     sources?: string[];
     confidence?: number;
+    qid?: string;
+    // Filters the answer is based on, for the chat to show as editable chips
+    applied_filters?: AppliedFilter[];
+    // Query version, filters, run and rows behind every number of a validated answer
+    provenance?: AnswerProvenance;
+    // Whether the numbers of a validated answer were found in or derived from the rows
+    verification?: GroundingVerification;
+    timings: AnswerTimings;
   }> {
     try {
-      // First, try to find relevant validated queries
-      const relevantQueries = await this.findRelevantQueries(question, scope);
-      
-      if (relevantQueries.length > 0) {
-        const bestMatch = relevantQueries[0];
-        
-        if (bestMatch.confidence >= this.CONFIDENCE_THRESHOLD) {
+      const started = Date.now();
+      const timings: AnswerTimings = { rank_ms: 0, execute_ms: 0, answer_ms: 0, total_ms: 0 };
+
+      const candidates = await this.rankQueries(question, scope);
+      timings.rank_ms = Date.now() - started;
+
+      // A query the user picked is used whatever its similarity
+      const bestMatch = overrides.qid
+        ? candidates.find(candidate => candidate.query.id === overrides.qid)
+        : candidates[0];
+      if (overrides.qid && !bestMatch) {
+        throw new FilterValidationError([{ param: 'qid', message: 'is not a validated query in this scope' }]);
+      }
+      if (bestMatch && (overrides.qid || bestMatch.confidence >= this.CONFIDENCE_THRESHOLD)) {
+        const executeStarted = Date.now();
+        const context = await this.executeCandidate(question, bestMatch, identity, signal, overrides.filters);
+        timings.execute_ms = Date.now() - executeStarted;
+
+        if (context) {
           // High confidence - answer using validated data
-          const answer = await this.generateValidatedAnswer(question, bestMatch);
+          const answerStarted = Date.now();
+          const { answer, figures, verification } = await this.generateValidatedAnswer(question, context);
+          timings.answer_ms = Date.now() - answerStarted;
+          timings.total_ms = Date.now() - started;
           return {
             answer,
             badge: 'validated',
-            sources: [bestMatch.name],
-            confidence: bestMatch.confidence
+            sources: [context.query.name],
+            confidence: context.confidence,
+            qid: context.query.id,
+            applied_filters: context.applied,
+            provenance: this.provenance.build(context.query, context.execution, figures),
+            verification,
+            timings
           };
         }
       }
 
-      // Low confidence or no matches - fall back to AI generation with warning
+      // Low confidence, no matches or the match failed - fall back to AI generation with warning
+      const answerStarted = Date.now();
       const aiAnswer = await this.generateAIAnswer(question);
+      timings.answer_ms = Date.now() - answerStarted;
+      timings.total_ms = Date.now() - started;
       return {
         answer: `⚠ AI-Generated - data team has not validated this query.\n\n${aiAnswer}`,
-        badge: 'ai-generated'
+        badge: 'ai-generated',
+        timings
       };
 
     } catch (error) {
+      // Filters the user set are reported back instead of being answered without them
+      if (error instanceof FilterValidationError) throw error;
       logger.error('QueryAnswerAgent error:', error);
       throw new Error('Failed to process question');
     }
@@ -67,7 +151,7 @@ export class QueryAnswerAgent {
     lastRun: Date | null;
   }> {
     try {
-      const query = await this.validatedQueriesService.getValidatedQuery(qid);
+      const query = await this.validatedQueriesService.getApprovedQuery(qid);
       if (!query) {
         throw new Error('Query not found');
       }
@@ -94,77 +178,53 @@ export class QueryAnswerAgent {
     }
   }
 
-  private async findRelevantQueries(question: string, scope?: string): Promise<QueryContext[]> {
-    // Get all validated queries for the scope
+  // Validated queries of the scope by similarity to the question, most similar first
+  private async rankQueries(question: string, scope?: string): Promise<QueryCandidate[]> {
     const queries = await this.validatedQueriesService.getValidatedQueries(scope);
-    
-    const queryContexts: QueryContext[] = [];
-
-    for (const query of queries) {
-      try {
-        // Get cached data for default filters
-        const result = await this.validatedQueriesService.executeValidatedQuery(query.id);
-        
-        // Calculate semantic similarity (simplified version)
-        const confidence = await this.calculateSemanticSimilarity(question, query);
-        
-        queryContexts.push({
-          qid: query.id,
-          name: query.name,
-          sql_text: query.sql_text,
-          data: result.data,
-          confidence
-        });
-      } catch (error) {
-        logger.warn(`Failed to get data for query ${query.name}:`, error);
-      }
-    }
+    const byId = new Map(queries.map(query => [query.id, query]));
 
-    // Sort by confidence score
-    return queryContexts.sort((a, b) => b.confidence - a.confidence);
+    // Confidence is the cosine similarity of the question and each query's embedding
+    return (await this.vectors.search(question, queries)).map(match => ({
+      query: byId.get(match.qid)!,
+      confidence: match.similarity
+    }));
   }
 
-  private async calculateSemanticSimilarity(question: string, query: any): Promise<number> {
-    // Simplified semantic similarity calculation
-    // In production, you'd use proper vector embeddings and similarity search
-    
-    const questionLower = question.toLowerCase();
-    const queryName = query.name.toLowerCase();
-    const sqlText = query.sql_text.toLowerCase();
-    
-    let score = 0;
-    
-    // Check for keyword matches in query name
-    const nameKeywords = queryName.split('_');
-    for (const keyword of nameKeywords) {
-      if (questionLower.includes(keyword)) {
-        score += 0.2;
-      }
-    }
-    
-    // Check for domain-specific terms
-    const domainTerms = [
-      'revenue', 'volume', 'delivery', 'merchant', 'zone', 'region',
-      'daily', 'monthly', 'trend', 'asp', 'order', 'amount'
-    ];
-    
-    for (const term of domainTerms) {
-      if (questionLower.includes(term) && (queryName.includes(term) || sqlText.includes(term))) {
-        score += 0.15;
-      }
+  // Run the matched query with the filters named in the question, or the ones the user set;
+  // null when it fails with extracted filters
+  private async executeCandidate(
+    question: string,
+    candidate: QueryCandidate,
+    identity?: RowLevelIdentity,
+    signal?: AbortSignal,
+    userFilters?: FilterParams
+  ): Promise<QueryContext | null> {
+    const { query } = candidate;
+    try {
+      const dimensions = await this.validatedQueriesService.getFilterDimensions();
+      const lookupOptions = (param: string) => this.validatedQueriesService.getFilterOptions(param);
+      const { filters, applied } = userFilters
+        ? { filters: userFilters, applied: await this.filterExtractor.describe(userFilters, query, dimensions, lookupOptions) }
+        : await this.filterExtractor.extract(question, query, dimensions, lookupOptions);
+
+      const execution = await this.validatedQueriesService.executeValidatedQuery(query.id, filters, identity, signal);
+
+      return { query, applied, execution, confidence: candidate.confidence };
+    } catch (error) {
+      if (userFilters && error instanceof FilterValidationError) throw error;
+      logger.warn(`Failed to get data for query ${query.name}:`, error);
+      return null;
     }
-    
-    // Check for metric-specific terms
-    if (questionLower.includes('revenue') && query.name.includes('REVENUE')) score += 0.3;
-    if (questionLower.includes('volume') && query.name.includes('VOL')) score += 0.3;
-    if (questionLower.includes('daily') && query.name.includes('DAILY')) score += 0.2;
-    if (questionLower.includes('monthly') && query.name.includes('MONTHLY')) score += 0.2;
-    if (questionLower.includes('zone') && query.name.includes('ZONE')) score += 0.2;
-    
-    return Math.min(score, 1.0); // Cap at 1.0
   }
 
-  private async generateValidatedAnswer(question: string, context: QueryContext): Promise<string> {
+  // The answer and, for the provenance, the rows each of its numbers comes from. Numbers the
+  // rows do not support are corrected or flagged before the answer is returned.
+  private async generateValidatedAnswer(question: string, context: QueryContext): Promise<{
+    answer: string;
+    figures: AnswerFigure[];
+    verification: GroundingVerification;
+  }> {
+    const { query, execution } = context;
     const systemPrompt = `You are a data analyst answering questions using ONLY validated, cached data.
 
 STRICT RULES:
@@ -175,10 +235,14 @@ STRICT RULES:
 5. Provide a brief, accurate summary based only on what you can see in the data
 
 Context:
-- Query: ${context.name}
+- Query: ${query.name}
+- Filters: ${context.applied.length > 0 ? context.applied.map(filter => `${filter.label}: ${filter.display}`).join('; ') : 'none'}; as run: ${JSON.stringify(execution.filters)}
 - Data Source: Validated SQL query approved by data team
-- Sample Data: ${JSON.stringify(context.data.slice(0, 5))}
-- Total Records: ${context.data.length}`;
+- Total Records: ${execution.data.length}
+- Rows:
+${this.provenance.citableRows(execution.data)}
+
+${CITED_ANSWER_FORMAT}`;
 
     const response = await this.openai.chat.completions.create({
       model: 'gpt-4',
@@ -187,10 +251,26 @@ Context:
         { role: 'user', content: question }
       ],
       temperature: 0.3,
-      max_tokens: 500
+      max_tokens: 900
     });
 
-    return response.choices[0]?.message?.content || 'Unable to generate answer';
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      return { answer: 'Unable to generate answer', figures: [], verification: { status: 'no_figures', claims: [] } };
+    }
+
+    const parsed = this.provenance.parseAnswer(content, execution.data);
+    const { text, verification } = this.groundingVerifier.verify(parsed.answer, execution.data, {
+      shownRows: MAX_CITABLE_ROWS,
+      context: Object.values(execution.filters).map(String)
+    });
+    if (verification.status === 'unverified' || verification.status === 'corrected') {
+      logger.warn(`⚠️ ${query.name} answer had unsupported figures: ${verification.claims.filter(claim => !claim.supported).map(claim => claim.text).join(', ')}`);
+    }
+    // Figures a correction rewrote quote the corrected number, so they can still be traced
+    const figures = this.provenance.checkFigures(parsed.answer, parsed.figures, verification)
+      .filter(figure => text.includes(figure.text));
+    return { answer: text, figures, verification };
   }
 
   private async generateAIAnswer(question: string): Promise<string> {
@@ -1,13 +1,20 @@
 import OpenAI from 'openai';
-import { AnalystAgent } from './AnalystAgent.js';
+import { AnalystAgent, type SQLAttempt } from './AnalystAgent.js';
 import { VisualizerAgent } from './VisualizerAgent.js';
 import { ForecasterAgent } from './ForecasterAgent.js';
+import type { Connector } from '../services/ConnectorService.js';
+import type { GroundingVerification } from '../services/NumericGroundingVerifier.js';
 import { logger } from '../utils/logger.js';
 
 interface MessageContext {
   userId: string;
   userRole: string;
+  // Row-level policies keyed on email or name read these
+  email?: string;
+  name?: string;
   conversationId: string;
+  connector?: Connector | null;
+  signal?: AbortSignal;
   conversationHistory?: Array<{
     type: string;
     content: string;
@@ -23,6 +30,8 @@ interface AgentResponse {
   sql?: string;
   chart?: string;
   agentUsed: string;
+  queryAttempts?: SQLAttempt[];
+  verification?: GroundingVerification;
 }
 
 export class SupervisorAgent {
@@ -2,12 +2,17 @@ import OpenAI from 'openai';
 import { getDatabase } from '../database/init.js';
 import { SQLTool } from '../tools/SQLTool.js';
 import { MakeChartTool } from '../tools/MakeChartTool.js';
+import { QueryRejectedError } from '../services/SQLGuard.js';
+import { ConnectorService, type Connector } from '../services/ConnectorService.js';
+import { PromptContextBuilder } from '../services/PromptContextBuilder.js';
 import { logger } from '../utils/logger.js';
 
 interface MessageContext {
   userId: string;
   userRole: string;
   conversationId: string;
+  connector?: Connector | null;
+  signal?: AbortSignal;
   conversationHistory?: Array<{
     type: string;
     content: string;
@@ -29,6 +34,7 @@ export class VisualizerAgent {
   private openai: OpenAI;
   private sqlTool: SQLTool;
   private makeChartTool: MakeChartTool;
+  private promptContextBuilder: PromptContextBuilder;
 
   constructor() {
     this.openai = new OpenAI({
@@ -36,6 +42,7 @@ export class VisualizerAgent {
     });
     this.sqlTool = new SQLTool();
     this.makeChartTool = new MakeChartTool();
+    this.promptContextBuilder = new PromptContextBuilder();
   }
 
   async processMessage(message: string, context: MessageContext): Promise<AgentResponse> {
@@ -153,6 +160,13 @@ Explain what the visualization shows and provide insights based on the actual da
         agentUsed: 'VisualizerAgent',
       };
     } catch (error) {
+      if (error instanceof QueryRejectedError) {
+        logger.warn(`🚫 VisualizerAgent: generated SQL rejected: ${error.code} - ${error.reason}`);
+        return {
+          content: `I couldn't run the query needed for this visualization because it was blocked before execution: ${error.reason}\n\nPlease rephrase your request and try again.`,
+          agentUsed: 'VisualizerAgent',
+        };
+      }
       logger.error('VisualizerAgent error:', error);
       return {
         content: 'I apologize, but I encountered an error creating the visualization. Please try again.',
@@ -256,6 +270,18 @@ Respond with exactly "NEW_DATA" or "SAME_DATA" - nothing else.`
         conversationContext += '\nIMPORTANT: When the user says "this business" or similar, look at the conversation history above to identify the specific business name or entity they are referring to. Use the exact names found in the previous responses.\n';
       }
 
+      const promptContext = await this.promptContextBuilder.build(message, context);
+
+      // Grouping rules use MySQL date functions, so they only apply to MySQL sources
+      const groupingRules = !context.connector || context.connector.kind === 'mysql'
+        ? `
+
+TIME PERIOD GROUPING RULES:
+- "over the last X years" or "by year" or "yearly" or "per year" → GROUP BY YEAR(created_at) or DATE_FORMAT(created_at, '%Y')
+- "monthly" or "by month" or "per month" → GROUP BY DATE_FORMAT(created_at, '%Y-%m')
+- "daily" or "by day" or "per day" → GROUP BY DATE(created_at)
+- Default for multi-year periods: Use yearly grouping unless specifically asked for monthly detail`
+        : '';
 
       const completion = await this.openai.chat.completions.create({
         model: 'gpt-4.1',
@@ -264,18 +290,7 @@ Respond with exactly "NEW_DATA" or "SAME_DATA" - nothing else.`
             role: 'system',
             content: `${systemPrompt}${conversationContext}
 
-CRITICAL MySQL SYNTAX REQUIREMENTS:
-- Use DATE_FORMAT(created_at, '%Y-%m') for monthly grouping, NOT DATE_TRUNC
-- Use DATE_FORMAT(created_at, '%Y') for yearly grouping  
-- Use created_at column for dates, NOT delivery_date  
-- Use BETWEEN dates instead of >= comparisons
-- Generate MYSQL compatible syntax only
-
-TIME PERIOD GROUPING RULES:
-- "over the last X years" or "by year" or "yearly" or "per year" → GROUP BY YEAR(created_at) or DATE_FORMAT(created_at, '%Y')
-- "monthly" or "by month" or "per month" → GROUP BY DATE_FORMAT(created_at, '%Y-%m')
-- "daily" or "by day" or "per day" → GROUP BY DATE(created_at)
-- Default for multi-year periods: Use yearly grouping unless specifically asked for monthly detail
+${promptContext.text}${groupingRules}
 
 Generate ONLY the SQL query, no explanations.`
           },
@@ -294,16 +309,16 @@ Generate ONLY the SQL query, no explanations.`
       // Extract SQL from markdown if present
       let cleanSqlQuery = sqlQuery;
       if (sqlQuery && sqlQuery.includes('```')) {
-        const sqlMatch = sqlQuery.match(/```(?:sql|mysql)?\s*([\s\S]*?)\s*```/);
+        const sqlMatch = sqlQuery.match(/```(?:sql|mysql|json)?\s*([\s\S]*?)\s*```/);
         if (sqlMatch) {
           cleanSqlQuery = sqlMatch[1].trim();
         }
       }
 
       logger.info(`🧹 Cleaned SQL query: ${cleanSqlQuery}`);
-      logger.info(`🔍 SQL validation - starts with select: ${cleanSqlQuery?.toLowerCase().startsWith('select')}`);
+      logger.info(`🔍 Query validation - looks like a query: ${ConnectorService.looksLikeQuery(cleanSqlQuery, context.connector)}`);
 
-      if (cleanSqlQuery && cleanSqlQuery.toLowerCase().startsWith('select')) {
+      if (cleanSqlQuery && ConnectorService.looksLikeQuery(cleanSqlQuery, context.connector)) {
         return cleanSqlQuery;
       }
 
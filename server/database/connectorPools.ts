@@ -0,0 +1,132 @@
+import mysql from 'mysql2/promise';
+import pkg from 'pg';
+import { MongoClient } from 'mongodb';
+import { logger } from '../utils/logger.js';
+const { Pool } = pkg;
+
+export type SQLConnectorKind = 'mysql' | 'postgres' | 'redshift';
+
+interface ConnectorPoolEntry {
+  kind: SQLConnectorKind | 'mongo';
+  version: string;
+  pool: mysql.Pool | any;
+}
+
+// One pool per connector, rebuilt when the connector row changes
+const connectorPools = new Map<string, ConnectorPoolEntry>();
+
+export function isSQLConnector(connector: any): boolean {
+  return ['mysql', 'postgres', 'redshift'].includes(connector?.kind);
+}
+
+export async function getConnectorPool(connector: any): Promise<ConnectorPoolEntry> {
+  if (!isSQLConnector(connector)) {
+    throw new Error(`Connector kind ${connector?.kind} does not support SQL pools`);
+  }
+
+  const version = String(connector.updated_at || connector.conn_uri);
+  const existing = connectorPools.get(connector.id);
+  if (existing && existing.version === version) {
+    return existing;
+  }
+
+  if (existing) {
+    await closeConnectorPool(connector.id);
+  }
+
+  const entry: ConnectorPoolEntry = {
+    kind: connector.kind,
+    version,
+    pool: connector.kind === 'mysql'
+      ? createMySQLPool(connector.conn_uri)
+      : createPostgresPool(connector.conn_uri, connector.kind === 'redshift'),
+  };
+
+  connectorPools.set(connector.id, entry);
+  logger.db(`Connection pool created for connector ${connector.name || connector.id} (${connector.kind})`);
+  return entry;
+}
+
+// MongoClient keeps its own connection pool, so one client per connector is shared the same way
+export async function getMongoClient(connector: any): Promise<MongoClient> {
+  if (connector?.kind !== 'mongo') {
+    throw new Error(`Connector kind ${connector?.kind} is not a MongoDB connector`);
+  }
+
+  const version = String(connector.updated_at || connector.conn_uri);
+  const existing = connectorPools.get(connector.id);
+  if (existing && existing.version === version) {
+    return existing.pool;
+  }
+
+  if (existing) {
+    await closeConnectorPool(connector.id);
+  }
+
+  const client = new MongoClient(connector.conn_uri, {
+    maxPoolSize: 5,
+    serverSelectionTimeoutMS: 10000,
+    maxIdleTimeMS: 60000,
+  });
+  await client.connect();
+
+  connectorPools.set(connector.id, { kind: 'mongo', version, pool: client });
+  logger.db(`MongoDB client created for connector ${connector.name || connector.id}`);
+  return client;
+}
+
+export async function closeConnectorPool(connectorId: string): Promise<void> {
+  const entry = connectorPools.get(connectorId);
+  if (!entry) return;
+
+  connectorPools.delete(connectorId);
+  try {
+    if (entry.kind === 'mongo') {
+      await entry.pool.close();
+    } else {
+      await entry.pool.end();
+    }
+    logger.db(`Connection pool closed for connector ${connectorId}`);
+  } catch (error) {
+    logger.warn(`Failed to close pool for connector ${connectorId}:`, error);
+  }
+}
+
+export async function closeAllConnectorPools(): Promise<void> {
+  await Promise.all([...connectorPools.keys()].map(id => closeConnectorPool(id)));
+}
+
+function createMySQLPool(connUri: string): mysql.Pool {
+  const uri = new URL(connUri);
+  return mysql.createPool({
+    host: uri.hostname,
+    port: parseInt(uri.port) || 3306,
+    user: decodeURIComponent(uri.username),
+    password: decodeURIComponent(uri.password),
+    database: uri.pathname.slice(1),
+    timezone: '+00:00',
+    connectionLimit: 5,
+    connectTimeout: 10000,
+    enableKeepAlive: true,
+    idleTimeout: 60000,
+    maxIdle: 2,
+  });
+}
+
+function createPostgresPool(connUri: string, isRedshift: boolean): any {
+  const uri = new URL(connUri);
+  const sslMode = uri.searchParams.get('sslmode') || uri.searchParams.get('ssl');
+  const useSSL = sslMode ? !['disable', 'false'].includes(sslMode) : isRedshift;
+
+  return new Pool({
+    host: uri.hostname,
+    port: parseInt(uri.port) || (isRedshift ? 5439 : 5432),
+    user: decodeURIComponent(uri.username),
+    password: decodeURIComponent(uri.password),
+    database: uri.pathname.slice(1),
+    ssl: useSSL ? { rejectUnauthorized: false } : false,
+    max: 5,
+    idleTimeoutMillis: 60000,
+    connectionTimeoutMillis: 10000,
+  });
+}
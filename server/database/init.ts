@@ -6,6 +6,8 @@ import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { logger } from '../utils/logger.js';
+import { closeAllConnectorPools } from './connectorPools.js';
+import { executePostgresWithDeadline, type QueryDeadline } from './queryExecution.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -113,8 +115,14 @@ export async function initializeDatabase() {
     const redisPort = process.env.REDIS_PORT || '6379';
     const redisUrl = `redis://${redisHost}:${redisPort}`;
     
+    // Redis is only a cache: the server starts without it and CacheStore serves from memory
+    // until it connects. Commands fail fast instead of queueing while it is disconnected.
     redis = createClient({
-      url: redisUrl
+      url: redisUrl,
+      disableOfflineQueue: true,
+      socket: {
+        reconnectStrategy: (retries: number) => Math.min(retries * 500, 10000)
+      }
     });
 
     redis.on('error', (err: any) => {
@@ -125,7 +133,9 @@ export async function initializeDatabase() {
       logger.db('Redis connection established successfully');
     });
 
-    await redis.connect();
+    redis.connect().catch((err: any) => {
+      logger.error('Redis connection failed:', err);
+    });
 
     // Create necessary tables
     await createMigrationTable();
@@ -537,7 +547,9 @@ export async function closeDatabase() {
       logger.db('Redshift database pool closed');
     }
     
-    if (redis) {
+    await closeAllConnectorPools();
+
+    if (redis?.isOpen) {
       await redis.quit();
       logger.db('Redis connection closed');
     }
@@ -549,24 +561,23 @@ export async function closeDatabase() {
   }
 }
 
-// Helper function to execute queries on Redshift with proper parameter binding
-export async function executeRedshiftQuery(sql: string, params: any[] = []): Promise<any[]> {
+// Helper function to execute queries on Redshift with proper parameter binding.
+// Runs under statement_timeout (2 minutes unless given) and is cancelled with
+// pg_cancel_backend when the deadline's signal aborts.
+export async function executeRedshiftQuery(sql: string, params: any[] = [], deadline: Partial<QueryDeadline> = {}): Promise<any[]> {
   if (!redshiftPool) {
     throw new Error('Redshift connection not available');
   }
 
-  const client = await redshiftPool.connect();
-  try {
-    // Convert MySQL-style ? placeholders to PostgreSQL-style $1, $2, etc.
-    let parameterizedSql = sql;
-    let paramIndex = 1;
-    
-    // Replace ? with $1, $2, $3, etc.
-    parameterizedSql = parameterizedSql.replace(/\?/g, () => `$${paramIndex++}`);
-    
-    const result = await client.query(parameterizedSql, params);
-    return result.rows;
-  } finally {
-    client.release();
-  }
-}
\ No newline at end of file
+  // Convert MySQL-style ? placeholders to PostgreSQL-style $1, $2, etc.
+  let parameterizedSql = sql;
+  let paramIndex = 1;
+  
+  // Replace ? with $1, $2, $3, etc.
+  parameterizedSql = parameterizedSql.replace(/\?/g, () => `$${paramIndex++}`);
+  
+  return executePostgresWithDeadline(redshiftPool, parameterizedSql, params, {
+    timeoutMs: deadline.timeoutMs ?? 120000,
+    signal: deadline.signal,
+  });
+}
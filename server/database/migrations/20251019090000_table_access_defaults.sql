@@ -0,0 +1,11 @@
+/*
+  # Table Access Defaults
+
+  SQLTool now enforces table_access patterns on every agent-generated query.
+  The original seed only granted AM and analyst roles tables that do not exist
+  on the analytics replica, so grant them the deliveries dashboard view.
+*/
+
+INSERT IGNORE INTO table_access (id, role, table_pattern) VALUES
+(UUID(), 'am', 'new_deliveries_dashboard_cdc'),
+(UUID(), 'analyst', 'new_deliveries_dashboard_cdc');
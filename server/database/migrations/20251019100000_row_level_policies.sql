@@ -0,0 +1,32 @@
+/*
+  # Row-Level Policies
+
+  Mandatory row filters keyed on the JWT identity of the caller.
+  A policy either bypasses row filtering for a role (admin, leader) or
+  forces a column of a table to equal one of the caller's identity claims.
+
+  - table_pattern / column_name: predicate injected into agent-generated SQL
+  - filter_param: validated query placeholder forced to the same identity value
+*/
+
+CREATE TABLE IF NOT EXISTS row_level_policies (
+  id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+  name VARCHAR(64) NOT NULL,
+  role ENUM('admin', 'leader', 'am', 'analyst') NOT NULL,
+  bypass BOOLEAN DEFAULT FALSE,                -- Role sees every row, no predicates are injected
+  table_pattern VARCHAR(255) DEFAULT NULL,     -- Table (or * / % pattern) the predicate applies to
+  column_name VARCHAR(64) DEFAULT NULL,        -- Column compared against the identity claim
+  identity_claim ENUM('user_id', 'email', 'name') NOT NULL DEFAULT 'email',
+  filter_param VARCHAR(32) DEFAULT NULL,       -- Validated query placeholder to force, e.g. am
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY unique_row_level_policy_name (name),
+  INDEX idx_row_level_policies_role (role),
+  INDEX idx_row_level_policies_active (is_active)
+);
+
+INSERT IGNORE INTO row_level_policies (id, name, role, bypass, table_pattern, column_name, identity_claim, filter_param) VALUES
+(UUID(), 'ADMIN_ALL_ROWS', 'admin', TRUE, NULL, NULL, 'email', NULL),
+(UUID(), 'LEADER_ALL_ROWS', 'leader', TRUE, NULL, NULL, 'email', NULL),
+(UUID(), 'AM_OWN_MERCHANTS', 'am', FALSE, 'demo_merchants', 'account_manager', 'name', 'am');
@@ -0,0 +1,16 @@
+/*
+  # Conversation Connectors
+
+  Lets a conversation run its queries against a selected connector
+  instead of the default deliveries database.
+
+  - connectors.kind gains postgres and redshift
+  - conversations.connector_id stores the connector picked in the chat
+*/
+
+ALTER TABLE connectors
+  MODIFY kind ENUM('mysql', 'postgres', 'redshift', 'mongo', 'gmail', 'gdrive') NOT NULL;
+
+ALTER TABLE conversations
+  ADD COLUMN connector_id VARCHAR(36) DEFAULT NULL,
+  ADD INDEX idx_conversations_connector (connector_id);
@@ -0,0 +1,26 @@
+/*
+  # Connector Schema History
+
+  Schema introspection results for connectors.
+  connectors.schema_json holds the latest crawl, and every refresh that
+  changes it is recorded here with a table and column level diff.
+
+  - schema_refreshed_at: when the schema was last crawled
+  - schema_refresh_error: last crawl failure, cleared on success
+*/
+
+ALTER TABLE connectors
+  ADD COLUMN schema_refreshed_at TIMESTAMP NULL DEFAULT NULL,
+  ADD COLUMN schema_refresh_error TEXT DEFAULT NULL;
+
+CREATE TABLE IF NOT EXISTS connector_schema_history (
+  id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+  connector_id VARCHAR(36) NOT NULL,
+  schema_json JSON NOT NULL,                   -- Full schema as crawled
+  diff_json JSON DEFAULT NULL,                 -- Changes from the previous crawl, NULL for the first one
+  table_count INT NOT NULL DEFAULT 0,
+  triggered_by VARCHAR(36) DEFAULT NULL,       -- User id, or NULL for the scheduled refresh
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_connector_schema_history_connector (connector_id, created_at),
+  FOREIGN KEY (connector_id) REFERENCES connectors(id) ON DELETE CASCADE
+);
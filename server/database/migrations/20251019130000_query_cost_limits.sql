@@ -0,0 +1,11 @@
+/*
+  # Query Cost Limits
+
+  SQLTool runs EXPLAIN before executing agent-generated queries and refuses
+  those estimated to read more rows than the caller's role allows.
+  Limits are kept in settings under query_cost_limits, keyed by role, with
+  "default" used for roles without an entry. A limit of 0 disables the check.
+*/
+
+INSERT IGNORE INTO settings (id, setting_key, setting_value) VALUES
+(UUID(), 'query_cost_limits', '{"default": {"max_rows_scanned": 5000000, "max_full_scan_rows": 1000000}, "am": {"max_rows_scanned": 2000000, "max_full_scan_rows": 500000}, "admin": {"max_rows_scanned": 20000000, "max_full_scan_rows": 5000000}}');
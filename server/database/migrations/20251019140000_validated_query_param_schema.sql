@@ -0,0 +1,20 @@
+/*
+  # Validated Query Parameter Schema
+
+  Each validated query declares the parameters its SQL uses, with a type
+  (date, int, string, enum, list), whether it is required, a default,
+  allowed values, and the filter dimension whose options it must match.
+  The execute endpoint checks request filters against it and drops filters
+  the query does not declare.
+
+  - validated_queries.param_schema holds the list of parameter definitions
+  - The four starter AM queries get their schema
+*/
+
+ALTER TABLE validated_queries
+  ADD COLUMN param_schema JSON DEFAULT NULL AFTER sql_text;
+
+UPDATE validated_queries
+SET param_schema = '[{"name": "start_date", "type": "date", "required": true}, {"name": "end_date", "type": "date", "required": true}, {"name": "merchant_id", "type": "list"}, {"name": "region", "type": "string", "dimension": "region"}, {"name": "tier", "type": "string", "dimension": "tier"}, {"name": "am", "type": "string", "dimension": "am"}]'
+WHERE name IN ('AM_VOL_ZONE_DAILY', 'AM_REVENUE_MONTHLY', 'AM_REVENUE_ZONE_DAILY', 'AM_REVENUE_TYPE_DAILY')
+  AND param_schema IS NULL;
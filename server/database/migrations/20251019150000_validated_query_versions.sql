@@ -0,0 +1,39 @@
+/*
+  # Validated Query Versions
+
+  Every create, edit and rollback of a validated query is stored as an
+  immutable version with its author, change note, and the diff of SQL,
+  chart_hint and the other definition fields against the previous version.
+
+  - validated_queries.current_version: version currently served
+  - validated_results.query_version: version that produced a materialized result
+  - Existing queries get their current definition as version 1
+*/
+
+CREATE TABLE IF NOT EXISTS validated_query_versions (
+  id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+  qid VARCHAR(36) NOT NULL,
+  version INT NOT NULL,
+  name VARCHAR(64) NOT NULL,
+  scope ENUM('AM','AMM','ALL') NOT NULL,
+  sql_text LONGTEXT NOT NULL,
+  param_schema JSON DEFAULT NULL,
+  chart_hint VARCHAR(32) DEFAULT 'auto',
+  change_note TEXT DEFAULT NULL,
+  diff_json JSON DEFAULT NULL,                 -- Changes from the previous version, NULL for version 1
+  author VARCHAR(64) NOT NULL,                 -- User id of the editor (validated_by for backfilled rows)
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY uniq_validated_query_version (qid, version),
+  FOREIGN KEY (qid) REFERENCES validated_queries(id) ON DELETE CASCADE
+);
+
+ALTER TABLE validated_queries
+  ADD COLUMN current_version INT NOT NULL DEFAULT 1;
+
+ALTER TABLE validated_results
+  ADD COLUMN query_version INT DEFAULT NULL,
+  ADD INDEX idx_validated_results_version (qid, query_version);
+
+INSERT IGNORE INTO validated_query_versions (id, qid, version, name, scope, sql_text, param_schema, chart_hint, change_note, author, created_at)
+SELECT UUID(), id, 1, name, scope, sql_text, param_schema, chart_hint, 'Initial version', validated_by, COALESCE(validated_at, created_at)
+FROM validated_queries;
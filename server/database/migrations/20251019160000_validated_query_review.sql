@@ -0,0 +1,51 @@
+/*
+  # Validated Query Review
+
+  Versions of a validated query move through draft, in_review, approved
+  and deprecated. Only data_team users approve, after a successful test run,
+  and only the approved version is served to dashboards and QueryAnswerAgent.
+  validated_by now records the approver from their token.
+
+  - validated_query_versions.status and review columns
+  - validated_queries.approved_version: version currently served, NULL when none
+  - New data_team role with full row and table access
+  - Existing queries keep serving their current version as approved
+*/
+
+ALTER TABLE validated_query_versions
+  ADD COLUMN status ENUM('draft', 'in_review', 'approved', 'deprecated') NOT NULL DEFAULT 'draft',
+  ADD COLUMN submitted_by VARCHAR(64) DEFAULT NULL,
+  ADD COLUMN submitted_at TIMESTAMP NULL DEFAULT NULL,
+  ADD COLUMN reviewed_by VARCHAR(64) DEFAULT NULL,      -- Email of the data team member who approved, rejected or deprecated it
+  ADD COLUMN reviewed_at TIMESTAMP NULL DEFAULT NULL,
+  ADD COLUMN review_note TEXT DEFAULT NULL,
+  ADD COLUMN test_result_json JSON DEFAULT NULL,        -- Test run that allowed the approval
+  ADD INDEX idx_validated_query_versions_status (status);
+
+ALTER TABLE validated_queries
+  ADD COLUMN approved_version INT DEFAULT NULL,
+  MODIFY validated_by VARCHAR(64) DEFAULT NULL;
+
+UPDATE validated_query_versions v
+JOIN validated_queries q ON q.id = v.qid
+SET v.status = IF(v.version = q.current_version, 'approved', 'deprecated'),
+    v.reviewed_by = q.validated_by,
+    v.reviewed_at = q.validated_at
+WHERE q.active = TRUE;
+
+UPDATE validated_queries SET approved_version = current_version WHERE active = TRUE;
+
+ALTER TABLE users
+  MODIFY role ENUM('admin', 'leader', 'am', 'analyst', 'data_team') DEFAULT 'am';
+
+ALTER TABLE table_access
+  MODIFY role ENUM('admin', 'leader', 'am', 'analyst', 'data_team') NOT NULL;
+
+ALTER TABLE row_level_policies
+  MODIFY role ENUM('admin', 'leader', 'am', 'analyst', 'data_team') NOT NULL;
+
+INSERT IGNORE INTO table_access (id, role, table_pattern) VALUES
+(UUID(), 'data_team', '*');
+
+INSERT IGNORE INTO row_level_policies (id, name, role, bypass, table_pattern, column_name, identity_claim, filter_param) VALUES
+(UUID(), 'DATA_TEAM_ALL_ROWS', 'data_team', TRUE, NULL, NULL, 'email', NULL);
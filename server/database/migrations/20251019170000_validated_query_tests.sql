@@ -0,0 +1,63 @@
+/*
+  # Validated Query Regression Tests
+
+  Test cases attached to validated queries: a fixed filter set plus
+  assertions on the result (row count range, non-null columns, column
+  types, totals matching another query within a tolerance, unique keys).
+  Tests run on demand, before a version is approved, and on a schedule.
+  Every run is kept with the query version it ran against.
+
+  - The starter AM queries get tests for their grouping keys and totals
+*/
+
+CREATE TABLE IF NOT EXISTS validated_query_tests (
+  id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+  qid VARCHAR(36) NOT NULL,
+  name VARCHAR(128) NOT NULL,
+  filters_json JSON DEFAULT NULL,              -- Fixed filters the query runs with
+  assertions_json JSON NOT NULL,               -- List of assertions on the result rows
+  is_active BOOLEAN DEFAULT TRUE,
+  created_by VARCHAR(64) DEFAULT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  INDEX idx_validated_query_tests_qid (qid),
+  FOREIGN KEY (qid) REFERENCES validated_queries(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS validated_query_test_runs (
+  id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+  test_id VARCHAR(36) NOT NULL,
+  qid VARCHAR(36) NOT NULL,
+  query_version INT NOT NULL,
+  status ENUM('passed', 'failed', 'error') NOT NULL,
+  row_count INT DEFAULT NULL,
+  results_json JSON DEFAULT NULL,              -- Outcome of each assertion
+  error TEXT DEFAULT NULL,                     -- Set when the query itself failed
+  duration_ms INT DEFAULT NULL,
+  triggered_by VARCHAR(64) DEFAULT NULL,       -- User id, approval, or schedule
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_validated_query_test_runs_test (test_id, created_at),
+  INDEX idx_validated_query_test_runs_status (status, created_at),
+  FOREIGN KEY (test_id) REFERENCES validated_query_tests(id) ON DELETE CASCADE
+);
+
+INSERT INTO validated_query_tests (id, qid, name, filters_json, assertions_json, created_by)
+SELECT UUID(), id, 'One row per day and zone',
+  '{"start_date": "2024-01-01", "end_date": "2024-03-31"}',
+  '[{"type": "row_count", "min": 1}, {"type": "not_null", "columns": ["delivery_date", "zone"]}, {"type": "unique_key", "columns": ["delivery_date", "zone"]}, {"type": "column_type", "column": "daily_revenue", "expected": "number"}]',
+  'system'
+FROM validated_queries WHERE name = 'AM_REVENUE_ZONE_DAILY';
+
+INSERT INTO validated_query_tests (id, qid, name, filters_json, assertions_json, created_by)
+SELECT UUID(), id, 'One row per day and zone',
+  '{"start_date": "2024-01-01", "end_date": "2024-03-31"}',
+  '[{"type": "row_count", "min": 1}, {"type": "not_null", "columns": ["delivery_date", "zone"]}, {"type": "unique_key", "columns": ["delivery_date", "zone"]}, {"type": "column_type", "column": "delivery_count", "expected": "number"}]',
+  'system'
+FROM validated_queries WHERE name = 'AM_VOL_ZONE_DAILY';
+
+INSERT INTO validated_query_tests (id, qid, name, filters_json, assertions_json, created_by)
+SELECT UUID(), id, 'Monthly revenue matches the daily zone breakdown',
+  '{"start_date": "2024-01-01", "end_date": "2024-03-31"}',
+  '[{"type": "unique_key", "columns": ["month"]}, {"type": "total_matches", "column": "total_revenue", "query": "AM_REVENUE_ZONE_DAILY", "other_column": "daily_revenue", "tolerance": 0.001}]',
+  'system'
+FROM validated_queries WHERE name = 'AM_REVENUE_MONTHLY';
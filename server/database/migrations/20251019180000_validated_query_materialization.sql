@@ -0,0 +1,66 @@
+/*
+  # Validated Query Materialization Schedules
+
+  Result caches of validated queries are warmed on a cron schedule per query
+  instead of only when an admin triggers it. Each run refreshes the filter
+  combinations dashboards request most, so they open from a warm cache.
+
+  - validated_query_requests: how often each filter combination of a query is
+    requested, with dates kept relative to the request day
+  - validated_query_schedules: cron expression and number of combinations per query
+  - validated_query_materializations: status, duration and errors of every run
+  - The starter AM queries are warmed at 08:00 on weekdays
+*/
+
+CREATE TABLE IF NOT EXISTS validated_query_requests (
+  id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+  qid VARCHAR(36) NOT NULL,
+  filter_hash VARCHAR(32) NOT NULL,
+  filters_json JSON NOT NULL,                  -- Final filters, recent dates stored as {"$date": "today-30"}
+  request_count INT NOT NULL DEFAULT 0,
+  first_requested_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_requested_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY unique_validated_query_request (qid, filter_hash),
+  INDEX idx_validated_query_requests_recent (qid, last_requested_at),
+  FOREIGN KEY (qid) REFERENCES validated_queries(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS validated_query_schedules (
+  id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+  qid VARCHAR(36) NOT NULL,
+  cron_expression VARCHAR(64) NOT NULL,        -- minute hour day-of-month month day-of-week, server time
+  max_combinations INT NOT NULL DEFAULT 5,     -- Most requested filter combinations refreshed per run
+  is_active BOOLEAN DEFAULT TRUE,
+  next_run_at TIMESTAMP NULL DEFAULT NULL,
+  last_run_at TIMESTAMP NULL DEFAULT NULL,
+  created_by VARCHAR(64) DEFAULT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY unique_validated_query_schedule (qid),
+  INDEX idx_validated_query_schedules_due (is_active, next_run_at),
+  FOREIGN KEY (qid) REFERENCES validated_queries(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS validated_query_materializations (
+  id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+  qid VARCHAR(36) NOT NULL,
+  schedule_id VARCHAR(36) DEFAULT NULL,        -- NULL for runs triggered by hand
+  query_version INT DEFAULT NULL,
+  status ENUM('running', 'succeeded', 'partial', 'failed') NOT NULL DEFAULT 'running',
+  combinations INT NOT NULL DEFAULT 0,
+  failed_combinations INT NOT NULL DEFAULT 0,
+  results_json JSON DEFAULT NULL,              -- Filters, row count, duration and error of each combination
+  error TEXT DEFAULT NULL,
+  duration_ms INT DEFAULT NULL,
+  triggered_by VARCHAR(64) DEFAULT NULL,       -- User id or schedule
+  started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  finished_at TIMESTAMP NULL DEFAULT NULL,
+  INDEX idx_validated_query_materializations_qid (qid, started_at),
+  INDEX idx_validated_query_materializations_status (status, started_at),
+  FOREIGN KEY (qid) REFERENCES validated_queries(id) ON DELETE CASCADE
+);
+
+INSERT IGNORE INTO validated_query_schedules (id, qid, cron_expression, max_combinations, created_by)
+SELECT UUID(), id, '0 8 * * 1-5', 5, 'system'
+FROM validated_queries
+WHERE name IN ('AM_REVENUE_ZONE_DAILY', 'AM_VOL_ZONE_DAILY', 'AM_REVENUE_MONTHLY', 'AM_REVENUE_TYPE_DAILY');
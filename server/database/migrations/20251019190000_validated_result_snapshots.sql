@@ -0,0 +1,31 @@
+/*
+  # Validated Result Snapshots
+
+  Every stored run of a validated query becomes an addressable snapshot that
+  can be listed per filter set, read as of a point in time and diffed against
+  another run.
+
+  - validated_results.id: stable snapshot id for the API
+  - validated_results.filter_hash: key of the filter set, part of the primary key so
+    runs of different filter sets in the same second no longer overwrite each other
+
+  The app hashes the JSON of the filters with sorted keys, which MySQL cannot reproduce
+  from filter_json (it reorders keys and adds spaces). Existing rows are therefore left
+  unhashed: they get a 'legacy-' marker unique to the row instead, which no app hash
+  matches. Snapshots are looked up by filter_json, so they stay listed and readable.
+*/
+
+ALTER TABLE validated_results
+  ADD COLUMN id VARCHAR(36) DEFAULT NULL FIRST,
+  ADD COLUMN filter_hash CHAR(32) DEFAULT NULL AFTER run_stamp;
+
+UPDATE validated_results
+SET id = UUID(),
+    filter_hash = CONCAT('legacy-', LEFT(REPLACE(id, '-', ''), 25));
+
+ALTER TABLE validated_results
+  MODIFY id VARCHAR(36) NOT NULL,
+  MODIFY filter_hash CHAR(32) NOT NULL,
+  DROP PRIMARY KEY,
+  ADD PRIMARY KEY (qid, filter_hash, run_stamp),
+  ADD UNIQUE KEY unique_validated_results_id (id);
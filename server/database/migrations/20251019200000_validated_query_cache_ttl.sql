@@ -0,0 +1,13 @@
+/*
+  # Validated Query Cache Freshness
+
+  Cached results of a validated query are served fresh until the soft TTL.
+  Between the soft and the hard TTL they are served stale while a background
+  refresh recomputes them, and after the hard TTL requests wait for a fresh run.
+
+  - NULL uses the server defaults (VALIDATED_QUERY_SOFT_TTL_SECONDS, VALIDATED_QUERY_HARD_TTL_SECONDS)
+*/
+
+ALTER TABLE validated_queries
+  ADD COLUMN cache_soft_ttl_seconds INT DEFAULT NULL,
+  ADD COLUMN cache_hard_ttl_seconds INT DEFAULT NULL;
@@ -0,0 +1,35 @@
+/*
+  # Validated Query Embeddings
+
+  QueryAnswerAgent matches questions to validated queries by embedding similarity.
+  Each approved query is embedded from its name, description, SQL and result columns
+  and stored in validated_vectors.
+
+  - description: what the query answers, in business terms (not versioned, like the cache TTLs)
+  - model / dimensions: the embedding model the vector came from, vectors of other models are rebuilt
+  - query_version: the approved version that was embedded
+*/
+
+ALTER TABLE validated_queries
+  ADD COLUMN description TEXT DEFAULT NULL;
+
+ALTER TABLE validated_vectors
+  ADD COLUMN model VARCHAR(64) DEFAULT NULL,
+  ADD COLUMN dimensions INT DEFAULT NULL,
+  ADD COLUMN query_version INT DEFAULT NULL;
+
+UPDATE validated_queries
+SET description = 'Daily delivery volume per zone (region): number of deliveries and total COD amount by day and zone.'
+WHERE name = 'AM_VOL_ZONE_DAILY' AND description IS NULL;
+
+UPDATE validated_queries
+SET description = 'Monthly revenue from delivered orders: total revenue, delivery count and average order value per month.'
+WHERE name = 'AM_REVENUE_MONTHLY' AND description IS NULL;
+
+UPDATE validated_queries
+SET description = 'Daily revenue per zone (region) from delivered orders, with delivery count and average COD amount.'
+WHERE name = 'AM_REVENUE_ZONE_DAILY' AND description IS NULL;
+
+UPDATE validated_queries
+SET description = 'Daily revenue by merchant tier and business type: revenue, order count, average order value and revenue per merchant.'
+WHERE name = 'AM_REVENUE_TYPE_DAILY' AND description IS NULL;
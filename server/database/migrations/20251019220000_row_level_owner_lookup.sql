@@ -0,0 +1,26 @@
+/*
+  # Row-Level Owner Lookup
+
+  The deliveries view new_deliveries_dashboard_cdc has no account manager column, so a
+  policy can instead restrict a column to the keys of rows the caller owns in another
+  table of the application database:
+
+    column_name IN (SELECT owner_key_column FROM owner_table WHERE owner_claim_column = <claim>)
+
+  The keys are looked up when the policy is applied and injected as values, so the
+  protected table may live on another database.
+
+  Every role now needs a policy: a role without one has its agent queries refused, so
+  the analyst role is given an explicit bypass row like admin, leader and data_team.
+*/
+
+ALTER TABLE row_level_policies
+  ADD COLUMN owner_table VARCHAR(64) DEFAULT NULL,         -- Table holding the rows the caller owns
+  ADD COLUMN owner_key_column VARCHAR(64) DEFAULT NULL,    -- Its column whose values column_name must match
+  ADD COLUMN owner_claim_column VARCHAR(64) DEFAULT NULL;  -- Its column compared against the identity claim
+
+INSERT IGNORE INTO row_level_policies
+  (id, name, role, bypass, table_pattern, column_name, identity_claim, filter_param, owner_table, owner_key_column, owner_claim_column)
+VALUES
+(UUID(), 'ANALYST_ALL_ROWS', 'analyst', TRUE, NULL, NULL, 'email', NULL, NULL, NULL, NULL),
+(UUID(), 'AM_OWN_DELIVERIES', 'am', FALSE, 'new_deliveries_dashboard_cdc', 'sender_id', 'name', NULL, 'demo_merchants', 'id', 'account_manager');
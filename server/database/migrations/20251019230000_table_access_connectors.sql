@@ -0,0 +1,19 @@
+/*
+  # Table Access per Connector
+
+  Table access patterns now belong to one data source: connector_id NULL is the default
+  deliveries database, any other value a connector. A role may only bind a conversation
+  to a connector it has patterns for, so a grant on a table name no longer reaches a
+  table of the same name on another connector.
+
+  Admins keep access to existing connectors; new connectors grant admins "*" when created.
+*/
+
+ALTER TABLE table_access
+  ADD COLUMN connector_id VARCHAR(36) DEFAULT NULL,
+  DROP INDEX unique_role_table,
+  ADD UNIQUE KEY unique_role_connector_table (role, connector_id, table_pattern),
+  ADD INDEX idx_table_access_connector (connector_id);
+
+INSERT IGNORE INTO table_access (id, role, table_pattern, connector_id)
+SELECT UUID(), 'admin', '*', id FROM connectors;
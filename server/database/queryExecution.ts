@@ -0,0 +1,129 @@
+import mysql from 'mysql2/promise';
+import { logger } from '../utils/logger.js';
+
+// Thrown when a statement is stopped because it ran past its deadline
+export class QueryTimeoutError extends Error {
+  timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Query exceeded the ${Math.round(timeoutMs / 1000)}s execution limit and was stopped`);
+    this.name = 'QueryTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// Thrown when the request that started a statement was cancelled or abandoned
+export class QueryCancelledError extends Error {
+  constructor() {
+    super('Query was cancelled');
+    this.name = 'QueryCancelledError';
+  }
+}
+
+export interface QueryDeadline {
+  timeoutMs: number;
+  signal?: AbortSignal;
+}
+
+// The server-side limit should fire first, the client-side kill is a backstop
+const KILL_GRACE_MS = 1000;
+
+// MySQL: max_execution_time on a dedicated pool connection, with KILL QUERY on its thread
+// when the deadline passes or the request is cancelled.
+export async function executeMySQLWithDeadline(
+  pool: mysql.Pool,
+  sql: string,
+  params: any[] = [],
+  deadline: QueryDeadline
+): Promise<any[]> {
+  if (deadline.signal?.aborted) throw new QueryCancelledError();
+
+  const connection = await pool.getConnection();
+  let stoppedBy: 'timeout' | 'cancel' | null = null;
+
+  const kill = (reason: 'timeout' | 'cancel') => {
+    if (stoppedBy) return;
+    stoppedBy = reason;
+    logger.warn(`⏹️  Killing MySQL query on thread ${connection.threadId} (${reason})`);
+    pool.query('KILL QUERY ?', [connection.threadId]).catch(error => {
+      logger.warn(`Failed to kill MySQL thread ${connection.threadId}:`, error);
+    });
+  };
+  const onAbort = () => kill('cancel');
+  const timer = setTimeout(() => kill('timeout'), deadline.timeoutMs + KILL_GRACE_MS);
+  deadline.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    if (deadline.signal?.aborted) throw new QueryCancelledError();
+
+    // Servers without max_execution_time (e.g. MariaDB) still get the KILL QUERY backstop
+    await connection.query('SET SESSION max_execution_time = ?', [Math.floor(deadline.timeoutMs)])
+      .catch(error => logger.warn(`max_execution_time not applied: ${error.message}`));
+    const [rows] = await connection.execute(sql, params);
+    return Array.isArray(rows) ? rows as any[] : [];
+  } catch (error: any) {
+    if (stoppedBy === 'cancel') throw new QueryCancelledError();
+    // 3024: max_execution_time exceeded, 1317: interrupted by our KILL QUERY
+    if (stoppedBy === 'timeout' || error?.errno === 3024 || error?.errno === 1317) {
+      throw new QueryTimeoutError(deadline.timeoutMs);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    deadline.signal?.removeEventListener('abort', onAbort);
+    await connection.query('SET SESSION max_execution_time = 0').catch(() => undefined);
+    connection.release();
+  }
+}
+
+// Postgres and Redshift: statement_timeout on a dedicated pool client, with
+// pg_cancel_backend on its backend pid when the request is cancelled.
+export async function executePostgresWithDeadline(
+  pool: any,
+  sql: string,
+  params: any[] = [],
+  deadline: QueryDeadline
+): Promise<any[]> {
+  if (deadline.signal?.aborted) throw new QueryCancelledError();
+
+  const client = await pool.connect();
+  const pid = client.processID;
+  let stoppedBy: 'timeout' | 'cancel' | null = null;
+  let releaseError: Error | undefined;
+
+  const cancel = (reason: 'timeout' | 'cancel') => {
+    if (stoppedBy) return;
+    stoppedBy = reason;
+    logger.warn(`⏹️  Cancelling backend ${pid} (${reason})`);
+    pool.query('SELECT pg_cancel_backend($1)', [pid]).catch((error: unknown) => {
+      logger.warn(`Failed to cancel backend ${pid}:`, error);
+    });
+  };
+  const onAbort = () => cancel('cancel');
+  const timer = setTimeout(() => cancel('timeout'), deadline.timeoutMs + KILL_GRACE_MS);
+  deadline.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    if (deadline.signal?.aborted) throw new QueryCancelledError();
+
+    await client.query(`SET statement_timeout = ${Math.floor(deadline.timeoutMs)}`);
+    const result = await client.query(sql, params);
+    return result.rows || [];
+  } catch (error: any) {
+    if (stoppedBy === 'cancel') throw new QueryCancelledError();
+    // 57014 is query_canceled, raised for both statement_timeout and pg_cancel_backend
+    if (stoppedBy === 'timeout' || error?.code === '57014') {
+      throw new QueryTimeoutError(deadline.timeoutMs);
+    }
+    if (!error?.code) releaseError = error;
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    deadline.signal?.removeEventListener('abort', onAbort);
+    if (!releaseError) {
+      await client.query('RESET statement_timeout').catch((error: Error) => { releaseError = error; });
+    }
+    // A client with a broken connection is discarded instead of going back to the pool
+    client.release(releaseError);
+  }
+}
@@ -6,6 +6,7 @@ import cors from 'cors';
 import helmet from 'helmet';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
+import jwt from 'jsonwebtoken';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -15,6 +16,7 @@ import connectorRoutes from './routes/connectors.js';
 import agentRoutes from './routes/agents.js';
 import settingsRoutes from './routes/settings.js';
 import validatedQueriesRoutes from './routes/validatedQueries.js';
+import cacheRoutes from './routes/cache.js';
 import dashboardChatRoutes from './routes/dashboardChat.js';
 import dashboardChatRoutes from './routes/dashboardChat.js';
 import { initializeDatabase } from './database/init.js';
@@ -22,6 +24,11 @@ import { closeDatabase } from './database/init.js';
 import { authenticateToken } from './middleware/auth.js';
 import { logger } from './utils/logger.js';
 import { ValidatedQueriesService } from './services/validatedQueries.js';
+import { ValidatedQueryTests } from './services/ValidatedQueryTests.js';
+import { MaterializationScheduler } from './services/MaterializationScheduler.js';
+import { validatedQueryEvents } from './services/ValidatedQueryEvents.js';
+import { cacheStore } from './services/CacheStore.js';
+import { SchemaIntrospector } from './services/SchemaIntrospector.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -74,15 +81,21 @@ app.use('/api/connectors', authenticateToken, connectorRoutes);
 app.use('/api/agents', authenticateToken, agentRoutes);
 app.use('/api/settings', authenticateToken, settingsRoutes);
 app.use('/api/validated-queries', authenticateToken, validatedQueriesRoutes);
+app.use('/api/cache', authenticateToken, cacheRoutes);
 app.use('/api/dashboard-chat', authenticateToken, dashboardChatRoutes);
 app.use('/api/dashboard-chat', authenticateToken, dashboardChatRoutes);
 
 // Serve charts directory for all environments
 app.use('/charts', express.static(path.join(process.cwd(), 'public/charts')));
 
-// Health check
+// Health check. Without Redis the hub still serves requests, so it reports degraded, not down.
 app.get('/api/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  const cache = cacheStore.health();
+  res.json({
+    status: cache.backend === 'redis' ? 'ok' : 'degraded',
+    timestamp: new Date().toISOString(),
+    cache
+  });
 });
 
 // Debug route for deployment troubleshooting
@@ -168,14 +181,41 @@ const io = new Server(server, {
   },
 });
 
+// Refresh channels are "<query id>:<filter hash>"
+const REFRESH_CHANNEL_PATTERN = /^[\w-]+:[a-f0-9]{32}$/;
+
 // Socket.IO for real-time features
 io.on('connection', (socket) => {
+  // Subscriptions need a valid token; events only announce a refresh, the data is refetched through the API
+  let authenticated = false;
+  try {
+    jwt.verify(socket.handshake.auth?.token, process.env.JWT_SECRET || 'your-secret-key');
+    authenticated = true;
+  } catch {
+    authenticated = false;
+  }
+
+  // Dashboards follow the validated results they show
+  socket.on('validated_query:subscribe', (channel: unknown) => {
+    if (authenticated && typeof channel === 'string' && REFRESH_CHANNEL_PATTERN.test(channel)) {
+      socket.join(`validated_query:${channel}`);
+    }
+  });
+  socket.on('validated_query:unsubscribe', (channel: unknown) => {
+    if (typeof channel === 'string') {
+      socket.leave(`validated_query:${channel}`);
+    }
+  });
   
   socket.on('disconnect', () => {
     logger.info('Client disconnected:', socket.id);
   });
 });
 
+validatedQueryEvents.onRefreshed((event) => {
+  io.to(`validated_query:${event.channel}`).emit('validated_query:refreshed', event);
+});
+
 // Error logging middleware (after routes, before error handlers)
 app.use(logger.getExpressWinstonErrorMiddleware());
 
@@ -218,6 +258,49 @@ async function startServer() {
         logger.warn('Scheduled filter cache refresh failed:', error);
       }
     }, FILTER_CACHE_REFRESH_INTERVAL);
+
+    // Re-crawl connector schemas daily (SCHEMA_REFRESH_INTERVAL_HOURS overrides)
+    const SCHEMA_REFRESH_INTERVAL = (parseFloat(process.env.SCHEMA_REFRESH_INTERVAL_HOURS || '') || 24) * 60 * 60 * 1000;
+    const schemaIntrospector = new SchemaIntrospector();
+    setInterval(async () => {
+      try {
+        logger.info('Starting scheduled connector schema refresh...');
+        const { refreshed, failed } = await schemaIntrospector.refreshAllSchemas();
+        logger.info(`Scheduled connector schema refresh completed: ${refreshed} refreshed, ${failed} failed`);
+      } catch (error) {
+        logger.warn('Scheduled connector schema refresh failed:', error);
+      }
+    }, SCHEMA_REFRESH_INTERVAL);
+
+    // Run validated query regression tests daily (VALIDATED_QUERY_TEST_INTERVAL_HOURS overrides)
+    const QUERY_TEST_INTERVAL = (parseFloat(process.env.VALIDATED_QUERY_TEST_INTERVAL_HOURS || '') || 24) * 60 * 60 * 1000;
+    const queryTests = new ValidatedQueryTests(validatedQueriesService);
+    setInterval(async () => {
+      try {
+        logger.info('Starting scheduled validated query tests...');
+        const { passed, failed } = await queryTests.runAll('schedule');
+        if (failed.length > 0) {
+          logger.warn(`Scheduled validated query tests: ${failed.length} failing (${failed.map(result => result.test_name).join(', ')}), ${passed} passed`);
+        } else {
+          logger.info(`Scheduled validated query tests completed: ${passed} passed`);
+        }
+      } catch (error) {
+        logger.warn('Scheduled validated query tests failed:', error);
+      }
+    }, QUERY_TEST_INTERVAL);
+
+    // Check materialization schedules every minute; due runs warm the validated query caches
+    const materializationScheduler = new MaterializationScheduler(validatedQueriesService);
+    setInterval(async () => {
+      try {
+        const started = await materializationScheduler.tick();
+        if (started > 0) {
+          logger.info(`Started ${started} scheduled materialization runs`);
+        }
+      } catch (error) {
+        logger.warn('Materialization schedule check failed:', error);
+      }
+    }, 60 * 1000);
     
     server.listen(PORT, () => {
       logger.info(`Server running on port ${PORT}`);
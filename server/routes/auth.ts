@@ -77,6 +77,7 @@ router.post('/dev-login', async (req, res) => {
       {
         userId: user.id,
         email: user.email,
+        name: user.name,
         role: user.role,
         orgUnit: user.org_unit || 'ENGINEERING_DEVELOPER'
       },
@@ -143,6 +144,7 @@ router.get('/google/callback', async (req, res) => {
       {
         userId: userInfo.googleId,
         email: userInfo.email,
+        name: userInfo.name,
         role: userInfo.role,
         orgUnit: userInfo.orgUnit
       },
@@ -183,6 +185,7 @@ router.post('/google/callback', async (req, res) => {
       {
         userId: userInfo.googleId,
         email: userInfo.email,
+        name: userInfo.name,
         role: userInfo.role,
         orgUnit: userInfo.orgUnit
       },
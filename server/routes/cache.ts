@@ -0,0 +1,82 @@
+import express from 'express';
+import { getDatabase } from '../database/init.js';
+import { requireRole } from '../middleware/auth.js';
+import { cacheStore } from '../services/CacheStore.js';
+import { DATA_TEAM_ROLES } from '../services/validatedQueries.js';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger.js';
+
+const router = express.Router();
+
+router.use(requireRole([...DATA_TEAM_ROLES, 'admin']));
+
+// Number of cache keys registered under a tag, e.g. table:deliveries or query:<qid>
+router.get('/tags/:tag', async (req, res) => {
+  try {
+    const { tag } = req.params;
+    res.json({ tag, keys: await cacheStore.tagSize(tag) });
+  } catch (error) {
+    logger.error('Get cache tag error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Drop the cache entries carrying all of the given tags
+router.post('/invalidate', async (req, res) => {
+  try {
+    const { tags } = req.body;
+    const userId = (req as any).user.userId;
+
+    if (!isStringList(tags)) {
+      return res.status(400).json({ error: 'Invalid tags', details: ['tags must be a non-empty list of strings'] });
+    }
+
+    const invalidated = await cacheStore.invalidate(tags);
+    await logCacheAction(userId, 'invalidate_cache_tags', { tags, invalidated });
+
+    res.json({ invalidated });
+  } catch (error) {
+    logger.error('Invalidate cache tags error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Data refresh event: tables were reloaded (e.g. by ETL), so results computed from them are
+// dropped. With connector_id only entries computed on that connector are affected.
+router.post('/data-refreshed', async (req, res) => {
+  try {
+    const { tables, connector_id } = req.body;
+    const userId = (req as any).user.userId;
+
+    const issues: string[] = [];
+    if (!isStringList(tables)) issues.push('tables must be a non-empty list of table names');
+    if (connector_id !== undefined && (typeof connector_id !== 'string' || !connector_id)) {
+      issues.push('connector_id must be a connector id');
+    }
+    if (issues.length > 0) {
+      return res.status(400).json({ error: 'Invalid data refresh event', details: issues });
+    }
+
+    const invalidated = await cacheStore.invalidateTables(tables, connector_id);
+    await logCacheAction(userId, 'data_refreshed', { tables, connector_id: connector_id || null, invalidated });
+
+    res.json({ invalidated });
+  } catch (error) {
+    logger.error('Data refresh invalidation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string' && item.trim() !== '');
+}
+
+async function logCacheAction(userId: string, action: string, details: Record<string, unknown>): Promise<void> {
+  const db = getDatabase();
+  await db.execute(
+    'INSERT INTO audit_logs (id, user_id, action, resource_type, resource_id, details) VALUES (?, ?, ?, ?, ?, ?)',
+    [uuidv4(), userId, action, 'cache', null, JSON.stringify(details)]
+  );
+}
+
+export default router;
@@ -1,14 +1,19 @@
 import express from 'express';
 import { getDatabase } from '../database/init.js';
 import { SupervisorAgent } from '../agents/SupervisorAgent.js';
+import { ConnectorService } from '../services/ConnectorService.js';
+import { trackRequest, cancelRequest } from '../services/QueryCancellation.js';
+import { FilterValidationError } from '../services/PlaceholderBinder.js';
+import { TableAccessPolicy } from '../services/TableAccessPolicy.js';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger.js';
 
 const router = express.Router();
+const tableAccessPolicy = new TableAccessPolicy();
 
 router.post('/', async (req, res) => {
   try {
-    const { message, conversationId } = req.body;
+    const { message, conversationId, connectorId, requestId } = req.body;
     const userId = (req as any).user.userId;
     const userRole = (req as any).user.role;
 
@@ -18,31 +23,55 @@ router.post('/', async (req, res) => {
 
     const db = getDatabase();
     
+    // connectorId undefined keeps the conversation's data source, null resets it to the default
+    const connectorService = new ConnectorService();
+    if (connectorId) {
+      const selected = await connectorService.getConnector(connectorId);
+      if (!selected) {
+        return res.status(400).json({ error: 'Selected connector does not exist' });
+      }
+      if (!(await tableAccessPolicy.canUseConnector(userRole, connectorId))) {
+        return res.status(403).json({ error: `Your role (${userRole}) has no table access on ${selected.name}` });
+      }
+    }
+
     // Ensure conversation exists
     let convId = conversationId;
+    let storedConnectorId: string | null = null;
     if (!convId) {
       // No conversation ID provided, create a new one
       convId = uuidv4();
       await db.execute(
-        'INSERT INTO conversations (id, user_id, title) VALUES (?, ?, ?)',
-        [convId, userId, 'New Conversation']
+        'INSERT INTO conversations (id, user_id, title, connector_id) VALUES (?, ?, ?, ?)',
+        [convId, userId, 'New Conversation', connectorId || null]
       );
     } else {
       // Check if the provided conversation ID exists and belongs to the user
       const [existingConv] = await db.execute(
-        'SELECT id FROM conversations WHERE id = ? AND user_id = ?',
+        'SELECT id, connector_id FROM conversations WHERE id = ? AND user_id = ?',
         [convId, userId]
       );
       
       if (!(existingConv as any[]).length) {
         // Conversation doesn't exist, create it
         await db.execute(
-          'INSERT INTO conversations (id, user_id, title) VALUES (?, ?, ?)',
-          [convId, userId, 'New Conversation']
+          'INSERT INTO conversations (id, user_id, title, connector_id) VALUES (?, ?, ?, ?)',
+          [convId, userId, 'New Conversation', connectorId || null]
         );
+      } else {
+        storedConnectorId = (existingConv as any[])[0].connector_id;
+        if (connectorId !== undefined && (connectorId || null) !== storedConnectorId) {
+          await db.execute(
+            'UPDATE conversations SET connector_id = ? WHERE id = ?',
+            [connectorId || null, convId]
+          );
+        }
       }
     }
 
+    const activeConnectorId = connectorId !== undefined ? connectorId || null : storedConnectorId;
+    const connector = activeConnectorId ? await connectorService.getConnector(activeConnectorId) : null;
+
     // Save user message
     const userMessageId = uuidv4();
     await db.execute(
@@ -80,15 +109,27 @@ router.post('/', async (req, res) => {
         };
       });
 
+    // Queries started for this message are stopped if the user cancels or disconnects
+    const signal = trackRequest(req, res, requestId, userId);
+
     // Process with supervisor agent
     const supervisor = new SupervisorAgent();
     const response = await supervisor.processMessage(message, {
       userId,
       userRole,
+      email: (req as any).user.email,
+      name: (req as any).user.name,
       conversationId: convId,
       conversationHistory,
+      connector,
+      signal,
     });
 
+    if (signal.aborted) {
+      logger.info(`⏹️  Chat request ${requestId || ''} cancelled - response discarded`);
+      return res.status(499).json({ error: 'Request cancelled', cancelled: true });
+    }
+
     // Save assistant response
     const assistantMessageId = uuidv4();
     await db.execute(
@@ -97,6 +138,9 @@ router.post('/', async (req, res) => {
         sql: response.sql,
         chart: response.chart,
         agentUsed: response.agentUsed,
+        connectorId: connector?.id,
+        queryAttempts: response.queryAttempts,
+        verification: response.verification,
       })]
     );
 
@@ -108,10 +152,13 @@ router.post('/', async (req, res) => {
         agent: response.agentUsed,
         hasSQL: !!response.sql,
         hasChart: !!response.chart,
+        connectorId: connector?.id,
+        sqlRepairs: response.queryAttempts ? response.queryAttempts.length - 1 : 0,
+        verification: response.verification?.status,
       })]
     );
 
-    res.json(response);
+    res.json({ ...response, connectorId: connector?.id || null });
   } catch (error) {
     logger.error('Chat error:', error);
     res.status(500).json({ 
@@ -121,6 +168,24 @@ router.post('/', async (req, res) => {
   }
 });
 
+// Stop the queries of an in-flight chat request, e.g. when the user gives up waiting
+router.post('/cancel/:requestId', async (req, res) => {
+  try {
+    const { requestId } = req.params;
+    const user = (req as any).user;
+
+    const cancelled = cancelRequest(requestId, user.userId, user.role === 'admin');
+    if (!cancelled) {
+      return res.status(404).json({ error: 'No running request with this ID' });
+    }
+
+    res.json({ success: true, requestId });
+  } catch (error) {
+    logger.error('Cancel chat request error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 router.get('/history/:conversationId', async (req, res) => {
   try {
     const { conversationId } = req.params;
@@ -168,20 +233,38 @@ router.get('/history/:conversationId', async (req, res) => {
 
 router.post('/validated-answer', async (req, res) => {
   try {
-    const { question, scope } = req.body;
+    // qid and filters come from editing the filter chips of an earlier answer
+    const { question, scope, requestId, qid, filters } = req.body;
     const userRole = (req as any).user?.role;
     const userId = (req as any).user?.userId;
 
     if (!question || !question.trim()) {
       return res.status(400).json({ error: 'Question is required' });
     }
+    if (filters !== undefined && (!filters || typeof filters !== 'object' || Array.isArray(filters) || !qid)) {
+      return res.status(400).json({
+        error: 'Invalid filters',
+        details: [{ param: 'filters', message: 'must be an object and come with the qid they apply to' }]
+      });
+    }
 
     // Import QueryAnswerAgent
     const { QueryAnswerAgent } = await import('../agents/QueryAnswerAgent.js');
     const queryAnswerAgent = new QueryAnswerAgent();
 
     // Process the question with the QueryAnswerAgent
-    const response = await queryAnswerAgent.answerQuestion(question, scope || userRole?.toUpperCase());
+    const signal = trackRequest(req, res, requestId, userId);
+    const response = await queryAnswerAgent.answerQuestion(
+      question,
+      scope || userRole?.toUpperCase(),
+      (req as any).user,
+      signal,
+      { qid, filters }
+    );
+
+    if (signal.aborted) {
+      return res.status(499).json({ error: 'Request cancelled', cancelled: true });
+    }
 
     // Log the interaction
     if (userId) {
@@ -191,13 +274,21 @@ router.post('/validated-answer', async (req, res) => {
         [uuidv4(), userId, 'validated_question', 'query_answer', 'validated', JSON.stringify({
           question,
           scope: scope || userRole?.toUpperCase(),
-          confidence: response.confidence || 0
+          confidence: response.confidence || 0,
+          qid: response.qid || null,
+          query_version: response.provenance?.version ?? null,
+          run_stamp: response.provenance?.run_stamp ?? null,
+          filters: response.provenance?.filters ?? null,
+          verification: response.verification?.status ?? null
         })]
       );
     }
 
     res.json(response);
   } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return res.status(400).json({ error: 'Invalid filters', details: error.issues });
+    }
     logger.error('Validated answer error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
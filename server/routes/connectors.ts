@@ -1,6 +1,11 @@
 import express from 'express';
 import { getDatabase } from '../database/init.js';
 import { ConnectorService } from '../services/ConnectorService.js';
+import { SchemaIntrospector } from '../services/SchemaIntrospector.js';
+import { closeConnectorPool } from '../database/connectorPools.js';
+import { cacheStore } from '../services/CacheStore.js';
+import { cacheTag } from '../services/CacheTags.js';
+import { requireRole } from '../middleware/auth.js';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger.js';
 
@@ -35,6 +40,11 @@ router.post('/', async (req, res) => {
       'INSERT INTO connectors (id, name, kind, conn_uri, schema_json) VALUES (?, ?, ?, ?, ?)',
       [connectorId, name, kind, conn_uri, schema_json || null]
     );
+    // Other roles are granted tables on the connector in Settings
+    await db.execute(
+      'INSERT INTO table_access (id, role, table_pattern, connector_id) VALUES (?, ?, ?, ?)',
+      [uuidv4(), 'admin', '*', connectorId]
+    );
 
     // Log the action
     await db.execute(
@@ -64,6 +74,10 @@ router.put('/:id', async (req, res) => {
       [name, kind, conn_uri, schema_json || null, id]
     );
 
+    // Drop the cached pool and results so the next query uses the new connection settings
+    await closeConnectorPool(id);
+    await cacheStore.invalidate([cacheTag.connector(id)]);
+
     // Log the action
     await db.execute(
       'INSERT INTO audit_logs (id, user_id, action, resource_type, resource_id, details) VALUES (?, ?, ?, ?, ?, ?)',
@@ -87,6 +101,10 @@ router.delete('/:id', async (req, res) => {
     const db = getDatabase();
     
     await db.execute('DELETE FROM connectors WHERE id = ?', [id]);
+    await db.execute('UPDATE conversations SET connector_id = NULL WHERE connector_id = ?', [id]);
+    await db.execute('DELETE FROM table_access WHERE connector_id = ?', [id]);
+    await closeConnectorPool(id);
+    await cacheStore.invalidate([cacheTag.connector(id)]);
 
     // Log the action
     await db.execute(
@@ -127,4 +145,65 @@ router.post('/:id/test', async (req, res) => {
   }
 });
 
+// Crawl the connector's schema now and store it in schema_json
+router.post('/:id/introspect', requireRole(['admin']), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = (req as any).user.userId;
+
+    const db = getDatabase();
+    const [rows] = await db.execute('SELECT id FROM connectors WHERE id = ?', [id]);
+    if (!(rows as any[]).length) {
+      return res.status(404).json({ error: 'Connector not found' });
+    }
+
+    const introspector = new SchemaIntrospector();
+    let result;
+    try {
+      result = await introspector.refreshConnectorSchema(id, userId);
+    } catch (error) {
+      return res.status(502).json({
+        error: 'Schema introspection failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    await db.execute(
+      'INSERT INTO audit_logs (id, user_id, action, resource_type, resource_id, details) VALUES (?, ?, ?, ?, ?, ?)',
+      [uuidv4(), userId, 'introspect_connector', 'connector', id, JSON.stringify({
+        tables: result.schema.tables.length,
+        changed: result.changed,
+      })]
+    );
+
+    res.json({
+      tables: result.schema.tables.length,
+      introspectedAt: result.schema.introspectedAt,
+      changed: result.changed,
+      diff: result.diff,
+    });
+  } catch (error) {
+    logger.error('Introspect connector error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Schema changes recorded by previous crawls, newest first
+router.get('/:id/schema-history', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const introspector = new SchemaIntrospector();
+    const history = await introspector.getHistory(id, limit);
+    res.json(history.map(entry => ({
+      ...entry,
+      diff_json: typeof entry.diff_json === 'string' ? JSON.parse(entry.diff_json) : entry.diff_json,
+    })));
+  } catch (error) {
+    logger.error('Get schema history error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -2,6 +2,8 @@ import express from 'express';
 import { getDatabase } from '../database/init.js';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger.js';
+import { DEFAULT_QUERY_COST_LIMITS } from '../services/QueryCostGuard.js';
+import { requireRole } from '../middleware/auth.js';
 
 const router = express.Router();
 
@@ -18,15 +20,19 @@ router.get('/', async (req, res) => {
       settings[row.setting_key] = JSON.parse(row.setting_value);
     });
 
-    // Get table access patterns
-    const [accessRows] = await db.execute('SELECT role, table_pattern FROM table_access ORDER BY role, table_pattern');
+    // Get table access patterns: the deliveries database's by role, connectors' by connector and role
+    const [accessRows] = await db.execute('SELECT role, table_pattern, connector_id FROM table_access ORDER BY role, table_pattern');
     const tableAccess: Record<string, string[]> = {};
+    const connectorTableAccess: Record<string, Record<string, string[]>> = {};
     
     (accessRows as any[]).forEach(row => {
-      if (!tableAccess[row.role]) {
-        tableAccess[row.role] = [];
+      const byRole = row.connector_id
+        ? (connectorTableAccess[row.connector_id] = connectorTableAccess[row.connector_id] || {})
+        : tableAccess;
+      if (!byRole[row.role]) {
+        byRole[row.role] = [];
       }
-      tableAccess[row.role].push(row.table_pattern);
+      byRole[row.role].push(row.table_pattern);
     });
 
     res.json({
@@ -38,6 +44,8 @@ router.get('/', async (req, res) => {
         templates_enabled: false,
       },
       table_access: tableAccess,
+      connector_table_access: connectorTableAccess,
+      query_cost_limits: settings.query_cost_limits || DEFAULT_QUERY_COST_LIMITS,
     });
   } catch (error) {
     logger.error('Get settings error:', error);
@@ -45,12 +53,23 @@ router.get('/', async (req, res) => {
   }
 });
 
-// Update settings
-router.put('/', async (req, res) => {
+// Update settings; table access and query cost limits are enforced on every user, so admins only
+router.put('/', requireRole(['admin']), async (req, res) => {
   try {
-    const { pii_columns, cache_ttl, feature_flags, table_access } = req.body;
+    const { pii_columns, cache_ttl, feature_flags, table_access, connector_table_access, query_cost_limits } = req.body;
     const userId = (req as any).user.userId;
 
+    // Each role needs non-negative whole-number thresholds (0 disables a check)
+    if (query_cost_limits !== undefined) {
+      const invalid = Object.entries(query_cost_limits || {}).find(([, limit]: [string, any]) =>
+        !limit || !Number.isInteger(limit.max_rows_scanned) || !Number.isInteger(limit.max_full_scan_rows) ||
+        limit.max_rows_scanned < 0 || limit.max_full_scan_rows < 0
+      );
+      if (invalid) {
+        return res.status(400).json({ error: `Invalid query cost limits for role ${invalid[0]}` });
+      }
+    }
+
     const db = getDatabase();
 
     // Update settings
@@ -75,10 +94,17 @@ router.put('/', async (req, res) => {
       );
     }
 
+    if (query_cost_limits !== undefined) {
+      await db.execute(
+        'INSERT INTO settings (id, setting_key, setting_value) VALUES (?, ?, ?) ON DUPLICATE KEY UPDATE setting_value = ?',
+        [uuidv4(), 'query_cost_limits', JSON.stringify(query_cost_limits), JSON.stringify(query_cost_limits)]
+      );
+    }
+
     // Update table access
     if (table_access !== undefined) {
       // Clear existing access patterns
-      await db.execute('DELETE FROM table_access');
+      await db.execute('DELETE FROM table_access WHERE connector_id IS NULL');
       
       // Insert new patterns
       for (const [role, patterns] of Object.entries(table_access)) {
@@ -91,6 +117,21 @@ router.put('/', async (req, res) => {
       }
     }
 
+    // Connector patterns are replaced per connector listed
+    if (connector_table_access !== undefined) {
+      for (const [connectorId, byRole] of Object.entries(connector_table_access || {})) {
+        await db.execute('DELETE FROM table_access WHERE connector_id = ?', [connectorId]);
+        for (const [role, patterns] of Object.entries(byRole as Record<string, string[]>)) {
+          for (const pattern of patterns) {
+            await db.execute(
+              'INSERT INTO table_access (id, role, table_pattern, connector_id) VALUES (?, ?, ?, ?)',
+              [uuidv4(), role, pattern, connectorId]
+            );
+          }
+        }
+      }
+    }
+
     // Log the action
     await db.execute(
       'INSERT INTO audit_logs (id, user_id, action, resource_type, resource_id, details) VALUES (?, ?, ?, ?, ?, ?)',
@@ -98,7 +139,8 @@ router.put('/', async (req, res) => {
         updatedPII: pii_columns !== undefined,
         updatedCache: cache_ttl !== undefined,
         updatedFlags: feature_flags !== undefined,
-        updatedAccess: table_access !== undefined,
+        updatedAccess: table_access !== undefined || connector_table_access !== undefined,
+        updatedCostLimits: query_cost_limits !== undefined,
       })]
     );
 
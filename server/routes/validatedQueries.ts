@@ -1,17 +1,44 @@
 import express from 'express';
-import { ValidatedQueriesService } from '../services/validatedQueries.js';
+import { ValidatedQueriesService, ValidatedQuery, FilterParams, DATA_TEAM_ROLES } from '../services/validatedQueries.js';
+import { VersionStatusError } from '../services/ValidatedQueryVersions.js';
+import { ValidatedQueryTests } from '../services/ValidatedQueryTests.js';
+import {
+  MaterializationScheduler,
+  MaterializationInProgressError,
+  MaterializationStatus
+} from '../services/MaterializationScheduler.js';
+import { requireRole } from '../middleware/auth.js';
+import { QueryRejectedError } from '../services/SQLGuard.js';
+import { QueryCancelledError, QueryTimeoutError } from '../database/queryExecution.js';
+import { trackRequest } from '../services/QueryCancellation.js';
+import { FilterValidationError } from '../services/PlaceholderBinder.js';
+import { QueryParameterSchema } from '../services/QueryParameterSchema.js';
 import { v4 as uuidv4 } from 'uuid';
 import { getDatabase } from '../database/init.js';
 import { logger } from '../utils/logger.js';
 
 const router = express.Router();
 const validatedQueriesService = new ValidatedQueriesService();
+const parameterSchema = new QueryParameterSchema();
+const queryTests = new ValidatedQueryTests(validatedQueriesService);
+const materializationScheduler = new MaterializationScheduler(validatedQueriesService);
 
-// Get all validated queries
+// validated_by is set by approval, never by the editor
+const EDITABLE_FIELDS = [
+  'name', 'scope', 'sql_text', 'param_schema', 'chart_hint', 'description', 'active',
+  'cache_soft_ttl_seconds', 'cache_hard_ttl_seconds'
+];
+// Applied to the live query without a new version (status, caching, the description matched
+// against questions), so only the data team changes them; other edits create drafts
+const DATA_TEAM_FIELDS = ['active', 'description', 'cache_soft_ttl_seconds', 'cache_hard_ttl_seconds'];
+
+// Get all validated queries: approved versions only, or every working copy with ?include=all
 router.get('/', async (req, res) => {
   try {
-    const { scope } = req.query;
-    const queries = await validatedQueriesService.getValidatedQueries(scope as string);
+    const { scope, include } = req.query;
+    const queries = include === 'all'
+      ? await validatedQueriesService.getAllValidatedQueries(scope as string)
+      : await validatedQueriesService.getValidatedQueries(scope as string);
     res.json(queries);
   } catch (error) {
     logger.error('Get validated queries error:', error);
@@ -39,26 +66,34 @@ router.get('/:id', async (req, res) => {
 // Create new validated query
 router.post('/', async (req, res) => {
   try {
-    const { name, scope, sql_text, chart_hint, validated_by } = req.body;
+    const { name, scope, sql_text, param_schema, chart_hint, change_note } = req.body;
     const userId = (req as any).user?.userId;
 
-    if (!name || !scope || !sql_text || !validated_by) {
+    if (!name || !scope || !sql_text) {
       return res.status(400).json({ 
-        error: 'Name, scope, SQL text, and validated_by are required' 
+        error: 'Name, scope, and SQL text are required' 
       });
     }
 
+    if (param_schema) {
+      const issues = parameterSchema.check(param_schema, sql_text);
+      if (issues.length > 0) {
+        return res.status(400).json({ error: 'Invalid param_schema', details: issues });
+      }
+    }
+
     const queryData = {
       name,
       scope,
       sql_text,
+      param_schema: param_schema || null,
       chart_hint: chart_hint || 'auto',
-      validated_by,
+      validated_by: null,
       validated_at: new Date(),
       active: true
     };
 
-    const queryId = await validatedQueriesService.createValidatedQuery(queryData);
+    const queryId = await validatedQueriesService.createValidatedQuery(queryData, userId, change_note);
 
     // Log the action for audit
     if (userId) {
@@ -81,23 +116,57 @@ router.post('/', async (req, res) => {
 router.put('/:id', async (req, res) => {
   try {
     const { id } = req.params;
-    const updateData = req.body;
+    const { change_note, ...fields } = req.body;
     const userId = (req as any).user?.userId;
 
+    // Only definition and status columns can be edited; version bookkeeping stays server-side
+    const updateData = Object.fromEntries(
+      Object.entries(fields).filter(([key]) => EDITABLE_FIELDS.includes(key))
+    ) as Partial<ValidatedQuery>;
+    if (Object.keys(updateData).length === 0) {
+      return res.status(400).json({ error: `Nothing to update, editable fields are ${EDITABLE_FIELDS.join(', ')}` });
+    }
+    if (Object.keys(updateData).some(key => DATA_TEAM_FIELDS.includes(key)) &&
+        ![...DATA_TEAM_ROLES, 'admin'].includes((req as any).user?.role)) {
+      return res.status(403).json({ error: `Only the data team can change ${DATA_TEAM_FIELDS.join(', ')}` });
+    }
+
     // First get the query to get the actual UUID if a name was provided
     const existingQuery = await validatedQueriesService.getValidatedQueryByIdOrName(id);
     if (!existingQuery) {
       return res.status(404).json({ error: 'Validated query not found' });
     }
 
-    await validatedQueriesService.updateValidatedQuery(existingQuery.id, updateData);
+    const ttlIssues = checkCacheTtls(updateData, existingQuery);
+    if (ttlIssues.length > 0) {
+      return res.status(400).json({ error: 'Invalid cache TTLs', details: ttlIssues });
+    }
+
+    // The schema must still describe the SQL when either of them changes
+    if (updateData.param_schema !== undefined || updateData.sql_text !== undefined) {
+      const schema = updateData.param_schema !== undefined
+        ? updateData.param_schema
+        : parameterSchema.parse(existingQuery.param_schema);
+      if (schema) {
+        const issues = parameterSchema.check(schema, updateData.sql_text ?? existingQuery.sql_text);
+        if (issues.length > 0) {
+          return res.status(400).json({ error: 'Invalid param_schema', details: issues });
+        }
+      }
+    }
+
+    const version = await validatedQueriesService.updateValidatedQuery(existingQuery.id, updateData, userId, change_note);
 
     // Log the action for audit
     if (userId) {
       const db = getDatabase();
       await db.execute(
         'INSERT INTO audit_logs (id, user_id, action, resource_type, resource_id, details) VALUES (?, ?, ?, ?, ?, ?)',
-        [uuidv4(), userId, 'update_validated_query', 'validated_query', existingQuery.id, JSON.stringify(updateData)]
+        [uuidv4(), userId, 'update_validated_query', 'validated_query', existingQuery.id, JSON.stringify({
+          ...updateData,
+          version: version?.version,
+          change_note
+        })]
       );
     }
 
@@ -109,19 +178,457 @@ router.put('/:id', async (req, res) => {
   }
 });
 
+// Version history of a validated query, newest first
+router.get('/:id/versions', async (req, res) => {
+  try {
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    if (!query) {
+      return res.status(404).json({ error: 'Validated query not found' });
+    }
+
+    const versions = await validatedQueriesService.getVersionHistory(query.id);
+    res.json({ current_version: query.current_version, versions });
+  } catch (error) {
+    logger.error('Get validated query versions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Diff between two versions: ?from=1&to=3
+router.get('/:id/versions/compare', async (req, res) => {
+  try {
+    const from = parseInt(req.query.from as string);
+    const to = parseInt(req.query.to as string);
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      return res.status(400).json({ error: 'from and to version numbers are required' });
+    }
+
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    if (!query) {
+      return res.status(404).json({ error: 'Validated query not found' });
+    }
+
+    const comparison = await validatedQueriesService.compareVersions(query.id, from, to);
+    if (!comparison) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+    res.json(comparison);
+  } catch (error) {
+    logger.error('Compare validated query versions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// A single version with its full definition
+router.get('/:id/versions/:version', async (req, res) => {
+  try {
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    if (!query) {
+      return res.status(404).json({ error: 'Validated query not found' });
+    }
+
+    const version = await validatedQueriesService.getVersion(query.id, parseInt(req.params.version));
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+    res.json(version);
+  } catch (error) {
+    logger.error('Get validated query version error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Restore an earlier version; recorded as a new draft version that goes through review
+router.post('/:id/rollback', async (req, res) => {
+  try {
+    const { version, change_note } = req.body;
+    const userId = (req as any).user?.userId;
+
+    if (!Number.isInteger(version)) {
+      return res.status(400).json({ error: 'version is required' });
+    }
+
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    if (!query) {
+      return res.status(404).json({ error: 'Validated query not found' });
+    }
+
+    const target = await validatedQueriesService.getVersion(query.id, version);
+    if (!target) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    const created = await validatedQueriesService.rollbackValidatedQuery(query.id, version, userId, change_note);
+
+    if (userId) {
+      const db = getDatabase();
+      await db.execute(
+        'INSERT INTO audit_logs (id, user_id, action, resource_type, resource_id, details) VALUES (?, ?, ?, ?, ?, ?)',
+        [uuidv4(), userId, 'rollback_validated_query', 'validated_query', query.id, JSON.stringify({
+          from_version: query.current_version,
+          restored_version: version,
+          new_version: created?.version ?? null,
+          change_note
+        })]
+      );
+    }
+
+    const updatedQuery = await validatedQueriesService.getValidatedQuery(query.id);
+    res.json({ query: updatedQuery, version: created });
+  } catch (error) {
+    logger.error('Rollback validated query error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Send a draft version to the data team for review
+router.post('/:id/versions/:version/submit', async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    if (!query) {
+      return res.status(404).json({ error: 'Validated query not found' });
+    }
+
+    const version = await validatedQueriesService.submitVersion(query.id, parseInt(req.params.version), user.userId);
+    await logQueryAction(user.userId, 'submit_validated_query', query.id, { version: version.version });
+    res.json(version);
+  } catch (error) {
+    if (error instanceof VersionStatusError) {
+      return res.status(409).json({ error: error.message });
+    }
+    logger.error('Submit validated query version error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Approve a version in review (data team). It must pass a test run and its regression tests first; the approver
+// from the token becomes validated_by and the version starts being served.
+router.post('/:id/versions/:version/approve', requireRole(DATA_TEAM_ROLES), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    if (!query) {
+      return res.status(404).json({ error: 'Validated query not found' });
+    }
+
+    const version = parseInt(req.params.version);
+    const result = await validatedQueriesService.approveVersion(query.id, version, user.email, req.body.note);
+
+    const failedTests = result.tests.filter(test => test.status !== 'passed');
+    await logQueryAction(user.userId, result.approved ? 'approve_validated_query' : 'approval_test_failed', query.id, {
+      version,
+      test: result.test,
+      failedTests: failedTests.map(test => test.test_name),
+    });
+
+    if (!result.approved) {
+      return res.status(422).json({
+        error: result.test.success
+          ? `${failedTests.length} regression test(s) failed, the version was not approved`
+          : 'Test run failed, the version was not approved',
+        test: result.test,
+        tests: result.tests,
+      });
+    }
+    res.json(result);
+  } catch (error) {
+    if (error instanceof VersionStatusError) {
+      return res.status(409).json({ error: error.message });
+    }
+    logger.error('Approve validated query version error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Send a version in review back to draft with a note (data team)
+router.post('/:id/versions/:version/reject', requireRole(DATA_TEAM_ROLES), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { note } = req.body;
+    if (!note) {
+      return res.status(400).json({ error: 'A note for the author is required' });
+    }
+
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    if (!query) {
+      return res.status(404).json({ error: 'Validated query not found' });
+    }
+
+    const version = await validatedQueriesService.rejectVersion(query.id, parseInt(req.params.version), user.email, note);
+    await logQueryAction(user.userId, 'reject_validated_query', query.id, { version: version.version, note });
+    res.json(version);
+  } catch (error) {
+    if (error instanceof VersionStatusError) {
+      return res.status(409).json({ error: error.message });
+    }
+    logger.error('Reject validated query version error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Deprecate the approved version (data team); dashboards stop showing the query
+router.post('/:id/deprecate', requireRole(DATA_TEAM_ROLES), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    if (!query) {
+      return res.status(404).json({ error: 'Validated query not found' });
+    }
+
+    const version = await validatedQueriesService.deprecateApprovedVersion(query.id, user.email, req.body.note);
+    await logQueryAction(user.userId, 'deprecate_validated_query', query.id, { version: version.version, note: req.body.note });
+    res.json(version);
+  } catch (error) {
+    if (error instanceof VersionStatusError) {
+      return res.status(409).json({ error: error.message });
+    }
+    logger.error('Deprecate validated query error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Latest run of every regression test that is failing
+router.get('/tests/failing', async (req, res) => {
+  try {
+    res.json(await queryTests.getFailingTests());
+  } catch (error) {
+    logger.error('Get failing validated query tests error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Run the regression tests of every approved query (what the scheduled job does)
+router.post('/tests/run', requireRole([...DATA_TEAM_ROLES, 'admin']), async (req, res) => {
+  try {
+    const userId = (req as any).user?.userId;
+    const { passed, failed } = await queryTests.runAll(userId);
+    res.json({ passed, failed: failed.length, failures: failed });
+  } catch (error) {
+    logger.error('Run validated query tests error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Regression tests of a query with their latest outcome
+router.get('/:id/tests', async (req, res) => {
+  try {
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    if (!query) {
+      return res.status(404).json({ error: 'Validated query not found' });
+    }
+
+    res.json(await queryTests.listTests(query.id));
+  } catch (error) {
+    logger.error('Get validated query tests error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add a test case: fixed filters plus assertions on the result
+router.post('/:id/tests', requireRole([...DATA_TEAM_ROLES, 'admin']), async (req, res) => {
+  try {
+    const { name, filters, assertions } = req.body;
+    const userId = (req as any).user?.userId;
+
+    if (!name) {
+      return res.status(400).json({ error: 'Test name is required' });
+    }
+    const problems = queryTests.checkAssertions(assertions);
+    if (problems.length > 0) {
+      return res.status(400).json({ error: 'Invalid assertions', details: problems });
+    }
+
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    if (!query) {
+      return res.status(404).json({ error: 'Validated query not found' });
+    }
+
+    const test = await queryTests.createTest(query.id, { name, filters, assertions }, userId);
+    res.status(201).json(test);
+  } catch (error) {
+    logger.error('Create validated query test error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.put('/:id/tests/:testId', requireRole([...DATA_TEAM_ROLES, 'admin']), async (req, res) => {
+  try {
+    const { name, filters, assertions, is_active } = req.body;
+
+    if (assertions !== undefined) {
+      const problems = queryTests.checkAssertions(assertions);
+      if (problems.length > 0) {
+        return res.status(400).json({ error: 'Invalid assertions', details: problems });
+      }
+    }
+
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    const test = query && await queryTests.updateTest(query.id, req.params.testId, { name, filters, assertions, is_active });
+    if (!test) {
+      return res.status(404).json({ error: 'Test not found' });
+    }
+    res.json(test);
+  } catch (error) {
+    logger.error('Update validated query test error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/:id/tests/:testId', requireRole([...DATA_TEAM_ROLES, 'admin']), async (req, res) => {
+  try {
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    if (!query || !(await queryTests.deleteTest(query.id, req.params.testId))) {
+      return res.status(404).json({ error: 'Test not found' });
+    }
+    res.json({ message: 'Test deleted successfully' });
+  } catch (error) {
+    logger.error('Delete validated query test error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Run a query's tests against one version (default: the approved one, else the latest)
+router.post('/:id/tests/run', async (req, res) => {
+  try {
+    const userId = (req as any).user?.userId;
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    if (!query) {
+      return res.status(404).json({ error: 'Validated query not found' });
+    }
+
+    const version = Number.isInteger(req.body.version)
+      ? req.body.version
+      : query.approved_version ?? query.current_version ?? 1;
+    const results = await queryTests.runForQuery(query.id, version, userId);
+    res.json({
+      version,
+      passed: results.filter(result => result.status === 'passed').length,
+      failed: results.filter(result => result.status !== 'passed').length,
+      results,
+    });
+  } catch (error) {
+    logger.error('Run validated query tests error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Run history of one test, newest first
+router.get('/:id/tests/:testId/runs', async (req, res) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 20;
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    const test = query && await queryTests.getTest(query.id, req.params.testId);
+    if (!test) {
+      return res.status(404).json({ error: 'Test not found' });
+    }
+    res.json(await queryTests.getRuns(test.id, limit));
+  } catch (error) {
+    logger.error('Get validated query test runs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Stored runs of a query, newest first. ?filters=<JSON> limits them to one filter set,
+// resolved like /execute resolves it; ?from and ?to bound the run time.
+router.get('/:id/snapshots', async (req, res) => {
+  try {
+    const filters = parseFiltersParam(req.query.filters);
+    if (filters === undefined) {
+      return res.status(400).json({ error: 'filters must be a JSON object' });
+    }
+    const from = parseTimeParam(req.query.from, 'start');
+    const to = parseTimeParam(req.query.to, 'end');
+    if (from === undefined || to === undefined) {
+      return res.status(400).json({ error: 'from and to must be dates or timestamps' });
+    }
+
+    const snapshots = await validatedQueriesService.listSnapshots(req.params.id, filters, (req as any).user, {
+      from: from || undefined,
+      to: to || undefined,
+      limit: parseInt(req.query.limit as string) || 50
+    });
+    if (!snapshots) {
+      return res.status(404).json({ error: 'Validated query not found' });
+    }
+    res.json(snapshots);
+  } catch (error) {
+    sendSnapshotError(res, error, 'Get validated query snapshots error:');
+  }
+});
+
+// What the query returned for a filter set as of ?at (a date means the end of that day)
+router.get('/:id/snapshots/as-of', async (req, res) => {
+  try {
+    const filters = parseFiltersParam(req.query.filters);
+    const at = parseTimeParam(req.query.at, 'end');
+    if (filters === undefined) {
+      return res.status(400).json({ error: 'filters must be a JSON object' });
+    }
+    if (!at) {
+      return res.status(400).json({ error: 'at must be a date or timestamp' });
+    }
+
+    const snapshot = await validatedQueriesService.getSnapshotAsOf(req.params.id, filters || {}, at, (req as any).user);
+    if (!snapshot) {
+      return res.status(404).json({ error: 'No snapshot of these filters at or before that time' });
+    }
+    res.json(snapshot);
+  } catch (error) {
+    sendSnapshotError(res, error, 'Get validated query snapshot as of error:');
+  }
+});
+
+// Row by row diff of two snapshots; ?key=col1,col2 overrides the columns rows are matched on
+router.get('/:id/snapshots/compare', async (req, res) => {
+  try {
+    const { from, to, key } = req.query;
+    if (!from || !to) {
+      return res.status(400).json({ error: 'from and to snapshot ids are required' });
+    }
+
+    const keyColumns = key ? String(key).split(',').map(column => column.trim()).filter(Boolean) : undefined;
+    const comparison = await validatedQueriesService.compareSnapshots(
+      req.params.id, String(from), String(to), (req as any).user, keyColumns
+    );
+    if (!comparison) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+    res.json(comparison);
+  } catch (error) {
+    sendSnapshotError(res, error, 'Compare validated query snapshots error:');
+  }
+});
+
+router.get('/:id/snapshots/:snapshotId', async (req, res) => {
+  try {
+    const snapshot = await validatedQueriesService.getSnapshot(req.params.id, req.params.snapshotId, (req as any).user);
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+    res.json(snapshot);
+  } catch (error) {
+    sendSnapshotError(res, error, 'Get validated query snapshot error:');
+  }
+});
+
 // Execute validated query with filters
 router.post('/:id/execute', async (req, res) => {
   try {
     const { id } = req.params;
     const filters = req.body.filters || {};
     
-    // Get the validated query metadata first
-    const validatedQuery = await validatedQueriesService.getValidatedQueryByIdOrName(id);
+    // Get the approved definition first; drafts are never executed here
+    const validatedQuery = await validatedQueriesService.getApprovedQuery(id);
     if (!validatedQuery) {
-      return res.status(404).json({ error: 'Validated query not found' });
+      return res.status(404).json({ error: 'Validated query not found or not approved' });
     }
     
-    const result = await validatedQueriesService.executeValidatedQuery(id, filters);
+    const signal = trackRequest(req, res, req.body.requestId, (req as any).user?.userId);
+    const result = await validatedQueriesService.executeValidatedQuery(id, filters, (req as any).user, signal);
+    const appliedFilters = Object.fromEntries(
+      Object.entries(filters).filter(([key]) => !result.ignoredFilters.includes(key))
+    );
     res.json({
       data: result.data,
       metadata: {
@@ -130,11 +637,31 @@ router.post('/:id/execute', async (req, res) => {
         query_name: validatedQuery.name,
         chart_hint: validatedQuery.chart_hint,
         scope: validatedQuery.scope,
-        filters_applied: filters,
-        cached: result.cached
+        filters_applied: { ...appliedFilters, ...result.enforcedFilters },
+        enforced_filters: result.enforcedFilters,
+        query_version: result.version,
+        parameters: parameterSchema.parse(validatedQuery.param_schema)?.map(param => param.name) ?? null,
+        ignored_filters: result.ignoredFilters,
+        cached: result.cached,
+        stale: result.stale,
+        computed_at: result.computedAt,
+        source: result.source,
+        refresh_channel: result.refreshChannel
       }
     });
   } catch (error) {
+    if (error instanceof QueryRejectedError) {
+      return res.status(403).json({ error: error.reason, code: error.code });
+    }
+    if (error instanceof FilterValidationError) {
+      return res.status(400).json({ error: 'Invalid filters', details: error.issues });
+    }
+    if (error instanceof QueryTimeoutError) {
+      return res.status(504).json({ error: error.message, code: 'QUERY_TIMEOUT' });
+    }
+    if (error instanceof QueryCancelledError) {
+      return res.status(499).json({ error: 'Request cancelled', cancelled: true });
+    }
     logger.error('Execute validated query error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -206,26 +733,154 @@ router.delete('/meta/filters/cache/:param?', async (req, res) => {
   }
 });
 
-// Materialize all queries (for admin/cron)
-router.post('/materialize', async (req, res) => {
+// Rebuild the embeddings questions are matched against, e.g. after changing EMBEDDING_MODEL
+router.post('/vectors/reindex', requireRole([...DATA_TEAM_ROLES, 'admin']), async (req, res) => {
   try {
-    const userRole = (req as any).user?.role;
-    
-    // Only admin users can trigger materialization
-    if (userRole !== 'admin') {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
+    res.json(await validatedQueriesService.reindexVectors());
+  } catch (error) {
+    logger.error('Reindex validated query vectors error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    await validatedQueriesService.materializeAllQueries();
-    res.json({ message: 'All validated queries materialized successfully' });
+// Materialize every approved query now: default filters plus its most requested combinations
+router.post('/materialize', requireRole([...DATA_TEAM_ROLES, 'admin']), async (req, res) => {
+  try {
+    const userId = (req as any).user?.userId;
+    const runs = await materializationScheduler.runAll(userId);
+    res.json({
+      message: `Materialized ${runs.length} validated queries`,
+      runs: runs.map(run => ({
+        query_name: run.query_name,
+        status: run.status,
+        combinations: run.results.length,
+        duration_ms: run.duration_ms,
+        error: run.error
+      }))
+    });
   } catch (error) {
     logger.error('Materialize queries error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+// Materialization schedules of all queries with their latest run
+router.get('/materialization/schedules', async (req, res) => {
+  try {
+    res.json(await materializationScheduler.listSchedules());
+  } catch (error) {
+    logger.error('Get materialization schedules error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Latest materialization runs across queries, e.g. ?status=failed
+router.get('/materialization/runs', async (req, res) => {
+  try {
+    const status = req.query.status as MaterializationStatus | undefined;
+    const limit = parseInt(req.query.limit as string) || 50;
+    res.json(await materializationScheduler.getRecentRuns(status, limit));
+  } catch (error) {
+    logger.error('Get materialization runs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.get('/:id/schedule', async (req, res) => {
+  try {
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    const schedule = query && await materializationScheduler.getSchedule(query.id);
+    if (!schedule) {
+      return res.status(404).json({ error: 'Materialization schedule not found' });
+    }
+    res.json(schedule);
+  } catch (error) {
+    logger.error('Get materialization schedule error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create or update the cron schedule that warms a query's cache
+router.put('/:id/schedule', requireRole([...DATA_TEAM_ROLES, 'admin']), async (req, res) => {
+  try {
+    const { cron_expression, max_combinations, is_active } = req.body;
+    const userId = (req as any).user?.userId;
+
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    if (!query) {
+      return res.status(404).json({ error: 'Validated query not found' });
+    }
+
+    const input = { cron_expression, max_combinations, is_active };
+    const existing = await materializationScheduler.getSchedule(query.id);
+    const problems = materializationScheduler.checkSchedule(input, !existing);
+    if (problems.length > 0) {
+      return res.status(400).json({ error: 'Invalid schedule', details: problems });
+    }
+
+    const schedule = await materializationScheduler.saveSchedule(query.id, input, userId);
+    if (userId) {
+      await logQueryAction(userId, 'update_materialization_schedule', query.id, input);
+    }
+    res.json(schedule);
+  } catch (error) {
+    logger.error('Save materialization schedule error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/:id/schedule', requireRole([...DATA_TEAM_ROLES, 'admin']), async (req, res) => {
+  try {
+    const userId = (req as any).user?.userId;
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    if (!query || !(await materializationScheduler.deleteSchedule(query.id))) {
+      return res.status(404).json({ error: 'Materialization schedule not found' });
+    }
+    if (userId) {
+      await logQueryAction(userId, 'delete_materialization_schedule', query.id, {});
+    }
+    res.json({ message: 'Materialization schedule deleted successfully' });
+  } catch (error) {
+    logger.error('Delete materialization schedule error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Run history of a query's materializations, newest first
+router.get('/:id/materializations', async (req, res) => {
+  try {
+    const query = await validatedQueriesService.getValidatedQueryByIdOrName(req.params.id);
+    if (!query) {
+      return res.status(404).json({ error: 'Validated query not found' });
+    }
+    const limit = parseInt(req.query.limit as string) || 20;
+    res.json(await materializationScheduler.getRuns(query.id, limit));
+  } catch (error) {
+    logger.error('Get materialization runs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Materialize one query now, outside its schedule
+router.post('/:id/materialize', requireRole([...DATA_TEAM_ROLES, 'admin']), async (req, res) => {
+  try {
+    const userId = (req as any).user?.userId;
+    const query = await validatedQueriesService.getApprovedQuery(req.params.id);
+    if (!query) {
+      return res.status(404).json({ error: 'Validated query not found or not approved' });
+    }
+    res.json(await materializationScheduler.runQuery(query.id, userId));
+  } catch (error) {
+    if (error instanceof MaterializationInProgressError) {
+      return res.status(409).json({ error: error.message });
+    }
+    logger.error('Materialize validated query error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Deactivate validated query
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requireRole([...DATA_TEAM_ROLES, 'admin']), async (req, res) => {
   try {
     const { id } = req.params;
     const userId = (req as any).user?.userId;
@@ -254,4 +909,63 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
+async function logQueryAction(userId: string, action: string, queryId: string, details: Record<string, unknown>): Promise<void> {
+  const db = getDatabase();
+  await db.execute(
+    'INSERT INTO audit_logs (id, user_id, action, resource_type, resource_id, details) VALUES (?, ?, ?, ?, ?, ?)',
+    [uuidv4(), userId, action, 'validated_query', queryId, JSON.stringify(details)]
+  );
+}
+
+// TTLs are positive numbers of seconds, or null for the server default; soft cannot exceed hard
+function checkCacheTtls(update: Partial<ValidatedQuery>, existing: ValidatedQuery): string[] {
+  const issues: string[] = [];
+  for (const field of ['cache_soft_ttl_seconds', 'cache_hard_ttl_seconds'] as const) {
+    const value = update[field];
+    if (value !== undefined && value !== null && !(Number.isInteger(value) && value > 0)) {
+      issues.push(`${field} must be a positive number of seconds or null`);
+    }
+  }
+
+  const soft = update.cache_soft_ttl_seconds !== undefined ? update.cache_soft_ttl_seconds : existing.cache_soft_ttl_seconds;
+  const hard = update.cache_hard_ttl_seconds !== undefined ? update.cache_hard_ttl_seconds : existing.cache_hard_ttl_seconds;
+  if (issues.length === 0 && soft && hard && soft > hard) {
+    issues.push('cache_soft_ttl_seconds cannot be longer than cache_hard_ttl_seconds');
+  }
+  return issues;
+}
+
+// null when absent, undefined when not a JSON object
+function parseFiltersParam(value: unknown): FilterParams | null | undefined {
+  if (value === undefined || value === '') return null;
+  try {
+    const parsed = JSON.parse(String(value));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// A timestamp, or a YYYY-MM-DD date taken as the start or end of that day (server time).
+// null when absent, undefined when invalid.
+function parseTimeParam(value: unknown, dayBoundary: 'start' | 'end'): Date | null | undefined {
+  if (value === undefined || value === '') return null;
+  const text = String(value);
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(text)
+    ? new Date(`${text}T${dayBoundary === 'start' ? '00:00:00' : '23:59:59'}`)
+    : new Date(text);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function sendSnapshotError(res: express.Response, error: unknown, message: string) {
+  if (error instanceof QueryRejectedError) {
+    return res.status(403).json({ error: error.reason, code: error.code });
+  }
+  if (error instanceof FilterValidationError) {
+    return res.status(400).json({ error: 'Invalid filters', details: error.issues });
+  }
+  logger.error(message, error);
+  res.status(500).json({ error: 'Internal server error' });
+}
+
 export default router; 
\ No newline at end of file
@@ -17,8 +17,12 @@ const APPLICATION_KEY_PATTERNS = [
   'validated_query:*',    // Validated query results cache
   'filter_options:*',     // Filter options cache  
   'query:*',             // SQLTool query cache
+  'cache_tag:*',         // Tag sets used for invalidation
 ];
 
+// Keys per SCAN step and per UNLINK call
+const SCAN_BATCH_SIZE = 500;
+
 class RedisCacheManager {
   constructor() {
     this.redisHost = process.env.REDIS_HOSTNAME || 'localhost';
@@ -49,23 +53,45 @@ class RedisCacheManager {
     }
   }
 
+  // SCAN walks the keyspace a batch at a time, where KEYS would block Redis until done
+  async *scanKeys(pattern) {
+    for await (const key of this.redis.scanIterator({ MATCH: pattern, COUNT: SCAN_BATCH_SIZE })) {
+      yield key;
+    }
+  }
+
+  async deleteMatching(pattern) {
+    let deleted = 0;
+    let batch = [];
+
+    for await (const key of this.scanKeys(pattern)) {
+      console.log(`  - ${key}`);
+      batch.push(key);
+      if (batch.length >= SCAN_BATCH_SIZE) {
+        deleted += await this.redis.unlink(batch);
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      deleted += await this.redis.unlink(batch);
+    }
+
+    return deleted;
+  }
+
   async clearAllApplicationCache() {
     console.log('\n🧹 Clearing all application cache...');
     
     let totalKeysDeleted = 0;
 
     for (const pattern of APPLICATION_KEY_PATTERNS) {
-      console.log(`\nSearching for keys matching pattern: ${pattern}`);
+      console.log(`\nDeleting keys matching pattern: ${pattern}`);
       
-      const keys = await this.redis.keys(pattern);
+      const deleted = await this.deleteMatching(pattern);
       
-      if (keys.length > 0) {
-        console.log(`Found ${keys.length} keys to delete:`);
-        keys.forEach(key => console.log(`  - ${key}`));
-        
-        await this.redis.del(keys);
-        totalKeysDeleted += keys.length;
-        console.log(`✅ Deleted ${keys.length} keys for pattern: ${pattern}`);
+      if (deleted > 0) {
+        totalKeysDeleted += deleted;
+        console.log(`✅ Deleted ${deleted} keys for pattern: ${pattern}`);
       } else {
         console.log(`No keys found for pattern: ${pattern}`);
       }
@@ -94,19 +120,14 @@ class RedisCacheManager {
 
     console.log(`\n🧹 Clearing ${cacheType} cache (pattern: ${pattern})...`);
     
-    const keys = await this.redis.keys(pattern);
+    const deleted = await this.deleteMatching(pattern);
     
-    if (keys.length > 0) {
-      console.log(`Found ${keys.length} keys to delete:`);
-      keys.forEach(key => console.log(`  - ${key}`));
-      
-      await this.redis.del(keys);
-      console.log(`✅ Deleted ${keys.length} keys for ${cacheType} cache`);
-      return keys.length;
+    if (deleted > 0) {
+      console.log(`✅ Deleted ${deleted} keys for ${cacheType} cache`);
     } else {
       console.log(`No keys found for ${cacheType} cache`);
-      return 0;
     }
+    return deleted;
   }
 
   async inspectCache() {
@@ -116,13 +137,14 @@ class RedisCacheManager {
     const cacheStats = {};
 
     for (const pattern of APPLICATION_KEY_PATTERNS) {
-      const keys = await this.redis.keys(pattern);
       const cacheType = pattern.replace(':*', '');
-      cacheStats[cacheType] = {
-        count: keys.length,
-        keys: keys.slice(0, 10) // Show first 10 keys as examples
-      };
-      totalAppKeys += keys.length;
+      const stats = { count: 0, keys: [] };
+      for await (const key of this.scanKeys(pattern)) {
+        stats.count++;
+        if (stats.keys.length < 10) stats.keys.push(key); // Show first 10 keys as examples
+      }
+      cacheStats[cacheType] = stats;
+      totalAppKeys += stats.count;
     }
 
     console.log('\n📊 Cache Statistics:');
@@ -150,7 +172,10 @@ class RedisCacheManager {
   async getKeyDetails(keyPattern) {
     console.log(`\n🔍 Getting details for keys matching: ${keyPattern}`);
     
-    const keys = await this.redis.keys(keyPattern);
+    const keys = [];
+    for await (const key of this.scanKeys(keyPattern)) {
+      keys.push(key);
+    }
     
     if (keys.length === 0) {
       console.log('No keys found matching the pattern');
@@ -222,6 +247,7 @@ Application Cache Types:
   - validated_query:*    Query results cache (24h TTL)
   - filter_options:*     Filter options cache (12h TTL) 
   - query:*             SQL tool query cache (1h TTL)
+  - cache_tag:*         Tag sets listing the keys to drop per query, table or connector
 
 Environment Variables:
   REDIS_HOSTNAME    Redis host (default: localhost)
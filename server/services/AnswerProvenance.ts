@@ -0,0 +1,160 @@
+import type { FilterParams, ValidatedQuery, ValidatedQueryExecution } from './validatedQueries.js';
+import type { ResultSource } from './ValidatedQueryEvents.js';
+import { NumericGroundingVerifier, type GroundingVerification, type NumericClaim } from './NumericGroundingVerifier.js';
+
+// Rows of a result the answer model sees, numbered so it can cite them
+export const MAX_CITABLE_ROWS = 50;
+const CALCULATIONS = ['value', 'sum', 'avg', 'count', 'min', 'max', 'other'] as const;
+
+export type FigureCalculation = typeof CALCULATIONS[number];
+
+// A number quoted in an answer and the result rows it was read or computed from
+export interface AnswerFigure {
+  // As written in the answer, e.g. "12,340 EGP"
+  text: string;
+  column: string | null;
+  // value: read from a single row, otherwise the aggregate over the rows
+  calculation: FigureCalculation;
+  // 1-based positions in the result
+  row_numbers: number[];
+  rows: any[];
+}
+
+// Where a validated answer's numbers come from, so each one can be traced back to the
+// approved query version, the filters and run it was computed with, and the exact rows
+export interface AnswerProvenance {
+  qid: string;
+  query_name: string;
+  version: number;
+  // As the query ran: defaults, param_schema and row-level filters applied
+  filters: FilterParams;
+  enforced_filters: Record<string, string>;
+  // When the data was computed; stale results are being recomputed
+  run_stamp: string | null;
+  stale: boolean;
+  source: ResultSource | null;
+  // Data team member who approved the version
+  validated_by: string | null;
+  validated_at: Date | string | null;
+  row_count: number;
+  figures: AnswerFigure[];
+}
+
+// Reply format asked of the answer model; parseAnswer reads it
+export const CITED_ANSWER_FORMAT = `Respond with JSON only:
+{"answer": "the answer for the user", "figures": [{"text": "a number exactly as written in the answer", "column": "result column it comes from", "calculation": "${CALCULATIONS.join('|')}", "rows": [row numbers it was read or computed from]}]}
+List every number of the answer in figures. A value read from one row cites that row, a total or average cites every row it covers.`;
+
+export class AnswerProvenanceBuilder {
+  private verifier = new NumericGroundingVerifier();
+
+  // Result rows as the answer model sees them: "#<row number> <row JSON>" per line
+  citableRows(data: any[]): string {
+    return data
+      .slice(0, MAX_CITABLE_ROWS)
+      .map((row, index) => `#${index + 1} ${JSON.stringify(row)}`)
+      .join('\n');
+  }
+
+  // Answer and figures from the model's reply. Figures must quote the answer and cite rows it
+  // was shown; anything else is dropped. A reply that is not the JSON asked for is the answer.
+  parseAnswer(content: string, data: any[]): { answer: string; figures: AnswerFigure[] } {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+    } catch {
+      return { answer: content, figures: [] };
+    }
+    if (!parsed || typeof parsed.answer !== 'string') {
+      return { answer: content, figures: [] };
+    }
+
+    const answer: string = parsed.answer;
+    const citable = Math.min(data.length, MAX_CITABLE_ROWS);
+    const figures: AnswerFigure[] = [];
+
+    for (const figure of Array.isArray(parsed.figures) ? parsed.figures : []) {
+      if (typeof figure?.text !== 'string' || !figure.text.trim() || !answer.includes(figure.text)) continue;
+
+      const rowNumbers = [...new Set<number>((Array.isArray(figure.rows) ? figure.rows : [])
+        .map(Number)
+        .filter((row: number) => Number.isInteger(row) && row >= 1 && row <= citable))]
+        .sort((a, b) => a - b);
+      if (rowNumbers.length === 0) continue;
+
+      const column = typeof figure.column === 'string' && rowNumbers.some(row => figure.column in (data[row - 1] ?? {}))
+        ? figure.column
+        : null;
+      figures.push({
+        text: figure.text,
+        column,
+        calculation: CALCULATIONS.includes(figure.calculation) ? figure.calculation : 'other',
+        row_numbers: rowNumbers,
+        rows: rowNumbers.map(row => data[row - 1]),
+      });
+    }
+
+    return { answer, figures };
+  }
+
+  // Figures of an answer after its grounding check (verification of that same answer). A figure
+  // loses its citation when its number is unsupported, or when its cited rows, reduced to its
+  // column when it names one, cannot produce it. Shares are of a column total the citation does
+  // not cover, so only their column is compared. Corrected numbers are written into the figure
+  // at the position the check found them.
+  checkFigures(answer: string, figures: AnswerFigure[], verification: GroundingVerification): AnswerFigure[] {
+    const checked: AnswerFigure[] = [];
+
+    for (const figure of figures) {
+      const start = answer.indexOf(figure.text);
+      const claims = verification.claims.filter(claim =>
+        claim.index >= start && claim.index + claim.text.length <= start + figure.text.length
+      );
+      if (claims.some(claim => !claim.supported && !claim.corrected_to)) continue;
+
+      let text = figure.text;
+      for (const claim of [...claims].sort((a, b) => b.index - a.index)) {
+        if (!claim.corrected_to) continue;
+        const offset = claim.index - start;
+        text = text.slice(0, offset) + claim.corrected_to + text.slice(offset + claim.text.length);
+      }
+
+      if (this.citationSupports(text, figure, claims)) {
+        checked.push({ ...figure, text });
+      }
+    }
+
+    return checked;
+  }
+
+  // Years and small counts are not claims, so a figure of only those has nothing to check
+  private citationSupports(text: string, figure: AnswerFigure, claims: NumericClaim[]): boolean {
+    if (claims.length === 0) return true;
+    if (claims.every(claim => claim.basis === 'share')) {
+      return !figure.column || claims.every(claim => claim.column?.split(' by ')[0] === figure.column);
+    }
+
+    const rows = figure.column
+      ? figure.rows.map(row => ({ [figure.column!]: row?.[figure.column!] }))
+      : figure.rows;
+    const { status } = this.verifier.verify(text, rows).verification;
+    return status === 'verified' || status === 'no_figures';
+  }
+
+  build(query: ValidatedQuery, execution: ValidatedQueryExecution, figures: AnswerFigure[]): AnswerProvenance {
+    return {
+      qid: query.id,
+      query_name: query.name,
+      version: execution.version,
+      filters: execution.filters,
+      enforced_filters: execution.enforcedFilters,
+      run_stamp: execution.computedAt,
+      stale: execution.stale,
+      source: execution.source,
+      validated_by: query.validated_by,
+      validated_at: query.validated_at ?? null,
+      row_count: execution.data.length,
+      figures,
+    };
+  }
+}
@@ -0,0 +1,312 @@
+import { getRedis } from '../database/init.js';
+import { logger } from '../utils/logger.js';
+import { CacheTags, cacheTag, normalizeTableName, type CacheKind } from './CacheTags.js';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CacheHealth {
+  // fallback while the circuit is open: entries live in this process only
+  backend: 'redis' | 'fallback';
+  circuit: CircuitState;
+  redis_ready: boolean;
+  consecutive_failures: number;
+  last_error: string | null;
+  opened_at: string | null;
+  fallback: { entries: number; max_entries: number; size: number; max_size: number };
+  // Invalidations Redis missed while unavailable, replayed once it is back
+  pending_invalidations: number;
+}
+
+const FAILURE_THRESHOLD = parseInt(process.env.CACHE_CIRCUIT_FAILURE_THRESHOLD || '') || 5;
+const RESET_TIMEOUT_MS = parseInt(process.env.CACHE_CIRCUIT_RESET_MS || '') || 30_000;
+const COMMAND_TIMEOUT_MS = parseInt(process.env.CACHE_REDIS_TIMEOUT_MS || '') || 1000;
+// Tag invalidation walks whole tag sets, so it gets longer than a single command
+const INVALIDATION_TIMEOUT_MS = COMMAND_TIMEOUT_MS * 10;
+const FALLBACK_MAX_ENTRIES = parseInt(process.env.CACHE_FALLBACK_MAX_ENTRIES || '') || 1000;
+const FALLBACK_MAX_SIZE = (parseInt(process.env.CACHE_FALLBACK_MAX_MB || '') || 64) * 1024 * 1024;
+// Keys whose deletion Redis missed are queued up to this many; past it they are replaced by
+// invalidating every cache kind, which deletes them along with everything else
+const MAX_PENDING_DELETES = parseInt(process.env.CACHE_MAX_PENDING_DELETES || '') || 1000;
+const CACHE_KINDS: CacheKind[] = ['validated_query', 'filter_options', 'sql'];
+
+type RedisResult<T> = { ok: true; value: T } | { ok: false };
+
+interface FallbackEntry {
+  value: string;
+  expiresAt: number;
+  tags: string[];
+}
+
+// In-process stand-in for Redis, bounded by entry count and total value length (characters,
+// as an approximation of memory). The least recently read entries are evicted first.
+class LruCache {
+  private entries = new Map<string, FallbackEntry>();
+  private totalSize = 0;
+
+  constructor(readonly maxEntries: number, readonly maxSize: number) {}
+
+  get size(): number {
+    return this.totalSize;
+  }
+
+  get count(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return null;
+    }
+    // Map iteration follows insertion order, so re-inserting marks the entry most recent
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: string, ttlSeconds: number, tags: string[] = []): void {
+    this.delete(key);
+    if (value.length > this.maxSize) return;
+
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000, tags });
+    this.totalSize += value.length;
+    while (this.entries.size > this.maxEntries || this.totalSize > this.maxSize) {
+      this.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  setIfAbsent(key: string, value: string, ttlSeconds: number): boolean {
+    if (this.get(key) !== null) return false;
+    this.set(key, value, ttlSeconds);
+    return true;
+  }
+
+  delete(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+    this.entries.delete(key);
+    this.totalSize -= entry.value.length;
+    return true;
+  }
+
+  // Entries carrying all of the given tags
+  invalidate(tags: string[]): number {
+    let deleted = 0;
+    for (const [key, entry] of [...this.entries]) {
+      if (tags.every(tag => entry.tags.includes(tag)) && this.delete(key)) deleted++;
+    }
+    return deleted;
+  }
+
+  countTagged(tag: string): number {
+    let count = 0;
+    for (const entry of this.entries.values()) {
+      if (entry.tags.includes(tag)) count++;
+    }
+    return count;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalSize = 0;
+  }
+}
+
+// The application cache. Entries go to Redis while it responds; a circuit breaker stops calling
+// it after FAILURE_THRESHOLD consecutive failures and tries again after RESET_TIMEOUT_MS. Until
+// then reads, writes and invalidations use the in-process LRU, so an outage costs cache hits
+// but never fails a request. Nothing here throws on Redis errors.
+export class CacheStore {
+  private fallback = new LruCache(FALLBACK_MAX_ENTRIES, FALLBACK_MAX_SIZE);
+  private cacheTags = new CacheTags();
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private lastError: string | null = null;
+  private openedAt: number | null = null;
+  private trialRunning = false;
+  private pendingDeletes = new Set<string>();
+  // Keyed by the sorted tag list, so repeated invalidations are replayed once
+  private pendingInvalidations = new Map<string, string[]>();
+
+  async get(key: string): Promise<string | null> {
+    const result = await this.redis(redis => redis.get(key) as Promise<string | null>);
+    // Writes that failed while the circuit was still closed are only in the fallback
+    return (result.ok ? result.value : null) ?? this.fallback.get(key);
+  }
+
+  // Store value for ttlSeconds, registered under tags for invalidation
+  async set(key: string, value: string, ttlSeconds: number, tags: string[] = []): Promise<void> {
+    const result = await this.redis(redis => tags.length > 0
+      ? this.cacheTags.set(key, value, ttlSeconds, tags)
+      : redis.setEx(key, Math.max(1, Math.ceil(ttlSeconds)), value));
+
+    if (result.ok) {
+      this.fallback.delete(key);
+    } else {
+      this.fallback.set(key, value, ttlSeconds, tags);
+    }
+  }
+
+  // SET NX: true when the key was free and is now held by the caller (used for locks)
+  async setIfAbsent(key: string, value: string, ttlSeconds: number): Promise<boolean> {
+    const result = await this.redis(redis => redis.set(key, value, { NX: true, EX: Math.max(1, Math.ceil(ttlSeconds)) }));
+    return result.ok ? result.value === 'OK' : this.fallback.setIfAbsent(key, value, ttlSeconds);
+  }
+
+  async del(key: string): Promise<void> {
+    this.fallback.delete(key);
+    const result = await this.redis(redis => redis.del(key));
+    if (!result.ok) this.queueDelete(key);
+  }
+
+  // Delete the entries carrying all of the given tags; returns how many existed
+  async invalidate(tags: string[]): Promise<number> {
+    if (tags.length === 0) return 0;
+
+    const deleted = this.fallback.invalidate(tags);
+    const result = await this.redis(() => this.cacheTags.invalidate(tags), INVALIDATION_TIMEOUT_MS);
+    if (!result.ok) {
+      this.pendingInvalidations.set(JSON.stringify([...tags].sort()), tags);
+      return deleted;
+    }
+    return deleted + result.value;
+  }
+
+  // A data refresh of tables: drops every entry computed from them, or with a connector
+  // only the entries computed on that connector
+  async invalidateTables(tables: string[], connectorId?: string): Promise<number> {
+    let deleted = 0;
+    for (const table of new Set(tables.map(normalizeTableName))) {
+      deleted += await this.invalidate(connectorId
+        ? [cacheTag.table(table), cacheTag.connector(connectorId)]
+        : [cacheTag.table(table)]);
+    }
+    return deleted;
+  }
+
+  // Number of live keys registered under a tag
+  async tagSize(tag: string): Promise<number> {
+    const result = await this.redis(() => this.cacheTags.size(tag));
+    return result.ok ? result.value : this.fallback.countTagged(tag);
+  }
+
+  health(): CacheHealth {
+    return {
+      backend: this.state === 'closed' ? 'redis' : 'fallback',
+      circuit: this.state,
+      redis_ready: Boolean(getRedis()?.isReady),
+      consecutive_failures: this.failures,
+      last_error: this.lastError,
+      opened_at: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      fallback: {
+        entries: this.fallback.count,
+        max_entries: this.fallback.maxEntries,
+        size: this.fallback.size,
+        max_size: this.fallback.maxSize,
+      },
+      pending_invalidations: this.pendingDeletes.size + this.pendingInvalidations.size,
+    };
+  }
+
+  // Runs a Redis operation through the circuit breaker; ok is false when Redis was skipped or failed
+  private async redis<T>(operation: (redis: any) => Promise<T>, timeoutMs = COMMAND_TIMEOUT_MS): Promise<RedisResult<T>> {
+    if (!this.allowRequest()) return { ok: false };
+
+    const client = getRedis();
+    if (!client?.isReady) {
+      this.recordFailure(new Error('Redis is not connected'));
+      return { ok: false };
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Redis did not answer within ${timeoutMs}ms`)), timeoutMs);
+      });
+      const value = await Promise.race([operation(client), timeout]);
+      this.recordSuccess();
+      return { ok: true, value };
+    } catch (error) {
+      this.recordFailure(error);
+      return { ok: false };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Half-open lets a single trial request through once the reset timeout has passed
+  private allowRequest(): boolean {
+    if (this.state === 'closed') return true;
+    if (this.state === 'open' && Date.now() - this.openedAt! >= RESET_TIMEOUT_MS) {
+      this.state = 'half_open';
+    }
+    if (this.state === 'half_open' && !this.trialRunning) {
+      this.trialRunning = true;
+      return true;
+    }
+    return false;
+  }
+
+  private recordSuccess(): void {
+    this.failures = 0;
+    if (this.state !== 'half_open') return;
+
+    this.trialRunning = false;
+    this.state = 'closed';
+    this.openedAt = null;
+    // Entries written here while Redis was away would miss other instances' invalidations
+    this.fallback.clear();
+    logger.info('✅ Redis is back - cache circuit closed');
+    this.replayPending().catch(error => {
+      logger.warn('Replaying cache invalidations failed:', error);
+    });
+  }
+
+  private recordFailure(error: unknown): void {
+    this.failures++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+
+    if (this.state === 'half_open' || (this.state === 'closed' && this.failures >= FAILURE_THRESHOLD)) {
+      if (this.state === 'closed') {
+        logger.warn(`⚠️ Redis unavailable (${this.lastError}) - serving cache from memory for ${RESET_TIMEOUT_MS}ms before retrying`);
+      }
+      this.trialRunning = false;
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  private queueDelete(key: string): void {
+    if (this.pendingDeletes.size < MAX_PENDING_DELETES) {
+      this.pendingDeletes.add(key);
+      return;
+    }
+
+    logger.warn(`⚠️ More than ${MAX_PENDING_DELETES} cache deletes missed - the whole cache is invalidated once Redis is back`);
+    this.pendingDeletes.clear();
+    for (const kind of CACHE_KINDS) {
+      const tags = [cacheTag.kind(kind)];
+      this.pendingInvalidations.set(JSON.stringify(tags), tags);
+    }
+  }
+
+  private async replayPending(): Promise<void> {
+    const deletes = [...this.pendingDeletes];
+    const invalidations = [...this.pendingInvalidations.values()];
+    this.pendingDeletes.clear();
+    this.pendingInvalidations.clear();
+
+    // Anything that fails again is queued again by del and invalidate
+    for (const key of deletes) {
+      await this.del(key);
+    }
+    for (const tags of invalidations) {
+      await this.invalidate(tags);
+    }
+  }
+}
+
+// Shared by every service so they see one circuit and one fallback
+export const cacheStore = new CacheStore();
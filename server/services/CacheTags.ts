@@ -0,0 +1,114 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getRedis } from '../database/init.js';
+
+// The caches entries can belong to: validated query results, filter options and SQLTool results
+export type CacheKind = 'validated_query' | 'filter_options' | 'sql';
+
+// Tags name what a cached entry was computed from, so it can be dropped when that changes
+export const cacheTag = {
+  kind: (kind: CacheKind) => `kind:${kind}`,
+  query: (qid: string) => `query:${qid}`,
+  table: (name: string) => `table:${normalizeTableName(name)}`,
+  // SQLTool runs without a connector use the deliveries pool, tagged connector:deliveries
+  connector: (id: string) => `connector:${id}`,
+  filter: (sqlParam: string) => `filter:${sqlParam}`,
+};
+
+// Tables are tagged by bare lowercase name: "${schema}.Deliveries", "public.deliveries" and
+// `deliveries` all become table:deliveries, so a refresh of one schema also drops the others
+export function normalizeTableName(name: string): string {
+  const unquoted = name.replace(/[`"[\]]/g, '').replace(/^\$\{schema\}\./, '');
+  return unquoted.split('.').pop()!.toLowerCase();
+}
+
+// Tag keys used to be plain sets under cache_tag:, which the sorted set commands below cannot read
+const TAG_PREFIX = 'cache_tags:';
+const DELETE_BATCH_SIZE = 500;
+
+// Writes the entry and adds it to every tag set in one step, so an entry never exists without
+// its tags. Tag sets are sorted sets scored by when the entry expires (ms); members that already
+// expired are dropped on every write, so long-lived tags like kind:sql only hold live entries.
+// A tag set lives as long as its longest-lived entry.
+const SET_WITH_TAGS_SCRIPT = `
+redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+local now = tonumber(ARGV[3])
+local expiresAt = now + tonumber(ARGV[2]) * 1000
+for i = 2, #KEYS do
+  redis.call('ZREMRANGEBYSCORE', KEYS[i], '-inf', now)
+  redis.call('ZADD', KEYS[i], expiresAt, KEYS[1])
+  if redis.call('TTL', KEYS[i]) < tonumber(ARGV[2]) then
+    redis.call('EXPIRE', KEYS[i], ARGV[2])
+  end
+end
+return 1
+`;
+
+// Cache entries registered under tags (Redis sorted sets of keys), so they can be invalidated by
+// what they depend on without scanning the keyspace. Members whose entry expired since the last
+// write to the tag are harmless: deleting them is a no-op. This is the Redis side of CacheStore,
+// which callers use.
+export class CacheTags {
+  async set(key: string, value: string, ttlSeconds: number, tags: string[]): Promise<void> {
+    const tagKeys = [...new Set(tags)].map(tag => this.tagKey(tag));
+    await getRedis().eval(SET_WITH_TAGS_SCRIPT, {
+      keys: [key, ...tagKeys],
+      arguments: [value, String(Math.max(1, Math.ceil(ttlSeconds))), String(Date.now())],
+    });
+  }
+
+  // Delete the entries carrying all of the given tags; returns how many existed
+  async invalidate(tags: string[]): Promise<number> {
+    const tagKeys = [...new Set(tags)].map(tag => this.tagKey(tag));
+    if (tagKeys.length === 0) return 0;
+
+    if (tagKeys.length > 1) {
+      const keys = await getRedis().zInter(tagKeys);
+      const deleted = await this.deleteKeys(keys);
+      if (keys.length > 0) {
+        await Promise.all(tagKeys.map(tagKey => getRedis().zRem(tagKey, keys)));
+      }
+      return deleted;
+    }
+
+    // The set is renamed before it is read, so entries cached meanwhile land in a new set
+    // instead of being dropped along with the old one
+    const redis = getRedis();
+    const claimedKey = `${tagKeys[0]}:invalidating:${uuidv4()}`;
+    try {
+      await redis.rename(tagKeys[0], claimedKey);
+    } catch (error) {
+      if (error instanceof Error && /no such key/i.test(error.message)) return 0;
+      throw error;
+    }
+
+    let deleted = 0;
+    let batch: string[] = [];
+    for await (const { value: key } of redis.zScanIterator(claimedKey, { COUNT: DELETE_BATCH_SIZE })) {
+      batch.push(key);
+      if (batch.length >= DELETE_BATCH_SIZE) {
+        deleted += await this.deleteKeys(batch);
+        batch = [];
+      }
+    }
+    deleted += await this.deleteKeys(batch);
+    await redis.del(claimedKey);
+    return deleted;
+  }
+
+  // Number of live entries registered under a tag
+  async size(tag: string): Promise<number> {
+    return getRedis().zCount(this.tagKey(tag), Date.now(), '+inf');
+  }
+
+  private async deleteKeys(keys: string[]): Promise<number> {
+    let deleted = 0;
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      deleted += await getRedis().unlink(keys.slice(i, i + DELETE_BATCH_SIZE));
+    }
+    return deleted;
+  }
+
+  private tagKey(tag: string): string {
+    return `${TAG_PREFIX}${tag}`;
+  }
+}
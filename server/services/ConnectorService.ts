@@ -1,7 +1,19 @@
 import mysql from 'mysql2/promise';
 import { MongoClient } from 'mongodb';
+import { getDatabase } from '../database/init.js';
+import { getConnectorPool } from '../database/connectorPools.js';
+import { SQLDialect } from './SQLGuard.js';
 import { logger } from '../utils/logger.js';
 
+export interface Connector {
+  id: string;
+  name: string;
+  kind: 'mysql' | 'postgres' | 'redshift' | 'mongo' | 'gmail' | 'gdrive';
+  conn_uri: string;
+  schema_json: any;
+  updated_at?: string;
+}
+
 interface TestConnectionResult {
   success: boolean;
   tables?: string[];
@@ -9,10 +21,39 @@ interface TestConnectionResult {
 }
 
 export class ConnectorService {
+  async getConnector(id: string): Promise<Connector | null> {
+    const db = getDatabase();
+    const [rows] = await db.execute('SELECT * FROM connectors WHERE id = ?', [id]);
+    return (rows as Connector[])[0] || null;
+  }
+
+  // SQL dialect used to parse and generate queries; no connector means the deliveries MySQL database
+  static getDialect(connector?: Pick<Connector, 'kind'> | null): SQLDialect {
+    switch (connector?.kind) {
+      case 'postgres':
+        return 'PostgresQL';
+      case 'redshift':
+        return 'Redshift';
+      default:
+        return 'MySQL';
+    }
+  }
+
+  // Generated text is only executed when it looks like a query for the target data source
+  static looksLikeQuery(text: string | null | undefined, connector?: Pick<Connector, 'kind'> | null): boolean {
+    if (!text) return false;
+    if (connector?.kind === 'mongo') {
+      return text.trim().startsWith('{');
+    }
+    return /^(select|with)\b/i.test(text);
+  }
+
   async testConnection(connector: any): Promise<TestConnectionResult> {
     try {
       if (connector.kind === 'mysql') {
         return await this.testMySQLConnection(connector);
+      } else if (connector.kind === 'postgres' || connector.kind === 'redshift') {
+        return await this.testPostgresConnection(connector);
       } else if (connector.kind === 'mongo') {
         return await this.testMongoConnection(connector);
       } else {
@@ -69,6 +110,31 @@ export class ConnectorService {
     }
   }
 
+  private async testPostgresConnection(connector: any): Promise<TestConnectionResult> {
+    try {
+      // Test through the shared pool so the same SSL and port defaults are exercised
+      const { pool } = await getConnectorPool(connector);
+      await pool.query('SELECT 1');
+
+      const result = await pool.query(
+        `SELECT table_schema, table_name FROM information_schema.tables
+         WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
+         ORDER BY table_schema, table_name LIMIT 3`
+      );
+      const tables = result.rows.map((row: any) => `${row.table_schema}.${row.table_name}`);
+
+      return {
+        success: true,
+        tables, // Return first 3 tables
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : `${connector.kind} connection failed`,
+      };
+    }
+  }
+
   private async testMongoConnection(connector: any): Promise<TestConnectionResult> {
     let client: MongoClient | null = null;
     
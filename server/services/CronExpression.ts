@@ -0,0 +1,143 @@
+// Thrown for an expression that is not a valid five-field cron expression
+export class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronExpressionError';
+  }
+}
+
+interface FieldRange {
+  name: string;
+  min: number;
+  max: number;
+}
+
+const FIELDS: FieldRange[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 0 and 7 are both Sunday
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// No schedule is searched further ahead than this, e.g. "0 0 30 2 *" never fires
+const MAX_SEARCH_YEARS = 5;
+
+// Standard five-field cron expression (minute hour day-of-month month day-of-week) with
+// *, lists, ranges and steps, evaluated in the server's local time zone. As in cron, when both
+// day fields are restricted a day matches if either of them does.
+export class CronExpression {
+  readonly expression: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private anyDayOfMonth: boolean;
+  private anyDayOfWeek: boolean;
+
+  constructor(expression: string) {
+    this.expression = expression.trim();
+    const parts = this.expression.split(/\s+/);
+    if (parts.length !== FIELDS.length) {
+      throw new CronExpressionError(`Expected ${FIELDS.length} fields (minute hour day-of-month month day-of-week), got ${parts.length}`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => this.parseField(part, FIELDS[index]));
+    this.minutes = minutes;
+    this.hours = hours;
+    this.daysOfMonth = daysOfMonth;
+    this.months = months;
+    this.daysOfWeek = new Set([...daysOfWeek].map(day => day % 7));
+    this.anyDayOfMonth = parts[2] === '*';
+    this.anyDayOfWeek = parts[4] === '*';
+  }
+
+  static isValid(expression: string): boolean {
+    try {
+      new CronExpression(expression);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  matches(date: Date): boolean {
+    return this.minutes.has(date.getMinutes()) &&
+      this.hours.has(date.getHours()) &&
+      this.months.has(date.getMonth() + 1) &&
+      this.matchesDay(date);
+  }
+
+  // First matching minute strictly after the given time
+  next(after: Date = new Date()): Date {
+    const date = new Date(after.getTime());
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    const limit = new Date(date.getTime());
+    limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+    // Skip whole months, days and hours that cannot match instead of walking every minute
+    while (date < limit) {
+      if (!this.months.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1);
+        date.setHours(0, 0, 0, 0);
+      } else if (!this.matchesDay(date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0, 0, 0);
+      } else if (!this.hours.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0, 0, 0);
+      } else if (!this.minutes.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1, 0, 0);
+      } else {
+        return date;
+      }
+    }
+
+    throw new CronExpressionError(`"${this.expression}" does not fire within ${MAX_SEARCH_YEARS} years`);
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getDay());
+    if (this.anyDayOfMonth) return dayOfWeek;
+    if (this.anyDayOfWeek) return dayOfMonth;
+    return dayOfMonth || dayOfWeek;
+  }
+
+  // "*", "5", "1-5", "*/15", "0-30/10" and comma-separated lists of those
+  private parseField(part: string, field: FieldRange): Set<number> {
+    const values = new Set<number>();
+
+    for (const item of part.split(',')) {
+      const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(item);
+      if (!match) {
+        throw new CronExpressionError(`Invalid ${field.name} "${item}"`);
+      }
+
+      const step = match[4] !== undefined ? parseInt(match[4]) : 1;
+      let start = field.min;
+      let end = field.max;
+      if (match[1] !== '*') {
+        start = parseInt(match[2]);
+        // "5/15" means from 5 to the end of the range
+        end = match[3] !== undefined ? parseInt(match[3]) : match[4] !== undefined ? field.max : start;
+      }
+
+      if (start < field.min || end > field.max || start > end) {
+        throw new CronExpressionError(`${field.name} "${item}" is outside ${field.min}-${field.max}`);
+      }
+      if (step < 1) {
+        throw new CronExpressionError(`Invalid step in ${field.name} "${item}"`);
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  }
+}
@@ -0,0 +1,88 @@
+import OpenAI from 'openai';
+import crypto from 'crypto';
+
+// Turns texts into vectors for similarity search. Vectors of different models are not
+// comparable, so stored vectors are tagged with the model that produced them.
+export interface EmbeddingProvider {
+  readonly model: string;
+  // Cosine similarity from which a question counts as asking what a document describes;
+  // similarity scales differ between models
+  readonly matchThreshold: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly matchThreshold = 0.4;
+  private openai: OpenAI;
+
+  constructor(model = process.env.EMBEDDING_MODEL || 'text-embedding-3-small') {
+    this.model = model;
+    this.openai = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const response = await this.openai.embeddings.create({ model: this.model, input: texts });
+    // Results are returned with the index of their input, not necessarily in order
+    return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+  }
+}
+
+const LOCAL_DIMENSIONS = 512;
+// Question words and SQL keywords that say nothing about what a query is about
+const STOP_WORDS = new Set([
+  'the', 'of', 'and', 'or', 'in', 'on', 'for', 'to', 'by', 'is', 'are', 'was', 'were', 'what', 'which', 'how',
+  'many', 'much', 'me', 'my', 'our', 'show', 'give', 'each', 'per', 'with', 'from', 'as', 'at',
+  'select', 'where', 'group', 'order', 'null', 'left', 'join', 'desc', 'asc', 'coalesce', 'round', 'sum', 'count', 'avg',
+]);
+
+// Deterministic, offline embeddings for tests and environments without an API key. Words and
+// word pairs are hashed into a fixed number of buckets (the hashing trick), so texts sharing
+// terms score high and unrelated ones near zero. It knows nothing about synonyms.
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model = `local-hash-${LOCAL_DIMENSIONS}`;
+  // Short questions share few of a query document's terms, so scores stay low
+  readonly matchThreshold = 0.15;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+    const words = this.tokenize(text);
+    // Each feature counts once, so terms a long SQL text repeats do not drown out the rest
+    const features = new Set([...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)]);
+
+    for (const feature of features) {
+      const hash = crypto.createHash('md5').update(feature).digest();
+      // The sign bit keeps colliding features from only ever adding up
+      vector[hash.readUInt32LE(0) % LOCAL_DIMENSIONS] += hash[4] & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  // Lowercase words split on anything but letters and digits (so AM_REVENUE_DAILY is three
+  // words), with a plural "s" dropped
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+      .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+  }
+}
+
+// EMBEDDING_PROVIDER=openai|local; without it OpenAI is used when an API key is configured
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const configured = process.env.EMBEDDING_PROVIDER;
+  if (configured === 'local' || (!configured && !process.env.OPENAI_API_KEY)) {
+    return new LocalEmbeddingProvider();
+  }
+  return new OpenAIEmbeddingProvider();
+}
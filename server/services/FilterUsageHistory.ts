@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import { getDatabase } from '../database/init.js';
+import type { FilterParams } from './validatedQueries.js';
+
+// A recorded date relative to the day it was requested on:
+// "today", "today-7", "today+1", "month_start" or "month_end"
+interface RelativeDate {
+  $date: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Dates further away than this are kept as they are
+const MAX_RELATIVE_DAYS = 366;
+
+// Counts how often each filter combination of a validated query is requested, so the
+// materialization scheduler can warm the ones dashboards actually open. Dates are stored
+// relative to the request day: a dashboard asking for "today" or "this month" every morning
+// is one combination, not a new one each day.
+export class FilterUsageHistory {
+  async record(qid: string, filters: FilterParams): Promise<void> {
+    const template = this.toTemplate(filters);
+    const db = getDatabase();
+    await db.execute(
+      `INSERT INTO validated_query_requests (id, qid, filter_hash, filters_json, request_count)
+       VALUES (UUID(), ?, ?, ?, 1)
+       ON DUPLICATE KEY UPDATE request_count = request_count + 1, last_requested_at = NOW()`,
+      [qid, this.hash(template), JSON.stringify(template)]
+    );
+  }
+
+  // Most requested combinations of the last sinceDays days, with dates resolved against today
+  async topCombinations(qid: string, limit: number, sinceDays: number): Promise<FilterParams[]> {
+    if (limit < 1) return [];
+
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      `SELECT filters_json FROM validated_query_requests
+       WHERE qid = ? AND last_requested_at >= ?
+       ORDER BY request_count DESC, last_requested_at DESC
+       LIMIT ${Math.floor(limit)}`,
+      [qid, new Date(Date.now() - sinceDays * DAY_MS)]
+    );
+    return (rows as any[]).map(row => this.resolve(this.parseJson(row.filters_json) || {}));
+  }
+
+  // Stable key of a combination, independent of the order of its filters
+  hash(filters: Record<string, unknown>): string {
+    const sorted = Object.keys(filters).sort().reduce((result, key) => {
+      result[key] = filters[key];
+      return result;
+    }, {} as Record<string, unknown>);
+    return crypto.createHash('md5').update(JSON.stringify(sorted)).digest('hex');
+  }
+
+  private toTemplate(filters: FilterParams): Record<string, unknown> {
+    const template: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(filters)) {
+      template[key] = typeof value === 'string' && DATE_PATTERN.test(value) ? this.toRelativeDate(value) : value;
+    }
+    return template;
+  }
+
+  private resolve(template: Record<string, unknown>): FilterParams {
+    const filters: FilterParams = {};
+    for (const [key, value] of Object.entries(template)) {
+      filters[key] = this.isRelativeDate(value) ? this.fromRelativeDate(value) : value;
+    }
+    return filters;
+  }
+
+  // Dates are compared in UTC, like the default date range of validated queries
+  private toRelativeDate(value: string): RelativeDate | string {
+    const date = Date.parse(`${value}T00:00:00Z`);
+    if (Number.isNaN(date)) return value;
+
+    const today = this.today();
+    const days = Math.round((date - today.getTime()) / DAY_MS);
+    if (days === 0) return { $date: 'today' };
+    if (value === this.format(this.monthStart(today))) return { $date: 'month_start' };
+    if (value === this.format(this.monthEnd(today))) return { $date: 'month_end' };
+    if (Math.abs(days) > MAX_RELATIVE_DAYS) return value;
+    return { $date: days < 0 ? `today${days}` : `today+${days}` };
+  }
+
+  private fromRelativeDate(value: RelativeDate): string {
+    const today = this.today();
+    if (value.$date === 'month_start') return this.format(this.monthStart(today));
+    if (value.$date === 'month_end') return this.format(this.monthEnd(today));
+
+    const offset = /^today([+-]\d+)?$/.exec(value.$date);
+    const days = offset?.[1] ? parseInt(offset[1]) : 0;
+    return this.format(new Date(today.getTime() + days * DAY_MS));
+  }
+
+  private isRelativeDate(value: unknown): value is RelativeDate {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+      typeof (value as RelativeDate).$date === 'string';
+  }
+
+  private today(): Date {
+    return new Date(`${new Date().toISOString().split('T')[0]}T00:00:00Z`);
+  }
+
+  private monthStart(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+
+  private monthEnd(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
+  }
+
+  private format(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  // JSON columns come back parsed from mysql2, but text values are accepted too
+  private parseJson(value: unknown): any {
+    return typeof value === 'string' && value ? JSON.parse(value) : value;
+  }
+}
@@ -0,0 +1,389 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../database/init.js';
+import type { FilterParams, ValidatedQuery } from './validatedQueries.js';
+import { CronExpression, CronExpressionError } from './CronExpression.js';
+import { FilterUsageHistory } from './FilterUsageHistory.js';
+import { logger } from '../utils/logger.js';
+
+export interface MaterializationSchedule {
+  id: string;
+  qid: string;
+  cron_expression: string;
+  max_combinations: number;
+  is_active: boolean;
+  next_run_at: Date | null;
+  last_run_at: Date | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ScheduleInput {
+  cron_expression?: string;
+  max_combinations?: number;
+  is_active?: boolean;
+}
+
+export type MaterializationStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+export interface CombinationResult {
+  filters: FilterParams;
+  status: 'succeeded' | 'failed';
+  row_count: number | null;
+  duration_ms: number;
+  error?: string;
+}
+
+export interface MaterializationRun {
+  id: string;
+  qid: string;
+  query_name: string;
+  schedule_id: string | null;
+  query_version: number;
+  status: MaterializationStatus;
+  results: CombinationResult[];
+  error?: string;
+  duration_ms: number;
+}
+
+// Thrown when a query is asked to materialize while its previous run is still going
+export class MaterializationInProgressError extends Error {
+  constructor(queryName: string) {
+    super(`Materialization of ${queryName} is already running`);
+    this.name = 'MaterializationInProgressError';
+  }
+}
+
+// What the scheduler needs from ValidatedQueriesService
+export interface MaterializationExecutor {
+  getValidatedQueries(): Promise<ValidatedQuery[]>;
+  getApprovedQuery(identifier: string): Promise<ValidatedQuery | null>;
+  resolveDefaultFilters(query: ValidatedQuery): Promise<FilterParams>;
+  executeValidatedQuery(
+    qid: string,
+    filters: FilterParams,
+    identity?: undefined,
+    signal?: AbortSignal,
+    options?: { refresh?: boolean }
+  ): Promise<{ data: any[]; version: number }>;
+}
+
+const DEFAULT_MAX_COMBINATIONS = 5;
+const MAX_COMBINATIONS_LIMIT = 50;
+// Filter combinations refreshed at the same time across all runs (MATERIALIZATION_CONCURRENCY overrides)
+const CONCURRENCY = Math.max(1, parseInt(process.env.MATERIALIZATION_CONCURRENCY || '') || 2);
+// Only combinations requested in this many recent days are warmed (MATERIALIZATION_HISTORY_DAYS overrides)
+const HISTORY_DAYS = Math.max(1, parseInt(process.env.MATERIALIZATION_HISTORY_DAYS || '') || 14);
+
+// Shared by every scheduler instance, so the scheduled tick and runs triggered from the API
+// stay within one concurrency limit and never run the same query twice at once
+let activeCombinations = 0;
+const waitingForSlot: Array<() => void> = [];
+const runningQueries = new Set<string>();
+
+// Warms the result cache of validated queries on a cron schedule per query. Each run refreshes
+// the default filters plus the most requested filter combinations, and is kept with its status,
+// duration and errors. Due schedules are claimed in the meta DB, so runs missed during a restart
+// happen on the next tick and two server instances never run the same schedule.
+export class MaterializationScheduler {
+  private usage = new FilterUsageHistory();
+
+  constructor(private executor: MaterializationExecutor) {}
+
+  // Schedules with their query name and the outcome of the latest run
+  async listSchedules(): Promise<any[]> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      `SELECT s.*, q.name AS query_name, m.status AS last_status, m.duration_ms AS last_duration_ms
+       FROM validated_query_schedules s
+       JOIN validated_queries q ON q.id = s.qid
+       LEFT JOIN validated_query_materializations m ON m.id = (
+         SELECT latest.id FROM validated_query_materializations latest
+         WHERE latest.qid = s.qid ORDER BY latest.started_at DESC LIMIT 1
+       )
+       ORDER BY q.name`
+    );
+    return rows as any[];
+  }
+
+  async getSchedule(qid: string): Promise<MaterializationSchedule | null> {
+    const db = getDatabase();
+    const [rows] = await db.execute('SELECT * FROM validated_query_schedules WHERE qid = ?', [qid]);
+    return (rows as MaterializationSchedule[])[0] || null;
+  }
+
+  // Problems with a schedule, one message each; empty when it can be saved
+  checkSchedule(input: ScheduleInput, isNew: boolean): string[] {
+    const problems: string[] = [];
+
+    if (input.cron_expression === undefined) {
+      if (isNew) problems.push('cron_expression is required');
+    } else if (typeof input.cron_expression !== 'string') {
+      problems.push('cron_expression must be a string');
+    } else {
+      try {
+        new CronExpression(input.cron_expression).next();
+      } catch (error) {
+        problems.push(`cron_expression: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (input.max_combinations !== undefined &&
+      (!Number.isInteger(input.max_combinations) || input.max_combinations < 0 || input.max_combinations > MAX_COMBINATIONS_LIMIT)) {
+      problems.push(`max_combinations must be an integer from 0 to ${MAX_COMBINATIONS_LIMIT}`);
+    }
+    if (input.is_active !== undefined && typeof input.is_active !== 'boolean') {
+      problems.push('is_active must be a boolean');
+    }
+
+    return problems;
+  }
+
+  // Create or update the schedule of a query; the next run is computed from the expression
+  async saveSchedule(qid: string, input: ScheduleInput, userId?: string): Promise<MaterializationSchedule> {
+    const existing = await this.getSchedule(qid);
+    const cronExpression = input.cron_expression ?? existing!.cron_expression;
+    const nextRunAt = new CronExpression(cronExpression).next();
+    const db = getDatabase();
+
+    if (existing) {
+      await db.execute(
+        `UPDATE validated_query_schedules
+         SET cron_expression = ?, max_combinations = ?, is_active = ?, next_run_at = ?
+         WHERE id = ?`,
+        [
+          cronExpression,
+          input.max_combinations ?? existing.max_combinations,
+          input.is_active ?? existing.is_active,
+          nextRunAt,
+          existing.id
+        ]
+      );
+    } else {
+      await db.execute(
+        `INSERT INTO validated_query_schedules (id, qid, cron_expression, max_combinations, is_active, next_run_at, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          uuidv4(), qid, cronExpression, input.max_combinations ?? DEFAULT_MAX_COMBINATIONS,
+          input.is_active ?? true, nextRunAt, userId || null
+        ]
+      );
+    }
+
+    return (await this.getSchedule(qid))!;
+  }
+
+  async deleteSchedule(qid: string): Promise<boolean> {
+    const db = getDatabase();
+    const [result] = await db.execute('DELETE FROM validated_query_schedules WHERE qid = ?', [qid]);
+    return (result as any).affectedRows > 0;
+  }
+
+  // Called every minute: claim the schedules that are due and start their runs without
+  // waiting for them. Returns how many runs were started.
+  async tick(now: Date = new Date()): Promise<number> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      `SELECT * FROM validated_query_schedules
+       WHERE is_active = TRUE AND (next_run_at IS NULL OR next_run_at <= ?)`,
+      [now]
+    );
+
+    let started = 0;
+    for (const schedule of rows as MaterializationSchedule[]) {
+      let nextRunAt: Date;
+      try {
+        nextRunAt = new CronExpression(schedule.cron_expression).next(now);
+      } catch (error) {
+        if (!(error instanceof CronExpressionError)) throw error;
+        logger.warn(`⏰ Skipping materialization schedule ${schedule.id}: ${error.message}`);
+        continue;
+      }
+
+      // A schedule that has never been planned only gets its first run time
+      if (!schedule.next_run_at) {
+        await db.execute('UPDATE validated_query_schedules SET next_run_at = ? WHERE id = ? AND next_run_at IS NULL', [nextRunAt, schedule.id]);
+        continue;
+      }
+
+      // Moving next_run_at is the claim: only one instance sees the old value
+      const [result] = await db.execute(
+        'UPDATE validated_query_schedules SET next_run_at = ?, last_run_at = ? WHERE id = ? AND next_run_at = ?',
+        [nextRunAt, now, schedule.id, schedule.next_run_at]
+      );
+      if ((result as any).affectedRows === 0) continue;
+
+      if (runningQueries.has(schedule.qid)) {
+        logger.warn(`⏰ Materialization of ${schedule.qid} is still running, skipping this run`);
+        continue;
+      }
+
+      started++;
+      this.runQuery(schedule.qid, 'schedule', schedule).catch(error => {
+        logger.error(`⏰ Scheduled materialization of ${schedule.qid} failed:`, error);
+      });
+    }
+
+    return started;
+  }
+
+  // Refresh the cache of one approved query: the default filters plus its most requested
+  // filter combinations, at most CONCURRENCY combinations at a time across all runs
+  async runQuery(qid: string, triggeredBy: string, schedule?: MaterializationSchedule | null): Promise<MaterializationRun> {
+    const query = await this.executor.getApprovedQuery(qid);
+    if (!query) {
+      throw new Error('Validated query not found or not approved');
+    }
+    if (runningQueries.has(query.id)) {
+      throw new MaterializationInProgressError(query.name);
+    }
+
+    runningQueries.add(query.id);
+    const started = Date.now();
+    const runId = uuidv4();
+    const db = getDatabase();
+
+    try {
+      if (schedule === undefined) {
+        schedule = await this.getSchedule(query.id);
+      }
+      const combinations = await this.combinationsFor(query, schedule?.max_combinations ?? DEFAULT_MAX_COMBINATIONS);
+
+      await db.execute(
+        `INSERT INTO validated_query_materializations (id, qid, schedule_id, query_version, combinations, triggered_by)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [runId, query.id, schedule?.id || null, query.approved_version, combinations.length, triggeredBy]
+      );
+
+      const results = await Promise.all(
+        combinations.map(filters => this.withSlot(() => this.materializeCombination(query.id, filters)))
+      );
+
+      const failed = results.filter(result => result.status === 'failed');
+      const run: MaterializationRun = {
+        id: runId,
+        qid: query.id,
+        query_name: query.name,
+        schedule_id: schedule?.id || null,
+        query_version: query.approved_version!,
+        status: failed.length === 0 ? 'succeeded' : failed.length === results.length ? 'failed' : 'partial',
+        results,
+        error: failed[0]?.error,
+        duration_ms: Date.now() - started,
+      };
+
+      await db.execute(
+        `UPDATE validated_query_materializations
+         SET status = ?, failed_combinations = ?, results_json = ?, error = ?, duration_ms = ?, finished_at = NOW()
+         WHERE id = ?`,
+        [run.status, failed.length, JSON.stringify(results), run.error || null, run.duration_ms, runId]
+      );
+
+      if (run.status === 'succeeded') {
+        logger.info(`🔥 Materialized ${query.name} v${run.query_version}: ${results.length} filter combinations in ${run.duration_ms}ms`);
+      } else {
+        logger.warn(`🔥 Materialization of ${query.name} v${run.query_version} ${run.status}: ${failed.length}/${results.length} combinations failed (${run.error})`);
+      }
+      return run;
+    } catch (error) {
+      // Leave no run behind as running when the run itself could not complete
+      await db.execute(
+        `UPDATE validated_query_materializations
+         SET status = 'failed', error = ?, duration_ms = ?, finished_at = NOW()
+         WHERE id = ? AND status = 'running'`,
+        [error instanceof Error ? error.message : String(error), Date.now() - started, runId]
+      ).catch(() => undefined);
+      throw error;
+    } finally {
+      runningQueries.delete(query.id);
+    }
+  }
+
+  // Every approved query, whether it has a schedule or not; queries already running are skipped
+  async runAll(triggeredBy: string): Promise<MaterializationRun[]> {
+    const queries = await this.executor.getValidatedQueries();
+    const runs = await Promise.all(queries
+      .filter(query => !runningQueries.has(query.id))
+      .map(query => this.runQuery(query.id, triggeredBy).catch(error => {
+        logger.error(`Failed to materialize ${query.name}:`, error);
+        return null;
+      })));
+    return runs.filter((run): run is MaterializationRun => run !== null);
+  }
+
+  async getRuns(qid: string, limit = 20): Promise<any[]> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      `SELECT * FROM validated_query_materializations WHERE qid = ?
+       ORDER BY started_at DESC
+       LIMIT ${Math.max(1, Math.min(100, Math.floor(limit)))}`,
+      [qid]
+    );
+    return (rows as any[]).map(row => ({ ...row, results_json: this.parseJson(row.results_json) }));
+  }
+
+  // Latest runs across all queries, optionally only those with a given status
+  async getRecentRuns(status?: MaterializationStatus, limit = 50): Promise<any[]> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      `SELECT m.*, q.name AS query_name
+       FROM validated_query_materializations m
+       JOIN validated_queries q ON q.id = m.qid
+       ${status ? 'WHERE m.status = ?' : ''}
+       ORDER BY m.started_at DESC
+       LIMIT ${Math.max(1, Math.min(200, Math.floor(limit)))}`,
+      status ? [status] : []
+    );
+    return (rows as any[]).map(row => ({ ...row, results_json: this.parseJson(row.results_json) }));
+  }
+
+  // The default filters first, then the most requested combinations that differ from them.
+  // Usage is recorded with the filters as resolved, so the defaults are compared resolved too.
+  private async combinationsFor(query: ValidatedQuery, maxCombinations: number): Promise<FilterParams[]> {
+    const combinations: FilterParams[] = [{}];
+    const seen = new Set([this.usage.hash(await this.executor.resolveDefaultFilters(query))]);
+
+    for (const filters of await this.usage.topCombinations(query.id, maxCombinations, HISTORY_DAYS)) {
+      const hash = this.usage.hash(filters);
+      if (!seen.has(hash)) {
+        seen.add(hash);
+        combinations.push(filters);
+      }
+    }
+    return combinations;
+  }
+
+  private async materializeCombination(qid: string, filters: FilterParams): Promise<CombinationResult> {
+    const started = Date.now();
+    try {
+      const result = await this.executor.executeValidatedQuery(qid, filters, undefined, undefined, { refresh: true });
+      return { filters, status: 'succeeded', row_count: result.data.length, duration_ms: Date.now() - started };
+    } catch (error) {
+      return {
+        filters,
+        status: 'failed',
+        row_count: null,
+        duration_ms: Date.now() - started,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async withSlot<T>(task: () => Promise<T>): Promise<T> {
+    while (activeCombinations >= CONCURRENCY) {
+      await new Promise<void>(resolve => waitingForSlot.push(resolve));
+    }
+    activeCombinations++;
+    try {
+      return await task();
+    } finally {
+      activeCombinations--;
+      waitingForSlot.shift()?.();
+    }
+  }
+
+  // JSON columns come back parsed from mysql2, but text values are accepted too
+  private parseJson(value: unknown): any {
+    return typeof value === 'string' && value ? JSON.parse(value) : value;
+  }
+}
@@ -0,0 +1,168 @@
+import { BSON } from 'mongodb';
+import { QueryRejectedError } from './SQLGuard.js';
+
+export type PipelineRejectionCode =
+  | 'EMPTY_QUERY'
+  | 'PARSE_ERROR'
+  | 'INVALID_PIPELINE'
+  | 'FORBIDDEN_STAGE'
+  | 'FORBIDDEN_OPERATOR';
+
+export interface PipelineRejection {
+  code: PipelineRejectionCode;
+  reason: string;
+}
+
+// Agents describe a Mongo query as { "collection": "...", "pipeline": [ ...stages ] }
+export interface MongoAggregation {
+  collection: string;
+  pipeline: Record<string, any>[];
+}
+
+export interface PipelineGuardResult {
+  allowed: boolean;
+  aggregation?: MongoAggregation;
+  collections: string[];
+  rejection?: PipelineRejection;
+}
+
+// Read-only stages; anything else (notably $out and $merge) is refused
+export const ALLOWED_STAGES = [
+  '$match',
+  '$project',
+  '$addFields',
+  '$set',
+  '$unset',
+  '$group',
+  '$sort',
+  '$limit',
+  '$skip',
+  '$unwind',
+  '$count',
+  '$lookup',
+  '$unionWith',
+  '$facet',
+  '$bucket',
+  '$bucketAuto',
+  '$sortByCount',
+  '$replaceRoot',
+  '$replaceWith',
+  '$sample',
+];
+
+// Operators that run server-side JavaScript
+const FORBIDDEN_OPERATORS = ['$where', '$function', '$accumulator'];
+
+export class MongoPipelineGuard {
+  validate(query: string): PipelineGuardResult {
+    if (!query || !query.trim()) {
+      return this.reject('EMPTY_QUERY', 'No MongoDB query was provided.');
+    }
+
+    // Extended JSON so generated pipelines can express dates and ObjectIds
+    let parsed: any;
+    try {
+      parsed = BSON.EJSON.parse(query, { relaxed: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown parse error';
+      return this.reject('PARSE_ERROR', `The query is not valid JSON: ${message}`);
+    }
+
+    if (!parsed || typeof parsed !== 'object' || typeof parsed.collection !== 'string' || !parsed.collection.trim()) {
+      return this.reject('INVALID_PIPELINE', 'The query must be an object with a "collection" name and a "pipeline" array.');
+    }
+
+    if (!Array.isArray(parsed.pipeline)) {
+      return this.reject('INVALID_PIPELINE', 'The "pipeline" must be an array of aggregation stages.');
+    }
+
+    const collections = new Set<string>([parsed.collection]);
+    const violation = this.checkPipeline(parsed.pipeline, collections);
+    if (violation) {
+      return { allowed: false, collections: [], rejection: violation };
+    }
+
+    return {
+      allowed: true,
+      aggregation: { collection: parsed.collection, pipeline: parsed.pipeline },
+      collections: [...collections],
+    };
+  }
+
+  // Throws QueryRejectedError when the pipeline is not read-only
+  assertReadOnly(query: string): PipelineGuardResult {
+    const result = this.validate(query);
+    if (!result.allowed && result.rejection) {
+      throw new QueryRejectedError(result.rejection);
+    }
+    return result;
+  }
+
+  private checkPipeline(pipeline: any[], collections: Set<string>): PipelineRejection | null {
+    for (const stage of pipeline) {
+      if (!stage || typeof stage !== 'object' || Array.isArray(stage) || Object.keys(stage).length !== 1) {
+        return {
+          code: 'INVALID_PIPELINE',
+          reason: 'Each pipeline stage must be an object with exactly one stage operator.',
+        };
+      }
+
+      const [name] = Object.keys(stage);
+      const body = stage[name];
+
+      if (!ALLOWED_STAGES.includes(name)) {
+        return {
+          code: 'FORBIDDEN_STAGE',
+          reason: `The ${name} stage is not allowed. Allowed stages: ${ALLOWED_STAGES.join(', ')}.`,
+        };
+      }
+
+      // Sub-pipelines are held to the same rules, and the collections they read are recorded
+      if (name === '$lookup' || name === '$unionWith') {
+        const from = name === '$unionWith' && typeof body === 'string' ? body : body?.from || body?.coll;
+        if (typeof from === 'string') {
+          collections.add(from);
+        }
+        if (Array.isArray(body?.pipeline)) {
+          const violation = this.checkPipeline(body.pipeline, collections);
+          if (violation) return violation;
+        }
+      }
+
+      if (name === '$facet' && body && typeof body === 'object') {
+        for (const subPipeline of Object.values(body)) {
+          if (!Array.isArray(subPipeline)) {
+            return { code: 'INVALID_PIPELINE', reason: 'Each $facet output must be a pipeline array.' };
+          }
+          const violation = this.checkPipeline(subPipeline, collections);
+          if (violation) return violation;
+        }
+      }
+
+      const operator = this.findForbiddenOperator(body);
+      if (operator) {
+        return {
+          code: 'FORBIDDEN_OPERATOR',
+          reason: `The ${operator} operator runs server-side JavaScript and is not allowed.`,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  private findForbiddenOperator(node: any): string | null {
+    if (!node || typeof node !== 'object') return null;
+
+    for (const [key, value] of Object.entries(node)) {
+      if (FORBIDDEN_OPERATORS.includes(key)) return key;
+      const found = this.findForbiddenOperator(value);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  private reject(code: PipelineRejectionCode, reason: string): PipelineGuardResult {
+    return { allowed: false, collections: [], rejection: { code, reason } };
+  }
+}
@@ -0,0 +1,368 @@
+// Checks that the numbers an answer model wrote are backed by the rows it summarized. Every
+// figure must be a value of the result, or a count, sum, average, minimum or maximum over it
+// (or over a group of it, e.g. one zone's days); percentages may also be shares of a column
+// total or changes between consecutive rows or group totals. Figures off by a little are
+// rewritten to the value they were meant to be, others are flagged in the text.
+
+export type VerificationStatus = 'verified' | 'corrected' | 'unverified' | 'no_figures';
+export type ClaimBasis = 'value' | 'count' | 'sum' | 'avg' | 'min' | 'max' | 'difference' | 'share' | 'change';
+
+export interface NumericClaim {
+  // As written in the answer, e.g. "EGP 1.2M" or "12.5%"
+  text: string;
+  // Position of text in the answer as it was checked, before corrections
+  index: number;
+  value: number;
+  supported: boolean;
+  // How the rows produce the number, for supported and corrected claims
+  basis: ClaimBasis | null;
+  column: string | null;
+  // Replacement written into the answer for a figure close to a single supported value
+  corrected_to?: string;
+}
+
+export interface GroundingVerification {
+  status: VerificationStatus;
+  claims: NumericClaim[];
+}
+
+export interface GroundingResult {
+  // The answer with corrected figures replaced and unsupported ones flagged
+  text: string;
+  verification: GroundingVerification;
+}
+
+export interface GroundingOptions {
+  // Rows the model was shown when it saw only the first ones; their aggregates count too
+  shownRows?: number;
+  // Texts the answer may repeat numbers from without them being claims, e.g. the filter values
+  // the query ran with. Not the question: a number it asks about still has to be in the rows.
+  context?: string[];
+}
+
+interface Candidate {
+  value: number;
+  basis: ClaimBasis;
+  column: string | null;
+  percent: boolean;
+}
+
+interface ParsedNumber {
+  text: string;
+  index: number;
+  value: number;
+  // Smallest step the digits as written can show: rounded or cut off below it
+  unit: number;
+  decimals: number;
+  grouped: boolean;
+  negative: boolean;
+  percent: boolean;
+  multiplier: number;
+  // Digits as written, replaced on correction
+  digits: string;
+}
+
+const MONTH_NAMES = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+// Dates, times and list markers hold digits that are no figures
+const NON_FIGURES = [
+  /\b\d{4}-\d{2}(?:-\d{2})?(?:[T ]\d{2}:\d{2}(?::\d{2})?(?:\.\d+)?Z?)?\b/g,
+  /\b\d{1,2}:\d{2}(?::\d{2})?\b/g,
+  new RegExp(`\\b(?:${MONTH_NAMES})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?\\b`, 'gi'),
+  new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${MONTH_NAMES})\\b`, 'gi'),
+  /^\s*\d+[.)]\s/gm,
+];
+const NUMBER_PATTERN = /(?<![\p{L}\p{N}_.#/-])(-)?((?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?)(?:\s?(%|percent\b|thousand\b|million\b|billion\b)|(k|K|M|mn|bn|B)(?![\p{L}\p{N}]))?(?![\p{L}\p{N}%])/gu;
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3, K: 1e3, thousand: 1e3, M: 1e6, mn: 1e6, million: 1e6, B: 1e9, bn: 1e9, billion: 1e9,
+};
+// Plain whole numbers below this are mostly prose ("top 3", "2 zones"), not figures
+const SMALL_INTEGER_LIMIT = 10;
+// Columns with at most this many distinct values are grouped for per-group aggregates
+const MAX_GROUPS = 50;
+// Group totals compared pairwise for differences and percentage changes; with more groups, and
+// for rows, only neighbours and the first and last are compared
+const MAX_PAIR_GROUPS = 12;
+// Figures only derived ones match, spread over more columns than this, are a coincidence
+const MAX_DERIVED_COLUMNS = 2;
+const DERIVED_BASES: ClaimBasis[] = ['difference', 'share', 'change'];
+// Columns whose values are percentages already
+const PERCENT_COLUMN = /pct|percent|rate|ratio|share/i;
+// Unsupported figures within this share of a supported value are corrected to it
+const CORRECTION_RANGE = 0.05;
+const NUMERIC_TEXT = /^-?\d+(\.\d+)?$/;
+
+export class NumericGroundingVerifier {
+  verify(text: string, rows: any[], options: GroundingOptions = {}): GroundingResult {
+    const known = new Set((options.context || []).flatMap(context => this.parseNumbers(context).map(number => number.value)));
+    const numbers = this.parseNumbers(text).filter(number => !this.isPassThrough(number, known));
+    if (numbers.length === 0) {
+      return { text, verification: { status: 'no_figures', claims: [] } };
+    }
+
+    const candidates = this.candidates(rows, options.shownRows);
+    const claims: NumericClaim[] = [];
+    // Replacements applied from the end so earlier positions stay valid
+    const edits: Array<{ index: number; length: number; replacement: string }> = [];
+
+    for (const number of numbers) {
+      const pool = candidates.filter(candidate => candidate.percent === number.percent);
+      const matched = pool.filter(candidate => this.matches(number, candidate.value));
+      const match = matched.find(candidate => !DERIVED_BASES.includes(candidate.basis))
+        ?? (this.coincidental(matched) ? undefined : matched[0]);
+      if (match) {
+        claims.push({ text: number.text, index: number.index, value: number.value, supported: true, basis: match.basis, column: match.column });
+        continue;
+      }
+      if (matched.length > 0) {
+        claims.push({ text: number.text, index: number.index, value: number.value, supported: false, basis: null, column: null });
+        edits.push({ index: number.index, length: number.text.length, replacement: `${number.text} (unverified)` });
+        continue;
+      }
+
+      const correction = this.correction(number, pool);
+      if (correction) {
+        claims.push({
+          text: number.text,
+          index: number.index,
+          value: number.value,
+          supported: false,
+          basis: correction.candidate.basis,
+          column: correction.candidate.column,
+          corrected_to: correction.text,
+        });
+        edits.push({ index: number.index, length: number.text.length, replacement: correction.text });
+      } else {
+        claims.push({ text: number.text, index: number.index, value: number.value, supported: false, basis: null, column: null });
+        edits.push({ index: number.index, length: number.text.length, replacement: `${number.text} (unverified)` });
+      }
+    }
+
+    let verified = text;
+    for (const edit of edits.sort((a, b) => b.index - a.index)) {
+      verified = verified.slice(0, edit.index) + edit.replacement + verified.slice(edit.index + edit.length);
+    }
+
+    const status: VerificationStatus = claims.some(claim => !claim.supported && !claim.corrected_to)
+      ? 'unverified'
+      : claims.some(claim => claim.corrected_to) ? 'corrected' : 'verified';
+    return { text: verified, verification: { status, claims } };
+  }
+
+  private parseNumbers(text: string): ParsedNumber[] {
+    // Blanked rather than removed, so positions stay those of the original text
+    let masked = text;
+    for (const pattern of NON_FIGURES) {
+      masked = masked.replace(pattern, found => ' '.repeat(found.length));
+    }
+
+    const numbers: ParsedNumber[] = [];
+    for (const match of masked.matchAll(NUMBER_PATTERN)) {
+      const [found, minus, digits, spacedSuffix, attachedSuffix] = match;
+      const suffix = spacedSuffix || attachedSuffix;
+      const percent = suffix === '%' || suffix === 'percent';
+      const multiplier = suffix && !percent ? MULTIPLIERS[suffix] : 1;
+      const [whole, fraction = ''] = digits.replace(/,/g, '').split('.');
+
+      let unit = fraction ? 10 ** -fraction.length : 1;
+      // "12,300" may be 12,345 rounded; two significant digits are always taken at face value
+      const trailingZeros = fraction ? 0 : (whole.match(/0+$/)?.[0].length ?? 0);
+      if (whole.length >= 4 && trailingZeros > 0) {
+        unit = 10 ** Math.min(trailingZeros, whole.length - 2);
+      }
+
+      numbers.push({
+        text: found,
+        index: match.index!,
+        value: (minus ? -1 : 1) * parseFloat(`${whole}.${fraction || 0}`) * multiplier,
+        unit: unit * multiplier,
+        decimals: fraction.length,
+        grouped: digits.includes(','),
+        negative: !!minus,
+        percent,
+        multiplier,
+        digits,
+      });
+    }
+    return numbers;
+  }
+
+  // Years, small counts and numbers repeated from the context are not checked
+  private isPassThrough(number: ParsedNumber, known: Set<number>): boolean {
+    if (known.has(number.value)) return true;
+    const plainInteger = !number.percent && number.multiplier === 1 && number.decimals === 0 && !number.grouped;
+    if (!plainInteger) return false;
+    return Math.abs(number.value) < SMALL_INTEGER_LIMIT || (number.value >= 1900 && number.value <= 2100);
+  }
+
+  // Rounded or cut off at the digits shown, sign left out ("fell by 12%")
+  private matches(number: ParsedNumber, value: number): boolean {
+    const target = number.negative ? value : Math.abs(value);
+    const epsilon = number.unit * 1e-9;
+    const rounded = Math.abs(target - number.value) <= number.unit / 2 + epsilon;
+    const cutOff = Math.abs(target) - Math.abs(number.value) >= -epsilon && Math.abs(target) - Math.abs(number.value) < number.unit;
+    return rounded || (Math.sign(target) === Math.sign(number.value) && cutOff);
+  }
+
+  // Differences, shares and changes of many columns can land on almost any number
+  private coincidental(matched: Candidate[]): boolean {
+    const columns = new Set(matched.map(candidate => candidate.column?.split(' by ')[0] ?? null));
+    return columns.size > MAX_DERIVED_COLUMNS;
+  }
+
+  // The supported value a figure was meant to be: only when every candidate close enough
+  // reads the same at the figure's precision
+  private correction(number: ParsedNumber, pool: Candidate[]): { candidate: Candidate; text: string } | null {
+    if (number.value === 0) return null;
+    const near = pool
+      .filter(candidate => Math.abs(Math.abs(candidate.value) - Math.abs(number.value)) <= Math.abs(number.value) * CORRECTION_RANGE)
+      .sort((a, b) => Math.abs(Math.abs(a.value) - Math.abs(number.value)) - Math.abs(Math.abs(b.value) - Math.abs(number.value)));
+    if (near.length === 0) return null;
+
+    const texts = new Set(near.map(candidate => this.formatLike(number, candidate.value)));
+    if (texts.size !== 1) return null;
+    const text = this.formatLike(number, near[0].value);
+    return text === number.text ? null : { candidate: near[0], text };
+  }
+
+  private formatLike(number: ParsedNumber, value: number): string {
+    const target = number.negative ? value : Math.abs(value);
+    const scaled = Math.round(target / number.unit) * number.unit / number.multiplier;
+    const digits = Math.abs(scaled).toLocaleString('en-US', {
+      minimumFractionDigits: number.decimals,
+      maximumFractionDigits: number.decimals,
+      useGrouping: number.grouped,
+    });
+    return number.text.replace(`${number.negative ? '-' : ''}${number.digits}`, `${scaled < 0 ? '-' : ''}${digits}`);
+  }
+
+  // Everything the rows can say: values, and counts, sums, averages, extremes over all rows,
+  // the rows the model saw and each group; percentages as shares and changes
+  private candidates(rows: any[], shownRows?: number): Candidate[] {
+    const candidates: Candidate[] = [];
+    const add = (value: number, basis: ClaimBasis, column: string | null, percent = false) => {
+      if (Number.isFinite(value)) candidates.push({ value, basis, column, percent });
+    };
+
+    const columns = [...new Set(rows.flatMap(row => row && typeof row === 'object' ? Object.keys(row) : []))];
+    const numericColumns = columns.filter(column => rows.some(row => this.numeric(row?.[column]) !== null)
+      && rows.every(row => row?.[column] === null || row?.[column] === undefined || this.numeric(row[column]) !== null));
+    const groupColumns = columns.filter(column => !numericColumns.includes(column));
+    const columnValues = new Map(numericColumns.map(column => [
+      column,
+      rows.map(row => this.numeric(row?.[column])).filter((value): value is number => value !== null),
+    ]));
+    // Values of a percentage column are read as they are, ratios (all within ±1) times 100
+    const percentScales = new Map(numericColumns.map(column => [column, [
+      ...(PERCENT_COLUMN.test(column) ? [1] : []),
+      ...(columnValues.get(column)!.every(value => Math.abs(value) <= 1) ? [100] : []),
+    ]]));
+
+    const rowSets = [rows];
+    if (shownRows !== undefined && shownRows < rows.length) rowSets.push(rows.slice(0, shownRows));
+
+    for (const set of rowSets) {
+      add(set.length, 'count', null);
+      for (const column of numericColumns) {
+        this.aggregate(set, column, add, percentScales.get(column)!);
+      }
+      for (const groupColumn of groupColumns) {
+        const groups = new Map<string, any[]>();
+        for (const row of set) {
+          const key = String(row?.[groupColumn]);
+          if (!groups.has(key)) groups.set(key, []);
+          groups.get(key)!.push(row);
+        }
+        if (groups.size > MAX_GROUPS) continue;
+        add(groups.size, 'count', groupColumn);
+        // One row per value: the group aggregates are the values themselves
+        if (groups.size === set.length) continue;
+        for (const group of groups.values()) {
+          add(group.length, 'count', groupColumn);
+          for (const column of numericColumns) {
+            this.aggregate(group, column, add, percentScales.get(column)!, groupColumn);
+          }
+        }
+      }
+    }
+
+    for (const column of numericColumns) {
+      const values = columnValues.get(column)!;
+      const total = values.reduce((sum, value) => sum + value, 0);
+      for (const value of values) {
+        add(value, 'value', column);
+        for (const scale of percentScales.get(column)!) add(value * scale, 'value', column, true);
+        if (total !== 0) add(value / total * 100, 'share', column, true);
+      }
+
+      // Group totals as shares of the column total, and changes between them
+      for (const groupColumn of groupColumns) {
+        const sums = new Map<string, number>();
+        for (const row of rows) {
+          const value = this.numeric(row?.[column]);
+          if (value !== null) sums.set(String(row?.[groupColumn]), (sums.get(String(row?.[groupColumn])) || 0) + value);
+        }
+        if (sums.size > MAX_GROUPS) continue;
+        // One row per value: these are the rows, compared below
+        if (sums.size === rows.length) continue;
+        for (const sum of sums.values()) {
+          if (total !== 0) add(sum / total * 100, 'share', column, true);
+        }
+        this.pairs([...sums.values()], column, add, sums.size <= MAX_PAIR_GROUPS);
+      }
+      this.pairs(values, column, add, false);
+    }
+
+    return candidates;
+  }
+
+  private aggregate(
+    rows: any[],
+    column: string,
+    add: (value: number, basis: ClaimBasis, column: string | null, percent?: boolean) => void,
+    percentScales: number[],
+    groupColumn?: string
+  ): void {
+    const values = rows.map(row => this.numeric(row?.[column])).filter((value): value is number => value !== null);
+    if (values.length === 0) return;
+    const sum = values.reduce((total, value) => total + value, 0);
+    const label = groupColumn ? `${column} by ${groupColumn}` : column;
+    add(sum, 'sum', label);
+    add(sum / values.length, 'avg', label);
+    for (const scale of percentScales) add(sum / values.length * scale, 'avg', label, true);
+    add(values.reduce((min, value) => Math.min(min, value)), 'min', label);
+    add(values.reduce((max, value) => Math.max(max, value)), 'max', label);
+  }
+
+  // Differences and percentage changes between any two values, or, in result order, between
+  // neighbours (e.g. day over day) and between the first and last (over the period)
+  private pairs(
+    values: number[],
+    column: string,
+    add: (value: number, basis: ClaimBasis, column: string | null, percent?: boolean) => void,
+    everyPair: boolean
+  ): void {
+    const pairs: Array<[number, number]> = [];
+    if (everyPair) {
+      for (let from = 0; from < values.length; from++) {
+        for (let to = 0; to < values.length; to++) {
+          if (from !== to) pairs.push([from, to]);
+        }
+      }
+    } else {
+      for (let i = 0; i + 1 < values.length; i++) pairs.push([i, i + 1], [i + 1, i]);
+      if (values.length > 2) pairs.push([0, values.length - 1], [values.length - 1, 0]);
+    }
+
+    for (const [from, to] of pairs) {
+      add(values[to] - values[from], 'difference', column);
+      if (values[from] !== 0) add((values[to] - values[from]) / Math.abs(values[from]) * 100, 'change', column, true);
+    }
+  }
+
+  // mysql2 returns DECIMAL columns as strings
+  private numeric(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value === 'string' && NUMERIC_TEXT.test(value.trim())) return parseFloat(value);
+    return null;
+  }
+}
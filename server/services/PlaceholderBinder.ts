@@ -0,0 +1,242 @@
+import type { FilterDimension, FilterParams } from './validatedQueries.js';
+
+export type BindDialect = 'mysql' | 'postgres';
+
+export interface BoundQuery {
+  sql: string;
+  params: any[];
+}
+
+export interface FilterValidationIssue {
+  param: string;
+  message: string;
+}
+
+// Thrown when a filter value does not match its filter dimension; routes answer 400 with the issues
+export class FilterValidationError extends Error {
+  issues: FilterValidationIssue[];
+
+  constructor(issues: FilterValidationIssue[]) {
+    super(`Invalid filters: ${issues.map(issue => `${issue.param} ${issue.message}`).join('; ')}`);
+    this.name = 'FilterValidationError';
+    this.issues = issues;
+  }
+}
+
+type Scalar = string | number | boolean | null;
+
+// Validated filter values by placeholder name, as bind() takes them
+export type BindValues = Record<string, Scalar | Scalar[]>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_TEXT_LENGTH = 255;
+const MAX_LIST_LENGTH = 500;
+
+// The date_range dimension is bound through these two parameters
+const DATE_RANGE_PARAMS = ['start_date', 'end_date'];
+
+// Turns :name placeholders of validated SQL into driver placeholders (? for mysql2, $n for pg)
+// with the values passed separately. List values are expanded into IN (...) with one bound
+// parameter per item; nothing from a filter value is ever written into the SQL text.
+export class PlaceholderBinder {
+  // Check every filter value against the control of its filter dimension and normalize it:
+  // multiselect values become lists, empty values become null.
+  validate(filters: FilterParams, dimensions: FilterDimension[]): BindValues {
+    const controls = new Map<string, FilterDimension['control']>();
+    for (const dimension of dimensions) {
+      if (dimension.control === 'date_range') {
+        DATE_RANGE_PARAMS.forEach(param => controls.set(param, 'date_range'));
+      } else {
+        controls.set(dimension.sql_param, dimension.control);
+      }
+    }
+
+    const issues: FilterValidationIssue[] = [];
+    const values: BindValues = {};
+
+    for (const [param, raw] of Object.entries(filters)) {
+      const control = controls.get(param);
+      const issue = (message: string) => issues.push({ param, message });
+
+      if (raw === undefined || raw === null || raw === '' || (Array.isArray(raw) && raw.length === 0)) {
+        values[param] = null;
+        continue;
+      }
+
+      if (control === 'multiselect') {
+        const list = Array.isArray(raw) ? raw : [raw];
+        if (list.length > MAX_LIST_LENGTH) {
+          issue(`accepts at most ${MAX_LIST_LENGTH} values`);
+        } else if (!list.every(item => this.isScalarValue(item))) {
+          issue('must be a list of strings or numbers');
+        } else {
+          values[param] = list;
+        }
+        continue;
+      }
+
+      if (Array.isArray(raw) || !this.isScalarValue(raw)) {
+        issue(control === 'select' ? 'accepts a single value' : 'must be a string or number');
+        continue;
+      }
+
+      if (control === 'date_range' && (typeof raw !== 'string' || !this.isValidDate(raw))) {
+        issue('must be a date in YYYY-MM-DD format');
+        continue;
+      }
+
+      if (control === 'text' && String(raw).length > MAX_TEXT_LENGTH) {
+        issue(`must be at most ${MAX_TEXT_LENGTH} characters`);
+        continue;
+      }
+
+      values[param] = raw as Scalar;
+    }
+
+    if (issues.length > 0) {
+      throw new FilterValidationError(issues);
+    }
+    return values;
+  }
+
+  bind(sql: string, values: BindValues, dialect: BindDialect): BoundQuery {
+    const params: any[] = [];
+    // Called right after the value is pushed, so $n is its 1-based position
+    const marker = () => (dialect === 'mysql' ? '?' : `$${params.length}`);
+
+    let output = '';
+    let index = 0;
+
+    while (index < sql.length) {
+      const skipped = this.skipLiteralOrComment(sql, index);
+      if (skipped > index) {
+        output += sql.slice(index, skipped);
+        index = skipped;
+        continue;
+      }
+
+      const match = sql[index] === ':' && sql[index - 1] !== ':' && sql[index + 1] !== ':'
+        ? /^:([a-zA-Z_][a-zA-Z0-9_]*)/.exec(sql.slice(index))
+        : null;
+      if (!match) {
+        output += sql[index];
+        index += 1;
+        continue;
+      }
+
+      const name = match[1];
+      const value = values[name] ?? null;
+      const rest = sql.slice(index + match[0].length);
+      index += match[0].length;
+
+      // ":param IS [NOT] NULL" only asks whether the filter is set
+      if (/^\s+IS\s+(NOT\s+)?NULL\b/i.test(rest)) {
+        params.push(value === null ? null : 1);
+        output += dialect === 'mysql' ? '?' : `CAST(${marker()} AS INTEGER)`;
+        continue;
+      }
+
+      if (!Array.isArray(value)) {
+        params.push(value);
+        output += marker();
+        continue;
+      }
+
+      const items = value.map(item => {
+        params.push(item);
+        return marker();
+      }).join(', ');
+
+      // "col = :param" / "col != :param" become IN / NOT IN, "IN (:param)" is expanded in place
+      const operator = /(!=|<>|=)\s*$/.exec(output);
+      if (operator) {
+        output = output.slice(0, operator.index) + (operator[1] === '=' ? 'IN' : 'NOT IN') + ` (${items})`;
+      } else if (/\bIN\s*\(\s*$/i.test(output)) {
+        output += items;
+      } else {
+        throw new FilterValidationError([{
+          param: name,
+          message: 'has several values but is not used in an equality or IN comparison',
+        }]);
+      }
+    }
+
+    return { sql: output, params };
+  }
+
+  // Names of the :name placeholders used in the SQL, outside literals and comments
+  placeholders(sql: string): string[] {
+    const names = new Set<string>();
+    let index = 0;
+
+    while (index < sql.length) {
+      const skipped = this.skipLiteralOrComment(sql, index);
+      if (skipped > index) {
+        index = skipped;
+        continue;
+      }
+
+      const match = sql[index] === ':' && sql[index - 1] !== ':' && sql[index + 1] !== ':'
+        ? /^:([a-zA-Z_][a-zA-Z0-9_]*)/.exec(sql.slice(index))
+        : null;
+      if (match) {
+        names.add(match[1]);
+        index += match[0].length;
+      } else {
+        index += 1;
+      }
+    }
+
+    return [...names];
+  }
+
+  private isScalarValue(value: unknown): value is string | number | boolean {
+    return typeof value === 'string' ||
+      (typeof value === 'number' && Number.isFinite(value)) ||
+      typeof value === 'boolean';
+  }
+
+  private isValidDate(value: string): boolean {
+    if (!DATE_PATTERN.test(value)) return false;
+    // Date rolls 2025-02-31 over to March instead of failing, so compare it back to the input
+    const parsed = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+  }
+
+  // Returns the index after a string literal, quoted identifier or comment starting at index
+  private skipLiteralOrComment(sql: string, index: number): number {
+    const char = sql[index];
+
+    if (char === "'" || char === '"' || char === '`') {
+      let end = index + 1;
+      while (end < sql.length) {
+        if (sql[end] === '\\' && char !== '`') {
+          end += 2;
+          continue;
+        }
+        if (sql[end] === char) {
+          // Doubled quotes are an escaped quote
+          if (sql[end + 1] === char) {
+            end += 2;
+            continue;
+          }
+          return end + 1;
+        }
+        end += 1;
+      }
+      return sql.length;
+    }
+
+    if (char === '-' && sql[index + 1] === '-') {
+      const end = sql.indexOf('\n', index);
+      return end === -1 ? sql.length : end;
+    }
+
+    if (char === '/' && sql[index + 1] === '*') {
+      const end = sql.indexOf('*/', index + 2);
+      return end === -1 ? sql.length : end + 2;
+    }
+
+    return index;
+  }
+}
@@ -0,0 +1,307 @@
+import { getDatabase } from '../database/init.js';
+import { ConnectorService, type Connector } from './ConnectorService.js';
+import { ALLOWED_STAGES } from './MongoPipelineGuard.js';
+import { SchemaIntrospector, type ConnectorSchema, type SchemaTable } from './SchemaIntrospector.js';
+import { logger } from '../utils/logger.js';
+
+export interface PromptContextOptions {
+  connector?: Connector | null;
+  conversationHistory?: Array<{ type: string; content: string; sql?: string }>;
+  maxTokens?: number;
+}
+
+export interface PromptContext {
+  text: string;
+  tables: string[];
+  examples: string[];
+  estimatedTokens: number;
+}
+
+const DEFAULT_MAX_TOKENS = 1800;
+// Share of the budget reserved for the schema; examples get the rest
+const SCHEMA_BUDGET_SHARE = 0.65;
+const MAX_EXAMPLES = 3;
+const MAX_COLUMNS_PER_TABLE = 40;
+const DELIVERIES_SCHEMA_TTL = 6 * 60 * 60 * 1000; // 6 hours
+
+const DIALECT_LABELS: Record<string, string> = {
+  mysql: 'MySQL',
+  postgres: 'PostgreSQL',
+  redshift: 'Amazon Redshift',
+  mongo: 'MongoDB',
+};
+
+const DIALECT_RULES: Record<string, string> = {
+  mysql: `- Generate MySQL compatible syntax only
+- Use DATE_FORMAT(created_at, '%Y-%m') for monthly grouping, NOT DATE_TRUNC
+- Avoid YEAR(col), DATE(col) or DATE_SUB(col, ...) on filtered date columns as they prevent index usage; use BETWEEN instead
+  ❌ WHERE YEAR(created_at) = 2024
+  ✅ WHERE created_at BETWEEN '2024-01-01' AND '2024-12-31 23:59:59'`,
+  postgres: `- Generate PostgreSQL syntax only
+- Use DATE_TRUNC('month', col) for time grouping and double quotes for mixed-case identifiers`,
+  redshift: `- Generate Amazon Redshift syntax only
+- Use DATE_TRUNC('month', col) for time grouping; avoid PostgreSQL features Redshift lacks (e.g. generate_series, FILTER clauses)`,
+};
+
+// Notes for the default deliveries database, formerly repeated in each agent
+const DELIVERIES_NOTES = `- For delivery questions prefer the view new_deliveries_dashboard_cdc (one row per delivery with sender, receiver and address fields)
+- Use created_at for delivery dates, NOT delivery_date`;
+
+// Used when the deliveries database cannot be crawled
+const DELIVERIES_FALLBACK_SCHEMA: ConnectorSchema = {
+  kind: 'mysql',
+  introspectedAt: '',
+  tables: [{
+    name: 'new_deliveries_dashboard_cdc',
+    rowEstimate: null,
+    columns: [
+      'delivery_id', 'tracking_number', 'sender_id', 'sender_name', 'cod_amount', 'created_at', 'updated_at',
+      'receiver_id', 'receiver_first_name', 'receiver_last_name', 'receiver_full_name', 'receiver_phone',
+      'dropoff_first_line', 'dropoff_state', 'dropoff_country_name', 'dropoff_city_name',
+      'pickup_first_line', 'pickup_state', 'pickup_country_name', 'pickup_city_name',
+    ].map(name => ({ name, type: '', nullable: true })),
+  }],
+};
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'what', 'which', 'who', 'how', 'many', 'much', 'show', 'give', 'list',
+  'get', 'all', 'per', 'by', 'of', 'in', 'on', 'to', 'me', 'my', 'our', 'is', 'are', 'was', 'were', 'last',
+  'this', 'that', 'these', 'those', 'each', 'top', 'over', 'between', 'than', 'please', 'can', 'you',
+]);
+
+let deliveriesSchemaCache: { schema: ConnectorSchema; loadedAt: number } | null = null;
+
+// Builds the schema and example section of SQL-generation prompts, shared by every agent.
+// Tables, columns and validated queries are ranked against the question and cut to a token budget.
+export class PromptContextBuilder {
+  private introspector = new SchemaIntrospector();
+
+  async build(question: string, options: PromptContextOptions = {}): Promise<PromptContext> {
+    const { connector, conversationHistory = [] } = options;
+    const maxTokens = options.maxTokens || DEFAULT_MAX_TOKENS;
+    const kind = connector?.kind || 'mysql';
+    const label = DIALECT_LABELS[kind] || ConnectorService.getDialect(connector);
+
+    const schema = connector ? this.parseSchema(connector.schema_json) : await this.getDeliveriesSchema();
+    const questionTerms = this.terms(question);
+    const historySql = conversationHistory.filter(msg => msg.sql).slice(-3).map(msg => msg.sql!.toLowerCase());
+
+    const sections: string[] = [this.sourceHeader(connector, label)];
+
+    let tables: string[] = [];
+    if (schema && schema.tables.length > 0) {
+      const ranked = this.rankTables(schema.tables, questionTerms, historySql);
+      const rendered = this.renderWithinBudget(ranked, Math.floor(maxTokens * SCHEMA_BUDGET_SHARE));
+      tables = rendered.tables;
+      sections.push(`RELEVANT ${kind === 'mongo' ? 'COLLECTIONS' : 'TABLES'} (${tables.length} of ${schema.tables.length}):\n${rendered.text}`);
+    } else if (connector?.schema_json) {
+      // Hand-uploaded schema files have no fixed shape, so they are passed through as text
+      const raw = typeof connector.schema_json === 'string' ? connector.schema_json : JSON.stringify(connector.schema_json);
+      const maxChars = Math.floor(maxTokens * SCHEMA_BUDGET_SHARE) * 4;
+      sections.push(`SCHEMA:\n${raw.length > maxChars ? `${raw.slice(0, maxChars)}...` : raw}`);
+    } else if (connector) {
+      sections.push(`No schema is recorded for this connector; use only ${kind === 'mongo' ? 'collections' : 'tables'} the user names explicitly.`);
+    }
+
+    let examples: string[] = [];
+    if (kind !== 'mongo') {
+      const used = this.estimateTokens(sections.join('\n\n'));
+      const exampleBlock = await this.buildExamples(questionTerms, tables, connector, Math.max(0, maxTokens - used));
+      examples = exampleBlock.names;
+      if (exampleBlock.text) sections.push(exampleBlock.text);
+    }
+
+    const text = sections.join('\n\n');
+    return { text, tables, examples, estimatedTokens: this.estimateTokens(text) };
+  }
+
+  private sourceHeader(connector: Connector | null | undefined, label: string): string {
+    if (connector?.kind === 'mongo') {
+      return `DATA SOURCE: "${connector.name}" (MongoDB).
+Do NOT write SQL. Respond with ONLY a JSON object describing a read-only aggregation:
+{"collection": "<collection name>", "pipeline": [ ...stages ]}
+Allowed stages: ${ALLOWED_STAGES.join(', ')}. Use extended JSON such as {"$date": "2024-01-01T00:00:00Z"} for dates.`;
+    }
+
+    const rules = DIALECT_RULES[connector?.kind || 'mysql'] || '';
+    if (!connector) {
+      return `DATA SOURCE: Bosta deliveries database (MySQL).\nSQL RULES:\n${rules}\n${DELIVERIES_NOTES}`;
+    }
+    return `DATA SOURCE: "${connector.name}" (${label}).
+Only reference tables from this data source.
+SQL RULES:
+${rules}`;
+  }
+
+  private async getDeliveriesSchema(): Promise<ConnectorSchema> {
+    if (deliveriesSchemaCache && Date.now() - deliveriesSchemaCache.loadedAt < DELIVERIES_SCHEMA_TTL) {
+      return deliveriesSchemaCache.schema;
+    }
+
+    try {
+      const schema = await this.introspector.introspectDeliveriesDatabase();
+      deliveriesSchemaCache = { schema, loadedAt: Date.now() };
+      return schema;
+    } catch (error) {
+      logger.warn('Could not introspect the deliveries database, using the built-in view description:', error);
+      return DELIVERIES_FALLBACK_SCHEMA;
+    }
+  }
+
+  private parseSchema(schemaJson: any): ConnectorSchema | null {
+    if (!schemaJson) return null;
+    try {
+      const parsed = typeof schemaJson === 'string' ? JSON.parse(schemaJson) : schemaJson;
+      return Array.isArray(parsed?.tables) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Score tables by overlap with the question: table names weigh most, then sampled values, then columns.
+  // Tables used by recent SQL in the conversation and tables they reference get a smaller boost.
+  private rankTables(tables: SchemaTable[], questionTerms: Set<string>, historySql: string[]): SchemaTable[] {
+    const scores = new Map<string, number>();
+
+    for (const table of tables) {
+      let score = 0;
+      for (const term of this.terms(table.name.replace(/[._]/g, ' '))) {
+        if (questionTerms.has(term)) score += 3;
+      }
+      for (const column of table.columns) {
+        for (const term of this.terms(column.name.replace(/[._]/g, ' '))) {
+          if (questionTerms.has(term)) score += 1;
+        }
+        for (const value of column.sampleValues || []) {
+          if (questionTerms.has(String(value).toLowerCase())) score += 2;
+        }
+      }
+      if (historySql.some(sql => sql.includes(table.name.toLowerCase()))) score += 2;
+      scores.set(table.name, score);
+    }
+
+    for (const table of tables) {
+      if ((scores.get(table.name) || 0) <= 0) continue;
+      for (const column of table.columns) {
+        if (column.references && scores.has(column.references.table)) {
+          scores.set(column.references.table, scores.get(column.references.table)! + 1);
+        }
+      }
+    }
+
+    // Unmatched tables are only listed when nothing matched; the stable sort keeps schema order for ties
+    const matched = tables.filter(table => (scores.get(table.name) || 0) > 0);
+    const candidates = matched.length > 0 ? matched : tables;
+    return [...candidates].sort((a, b) => (scores.get(b.name) || 0) - (scores.get(a.name) || 0));
+  }
+
+  private renderWithinBudget(tables: SchemaTable[], budget: number): { text: string; tables: string[] } {
+    const lines: string[] = [];
+    const included: string[] = [];
+    let used = 0;
+
+    for (const table of tables) {
+      const line = this.renderTable(table);
+      const cost = this.estimateTokens(line);
+      if (included.length > 0 && used + cost > budget) break;
+      lines.push(line);
+      included.push(table.name);
+      used += cost;
+    }
+
+    return { text: lines.join('\n'), tables: included };
+  }
+
+  // orders (~1200 rows): id int PK, status varchar {pending|done}, user_id int -> users.id
+  private renderTable(table: SchemaTable): string {
+    const columns = table.columns.slice(0, MAX_COLUMNS_PER_TABLE).map(column => {
+      let text = column.type ? `${column.name} ${column.type}` : column.name;
+      if (column.primaryKey) text += ' PK';
+      if (column.references) text += ` -> ${column.references.table}.${column.references.column}`;
+      if (column.sampleValues?.length) text += ` {${column.sampleValues.join('|')}}`;
+      return text;
+    });
+    if (table.columns.length > MAX_COLUMNS_PER_TABLE) {
+      columns.push(`...(+${table.columns.length - MAX_COLUMNS_PER_TABLE} more)`);
+    }
+    const rows = table.rowEstimate !== null ? ` (~${table.rowEstimate} rows)` : '';
+    return `${table.name}${rows}: ${columns.join(', ')}`;
+  }
+
+  // Validated queries are written for the deliveries database, so they are only used as
+  // examples when they read tables that exist in the current data source
+  private async buildExamples(
+    questionTerms: Set<string>,
+    tables: string[],
+    connector: Connector | null | undefined,
+    budget: number
+  ): Promise<{ text: string; names: string[] }> {
+    if (budget <= 0 || tables.length === 0) return { text: '', names: [] };
+
+    let queries: any[];
+    try {
+      const db = getDatabase();
+      // Only approved versions are examples, never drafts under review
+      const [rows] = await db.execute(
+        `SELECT v.name, v.sql_text
+         FROM validated_queries q
+         JOIN validated_query_versions v ON v.qid = q.id AND v.version = q.approved_version
+         WHERE q.active = TRUE`
+      );
+      queries = rows as any[];
+    } catch (error) {
+      logger.warn('Could not load validated query examples:', error);
+      return { text: '', names: [] };
+    }
+
+    const tableNames = tables.map(name => name.toLowerCase());
+    const scored = queries
+      .map(query => {
+        const sql = String(query.sql_text).toLowerCase();
+        const sharedTables = tableNames.filter(name => new RegExp(`\\b${name.replace(/[.$]/g, '\\$&')}\\b`).test(sql)).length;
+        let score = sharedTables * 2;
+        for (const term of this.terms(String(query.name).replace(/_/g, ' '))) {
+          if (questionTerms.has(term)) score += 3;
+        }
+        return { query, sharedTables, score };
+      })
+      .filter(entry => entry.sharedTables > 0 && (!connector || entry.score > 0))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_EXAMPLES);
+
+    const blocks: string[] = [];
+    const names: string[] = [];
+    let used = 0;
+    for (const { query } of scored) {
+      const block = `-- ${query.name}\n${String(query.sql_text).trim()}`;
+      const cost = this.estimateTokens(block);
+      if (used + cost > budget) continue;
+      blocks.push(block);
+      names.push(query.name);
+      used += cost;
+    }
+
+    if (blocks.length === 0) return { text: '', names };
+    return {
+      text: `VALIDATED EXAMPLES (approved by the data team; :name placeholders are filters, replace them with literal values):\n${blocks.join('\n\n')}`,
+      names,
+    };
+  }
+
+  private terms(text: string): Set<string> {
+    const terms = new Set<string>();
+    for (const word of text.toLowerCase().split(/[^a-z0-9]+/)) {
+      if (word.length < 2 || STOPWORDS.has(word)) continue;
+      terms.add(word);
+      // Crude singular form so "deliveries" matches "delivery" and "orders" matches "order"
+      if (word.endsWith('ies') && word.length > 4) terms.add(`${word.slice(0, -3)}y`);
+      else if (word.endsWith('s') && word.length > 3) terms.add(word.slice(0, -1));
+    }
+    return terms;
+  }
+
+  // Roughly four characters per token for English text and SQL
+  private estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+}
@@ -0,0 +1,50 @@
+import type { Request, Response } from 'express';
+import { logger } from '../utils/logger.js';
+
+interface TrackedRequest {
+  userId: string;
+  controller: AbortController;
+}
+
+// In-flight chat and query requests, keyed by the client-generated requestId
+const inFlight = new Map<string, TrackedRequest>();
+
+// Returns a signal that aborts when the client calls the cancel endpoint or disconnects
+// before the response is sent, so running statements are stopped and their connections freed.
+export function trackRequest(req: Request, res: Response, requestId: string | undefined, userId: string): AbortSignal {
+  const controller = new AbortController();
+  const id = requestId || null;
+
+  // A reused id replaces the user's own earlier request; another user's request under the same
+  // id is left running and keeps the id, the new one then only stops on disconnect
+  const existing = id ? inFlight.get(id) : undefined;
+  if (id && (!existing || existing.userId === userId)) {
+    existing?.controller.abort();
+    inFlight.set(id, { userId, controller });
+  }
+
+  res.on('close', () => {
+    if (!res.writableFinished && !controller.signal.aborted) {
+      logger.info(`🔌 Client went away${id ? ` from request ${id}` : ''} - cancelling its queries`);
+      controller.abort();
+    }
+    if (id && inFlight.get(id)?.controller === controller) {
+      inFlight.delete(id);
+    }
+  });
+
+  return controller.signal;
+}
+
+// Only the user who started a request (or an admin) can cancel it
+export function cancelRequest(requestId: string, userId: string, isAdmin = false): boolean {
+  const tracked = inFlight.get(requestId);
+  if (!tracked || (tracked.userId !== userId && !isAdmin)) {
+    return false;
+  }
+
+  logger.info(`⏹️  Request ${requestId} cancelled by ${userId}`);
+  tracked.controller.abort();
+  inFlight.delete(requestId);
+  return true;
+}
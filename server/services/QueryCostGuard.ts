@@ -0,0 +1,197 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../database/init.js';
+import { QueryRejectedError } from './SQLGuard.js';
+import { logger } from '../utils/logger.js';
+
+// Per-role thresholds, stored in settings under query_cost_limits. A limit of 0 disables that check.
+export interface QueryCostLimit {
+  max_rows_scanned: number;
+  max_full_scan_rows: number;
+}
+
+export type QueryCostLimits = Record<string, QueryCostLimit>;
+
+export interface FullTableScan {
+  table: string;
+  rows: number;
+}
+
+export interface QueryCostEstimate {
+  rowsScanned: number;
+  fullScans: FullTableScan[];
+}
+
+// Used for roles without their own entry in query_cost_limits
+export const DEFAULT_QUERY_COST_LIMITS: QueryCostLimits = {
+  default: { max_rows_scanned: 5000000, max_full_scan_rows: 1000000 },
+};
+
+type ExplainDialect = 'mysql' | 'postgres' | 'redshift';
+
+// Scan nodes of Postgres and Redshift text plans, e.g. "XN Seq Scan on t  (cost=0.00..1.00 rows=100 width=8)"
+// or "Index Scan Backward using idx_orders_date on orders o  (cost=... rows=12 ...)"
+const PLAN_SCAN = /(Seq Scan|Index Only Scan|Index Scan|Bitmap Heap Scan)(?: Backward)?(?: using \S+)? on (\S+).*?rows=(\d+)/;
+
+export class QueryCostGuard {
+  async getLimits(): Promise<QueryCostLimits> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      'SELECT setting_value FROM settings WHERE setting_key = ?',
+      ['query_cost_limits']
+    );
+
+    const value = (rows as any[])[0]?.setting_value;
+    if (!value) return DEFAULT_QUERY_COST_LIMITS;
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  }
+
+  async getLimitForRole(role: string): Promise<QueryCostLimit> {
+    const limits = await this.getLimits();
+    return limits[role] || limits.default || DEFAULT_QUERY_COST_LIMITS.default;
+  }
+
+  // EXPLAIN the query on the connection it will run on and estimate how many rows it reads.
+  // runExplain receives the EXPLAIN statement (and, on Postgres and Redshift, catalog lookups of
+  // table sizes) and returns the result rows.
+  async estimate(
+    sql: string,
+    dialect: ExplainDialect,
+    runExplain: (statement: string) => Promise<any[]>
+  ): Promise<QueryCostEstimate> {
+    const plan = await runExplain(`EXPLAIN ${sql}`);
+    return dialect === 'mysql'
+      ? this.parseMySQLPlan(plan)
+      : this.parsePostgresPlan(plan, table => this.tableRows(table, dialect, runExplain));
+  }
+
+  // Refuse the query when the estimate is over the caller's limits
+  async assertWithinLimits(
+    sql: string,
+    dialect: ExplainDialect,
+    runExplain: (statement: string) => Promise<any[]>,
+    context: { userId?: string; userRole?: string }
+  ): Promise<QueryCostEstimate> {
+    const role = context.userRole || 'unknown';
+    const limit = await this.getLimitForRole(role);
+    if (!limit.max_rows_scanned && !limit.max_full_scan_rows) {
+      return { rowsScanned: 0, fullScans: [] };
+    }
+
+    const estimate = await this.estimate(sql, dialect, runExplain);
+    const largeScans = limit.max_full_scan_rows
+      ? estimate.fullScans.filter(scan => scan.rows > limit.max_full_scan_rows)
+      : [];
+
+    let reason: string | null = null;
+    if (largeScans.length > 0) {
+      const tables = largeScans.map(scan => `${scan.table} (~${scan.rows.toLocaleString('en-US')} rows)`).join(', ');
+      reason = `The query would scan all of ${tables}, over the ${limit.max_full_scan_rows.toLocaleString('en-US')}-row full scan limit for your role. Filter on an indexed column such as a date range, or aggregate over a smaller period.`;
+    } else if (limit.max_rows_scanned && estimate.rowsScanned > limit.max_rows_scanned) {
+      reason = `The query would read about ${estimate.rowsScanned.toLocaleString('en-US')} rows, over the ${limit.max_rows_scanned.toLocaleString('en-US')}-row limit for your role. Narrow the date range or add more selective filters.`;
+    }
+
+    if (reason) {
+      logger.warn(`💸 Query refused by cost guard for ${role}: ~${estimate.rowsScanned} rows scanned`);
+      await this.logRejection(sql, estimate, limit, context);
+      throw new QueryRejectedError({ code: 'QUERY_TOO_EXPENSIVE', reason });
+    }
+
+    return estimate;
+  }
+
+  // Classic EXPLAIN: one row per table access, type ALL is a full table scan. Tables of one
+  // SELECT (same id) are nested-loop joined, so each is read once per row of the tables before it.
+  private parseMySQLPlan(plan: any[]): QueryCostEstimate {
+    let rowsScanned = 0;
+    const fullScans: FullTableScan[] = [];
+    const loopsBySelect = new Map<unknown, number>();
+
+    for (const row of plan) {
+      const rows = Number(row.rows) || 0;
+      const loops = loopsBySelect.get(row.id) ?? 1;
+      rowsScanned += loops * rows;
+      const filtered = Number(row.filtered);
+      loopsBySelect.set(row.id, loops * rows * (filtered > 0 ? filtered / 100 : 1));
+      // Derived tables show up as <derived2>, their own rows are already counted
+      if (row.type === 'ALL' && row.table && !String(row.table).startsWith('<')) {
+        fullScans.push({ table: row.table, rows });
+      }
+    }
+
+    return { rowsScanned, fullScans };
+  }
+
+  // Postgres and Redshift return text plan lines. A scan node's rows= is the estimate after its
+  // filter, so a sequential scan is charged the size of the whole table from the catalog.
+  private async parsePostgresPlan(
+    plan: any[],
+    tableRows: (table: string) => Promise<number | null>
+  ): Promise<QueryCostEstimate> {
+    let rowsScanned = 0;
+    const fullScans: FullTableScan[] = [];
+
+    for (const row of plan) {
+      const line = String(row['QUERY PLAN'] ?? Object.values(row)[0] ?? '');
+      const scan = line.match(PLAN_SCAN);
+      if (!scan) continue;
+
+      const estimated = Number(scan[3]);
+      if (scan[1] === 'Seq Scan') {
+        const rows = (await tableRows(scan[2])) ?? estimated;
+        rowsScanned += rows;
+        fullScans.push({ table: scan[2], rows });
+      } else {
+        rowsScanned += estimated;
+      }
+    }
+
+    return { rowsScanned, fullScans };
+  }
+
+  // Row count of a table from the planner statistics, null when it cannot be looked up
+  private async tableRows(
+    table: string,
+    dialect: ExplainDialect,
+    runQuery: (statement: string) => Promise<any[]>
+  ): Promise<number | null> {
+    const name = table.replace(/"/g, '');
+    const [schema, bare] = name.includes('.') ? name.split('.', 2) : [null, name];
+    const literal = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+    try {
+      const rows = dialect === 'redshift'
+        ? await runQuery(
+          `SELECT tbl_rows AS row_count FROM svv_table_info WHERE "table" = ${literal(bare)}` +
+          (schema ? ` AND "schema" = ${literal(schema)}` : '') + ' LIMIT 1'
+        )
+        : await runQuery(`SELECT reltuples::bigint AS row_count FROM pg_class WHERE oid = to_regclass(${literal(name)})`);
+      const count = Number(rows[0]?.row_count);
+      return Number.isFinite(count) && count >= 0 ? count : null;
+    } catch (error) {
+      logger.warn(`Could not look up the size of ${table}:`, error);
+      return null;
+    }
+  }
+
+  private async logRejection(
+    sql: string,
+    estimate: QueryCostEstimate,
+    limit: QueryCostLimit,
+    context: { userId?: string; userRole?: string }
+  ): Promise<void> {
+    try {
+      const db = getDatabase();
+      await db.execute(
+        'INSERT INTO audit_logs (id, user_id, action, resource_type, resource_id, details) VALUES (?, ?, ?, ?, ?, ?)',
+        [uuidv4(), context.userId || 'unknown', 'query_cost_rejected', 'query', null, JSON.stringify({
+          role: context.userRole,
+          sql,
+          estimate,
+          limit,
+        })]
+      );
+    } catch (error) {
+      logger.error('Failed to write query cost audit log:', error);
+    }
+  }
+}
@@ -0,0 +1,222 @@
+import type { FilterParams, ValidatedQueryParam, ValidatedQueryParamType } from './validatedQueries.js';
+import { FilterValidationError, FilterValidationIssue, PlaceholderBinder } from './PlaceholderBinder.js';
+import { logger } from '../utils/logger.js';
+
+type Scalar = string | number;
+
+const PARAM_TYPES: ValidatedQueryParamType[] = ['date', 'int', 'string', 'enum', 'list'];
+const PARAM_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const INT_PATTERN = /^-?\d+$/;
+const MAX_TEXT_LENGTH = 255;
+const MAX_LIST_LENGTH = 500;
+// How many offending values are echoed back in an issue message
+const MAX_REPORTED_VALUES = 5;
+
+export interface ParamSchemaResult {
+  filters: FilterParams;
+  // Request filters the query does not declare; they are dropped instead of reaching the SQL
+  ignored: string[];
+}
+
+// Checks request filters against the typed param_schema of a validated query.
+// Values are coerced to their declared type, defaults fill in missing ones, and values of
+// parameters tied to a filter dimension must be among that dimension's options.
+export class QueryParameterSchema {
+  private placeholderBinder = new PlaceholderBinder();
+
+  // JSON columns come back parsed from mysql2, but rows written as text are accepted too
+  parse(value: unknown): ValidatedQueryParam[] | null {
+    if (value === null || value === undefined || value === '') return null;
+    const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+    return Array.isArray(parsed) ? parsed as ValidatedQueryParam[] : null;
+  }
+
+  // Check a schema sent with a create or update: well-formed entries, and exactly the
+  // placeholders used in the SQL are declared
+  check(schema: unknown, sqlText: string): FilterValidationIssue[] {
+    if (!Array.isArray(schema)) {
+      return [{ param: 'param_schema', message: 'must be a list of parameter definitions' }];
+    }
+
+    const issues: FilterValidationIssue[] = [];
+    const declared = new Set<string>();
+
+    schema.forEach((entry: any, position) => {
+      const param = typeof entry?.name === 'string' ? entry.name : `param_schema[${position}]`;
+      const issue = (message: string) => issues.push({ param, message });
+
+      if (!entry || typeof entry !== 'object' || !PARAM_NAME_PATTERN.test(entry.name || '')) {
+        issue('needs a name made of letters, digits and underscores');
+        return;
+      }
+      if (declared.has(entry.name)) {
+        issue('is declared more than once');
+        return;
+      }
+      declared.add(entry.name);
+
+      if (!PARAM_TYPES.includes(entry.type)) {
+        issue(`has type ${JSON.stringify(entry.type)}, expected one of ${PARAM_TYPES.join(', ')}`);
+        return;
+      }
+      if (entry.required !== undefined && typeof entry.required !== 'boolean') {
+        issue('has a non-boolean required flag');
+      }
+      if (entry.dimension !== undefined && typeof entry.dimension !== 'string') {
+        issue('has a dimension that is not a filter parameter name');
+      }
+      if (entry.allowed_values !== undefined &&
+          (!Array.isArray(entry.allowed_values) || !entry.allowed_values.every((value: unknown) => this.isScalar(value)))) {
+        issue('has allowed_values that are not a list of strings or numbers');
+        return;
+      }
+      if (entry.type === 'enum' && !entry.allowed_values?.length) {
+        issue('is an enum without allowed_values');
+        return;
+      }
+      if (entry.default !== undefined) {
+        const checked = this.coerce(entry as ValidatedQueryParam, entry.default);
+        if (checked.error) issue(`has a default that ${checked.error}`);
+      }
+    });
+
+    const used = this.placeholderBinder.placeholders(sqlText);
+    for (const name of used) {
+      if (!declared.has(name)) {
+        issues.push({ param: name, message: 'is used in the SQL but not declared in param_schema' });
+      }
+    }
+    for (const name of declared) {
+      if (!used.includes(name)) {
+        issues.push({ param: name, message: 'is declared in param_schema but not used in the SQL' });
+      }
+    }
+
+    return issues;
+  }
+
+  // lookupOptions returns the option rows of a filter dimension (see getFilterOptions)
+  async validate(
+    filters: FilterParams,
+    schema: ValidatedQueryParam[],
+    lookupOptions: (dimension: string) => Promise<any[]>
+  ): Promise<ParamSchemaResult> {
+    const issues: FilterValidationIssue[] = [];
+    const validated: FilterParams = {};
+    const declared = new Set(schema.map(param => param.name));
+
+    for (const param of schema) {
+      const raw = this.isEmpty(filters[param.name]) ? param.default : filters[param.name];
+
+      if (this.isEmpty(raw)) {
+        if (param.required) {
+          issues.push({ param: param.name, message: 'is required' });
+        }
+        continue;
+      }
+
+      const checked = this.coerce(param, raw);
+      if (checked.error) {
+        issues.push({ param: param.name, message: checked.error });
+        continue;
+      }
+
+      if (param.dimension) {
+        const unknown = await this.valuesOutsideDimension(param.dimension, checked.value!, lookupOptions);
+        if (unknown.length > 0) {
+          issues.push({
+            param: param.name,
+            message: `has values that are not ${param.dimension} options: ${unknown.slice(0, MAX_REPORTED_VALUES).join(', ')}`,
+          });
+          continue;
+        }
+      }
+
+      validated[param.name] = checked.value;
+    }
+
+    if (issues.length > 0) {
+      throw new FilterValidationError(issues);
+    }
+
+    return {
+      filters: validated,
+      ignored: Object.keys(filters).filter(key => !declared.has(key)),
+    };
+  }
+
+  private coerce(param: ValidatedQueryParam, raw: unknown): { value?: Scalar | Scalar[]; error?: string } {
+    if (param.type === 'list') {
+      const list = Array.isArray(raw) ? raw : [raw];
+      if (list.length > MAX_LIST_LENGTH) return { error: `accepts at most ${MAX_LIST_LENGTH} values` };
+      if (!list.every(item => this.isScalar(item))) return { error: 'must be a list of strings or numbers' };
+      const outside = this.outsideAllowed(param, list as Scalar[]);
+      if (outside.length > 0) return { error: `has values that are not allowed: ${outside.join(', ')}` };
+      return { value: list as Scalar[] };
+    }
+
+    if (Array.isArray(raw) || !this.isScalar(raw)) {
+      return { error: 'accepts a single value' };
+    }
+
+    switch (param.type) {
+      case 'date':
+        if (typeof raw !== 'string' || !DATE_PATTERN.test(raw) || Number.isNaN(new Date(`${raw}T00:00:00Z`).getTime())) {
+          return { error: 'must be a date in YYYY-MM-DD format' };
+        }
+        return { value: raw };
+      case 'int':
+        if (!INT_PATTERN.test(String(raw)) || !Number.isSafeInteger(Number(raw))) {
+          return { error: 'must be a whole number' };
+        }
+        return { value: Number(raw) };
+      case 'enum':
+        if (this.outsideAllowed(param, [raw]).length > 0) {
+          return { error: `must be one of ${param.allowed_values!.join(', ')}` };
+        }
+        return { value: raw };
+      default:
+        if (String(raw).length > MAX_TEXT_LENGTH) {
+          return { error: `must be at most ${MAX_TEXT_LENGTH} characters` };
+        }
+        return { value: String(raw) };
+    }
+  }
+
+  private outsideAllowed(param: ValidatedQueryParam, values: Scalar[]): Scalar[] {
+    if (!param.allowed_values?.length) return [];
+    const allowed = new Set(param.allowed_values.map(String));
+    return values.filter(value => !allowed.has(String(value)));
+  }
+
+  // Option rows carry the value in their first column (e.g. id of "SELECT id, name").
+  // When the options cannot be loaded the check is skipped rather than blocking the query.
+  private async valuesOutsideDimension(
+    dimension: string,
+    value: Scalar | Scalar[],
+    lookupOptions: (dimension: string) => Promise<any[]>
+  ): Promise<Scalar[]> {
+    let options: any[];
+    try {
+      options = await lookupOptions(dimension);
+    } catch (error) {
+      logger.warn(`Could not load ${dimension} options to check a filter value:`, error);
+      return [];
+    }
+    if (options.length === 0) return [];
+
+    const allowed = new Set(options.map(option =>
+      String(option !== null && typeof option === 'object' ? Object.values(option)[0] : option)
+    ));
+    return (Array.isArray(value) ? value : [value]).filter(item => !allowed.has(String(item)));
+  }
+
+  private isScalar(value: unknown): value is Scalar {
+    return typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+  }
+
+  private isEmpty(value: unknown): boolean {
+    return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+  }
+}
@@ -0,0 +1,382 @@
+import { PlaceholderBinder } from './PlaceholderBinder.js';
+import { QueryParameterSchema } from './QueryParameterSchema.js';
+import type { FilterDimension, FilterParams, ValidatedQuery, ValidatedQueryParam } from './validatedQueries.js';
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+// "may" or "mar" alone are usually other words, so a month name needs "in", "for", ... or a year
+const MONTH_PATTERN = new RegExp(
+  `\\b(?:(in|during|for|of|since)\\s+)?(${MONTHS.join('|')}|jan|feb|mar|apr|jun|jul|aug|sept?|oct|nov|dec)\\b(?:\\s+(\\d{4}))?`,
+  'gi'
+);
+const ISO_DATE = /\b(\d{4}-\d{2}-\d{2})\b/g;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Option labels shorter than this match too many unrelated words
+const MIN_LABEL_LENGTH = 3;
+// Misspelled labels count from this similarity (1 - edits / length), so "Alexandira" finds
+// Alexandria. Shorter labels must match exactly, one edit already turns them into other words.
+const FUZZY_MIN_SIMILARITY = 0.8;
+const FUZZY_MIN_LABEL_LENGTH = 5;
+// start_date and end_date are shown as one chip under this key
+const DATE_RANGE_KEY = 'date_range';
+
+type DateRange = { start_date: string; end_date: string };
+type DateMatch = DateRange & { matched: string };
+
+// A filter read from the question, shown in the chat as an editable chip
+export interface AppliedFilter {
+  // sql_param of the filter, or date_range for start_date and end_date
+  key: string;
+  label: string;
+  // sql_param of the filter dimension whose options the value can be changed to
+  dimension?: string;
+  // Filter values the chip sets
+  values: FilterParams;
+  // Option label or date range as shown to the user
+  display: string;
+  // Words of the question the filter was read from, empty for filters the user set
+  matched: string;
+  // 1 for exact matches, lower for misspelled ones
+  score: number;
+}
+
+export interface ExtractedFilters {
+  filters: FilterParams;
+  applied: AppliedFilter[];
+}
+
+// Where the options of one query parameter come from
+interface ParamSource {
+  param: string;
+  label: string;
+  dimension?: string;
+  load: () => Promise<any[]>;
+}
+
+interface OptionMatch {
+  source: ParamSource;
+  value: string | number;
+  display: string;
+  matched: string;
+  score: number;
+  // Word span in the question, so two parameters never claim the same words
+  start: number;
+  end: number;
+}
+
+// Filters for a validated query taken from the wording of a question: the date range
+// ("last month", "in May", "since 2025-03-01") and options named in it (a merchant, a zone, a
+// tier), matched against the option lists of the filter dimensions behind the query's
+// parameters, misspellings included. Only parameters the query's SQL uses are returned.
+export class QuestionFilterExtractor {
+  private placeholderBinder = new PlaceholderBinder();
+  private parameterSchema = new QueryParameterSchema();
+
+  async extract(
+    question: string,
+    query: ValidatedQuery,
+    dimensions: FilterDimension[],
+    lookupOptions: (sqlParam: string) => Promise<any[]>,
+    today = new Date()
+  ): Promise<ExtractedFilters> {
+    const params = this.placeholderBinder.placeholders(query.sql_text);
+    const filters: FilterParams = {};
+    const applied: AppliedFilter[] = [];
+
+    const range = this.dateRange(question, today);
+    if (range && (params.includes('start_date') || params.includes('end_date'))) {
+      const { matched, ...values } = range;
+      Object.assign(filters, values);
+      applied.push({
+        key: DATE_RANGE_KEY,
+        label: this.dateLabel(dimensions),
+        values,
+        display: this.dateDisplay(values),
+        matched,
+        score: 1,
+      });
+    }
+
+    const words = this.tokenize(question);
+    const matches: OptionMatch[] = [];
+    for (const source of this.paramSources(query, params, dimensions, lookupOptions)) {
+      matches.push(...this.matchOptions(words, source, await source.load()));
+    }
+
+    // Matches covering more of the question first, so "acme fods" is Acme Foods rather than
+    // Acme; a parameter takes one value and words belong to one parameter
+    matches.sort((a, b) => b.score * b.matched.length - a.score * a.matched.length);
+    const taken: OptionMatch[] = [];
+    for (const match of matches) {
+      if (match.source.param in filters) continue;
+      if (taken.some(other => match.start < other.end && other.start < match.end)) continue;
+      taken.push(match);
+      filters[match.source.param] = match.value;
+      applied.push({
+        key: match.source.param,
+        label: match.source.label,
+        dimension: match.source.dimension,
+        values: { [match.source.param]: match.value },
+        display: match.display,
+        matched: match.matched,
+        score: Math.round(match.score * 100) / 100,
+      });
+    }
+
+    return { filters, applied };
+  }
+
+  // Chips for filters the user set, e.g. after editing the extracted ones
+  async describe(
+    filters: FilterParams,
+    query: ValidatedQuery,
+    dimensions: FilterDimension[],
+    lookupOptions: (sqlParam: string) => Promise<any[]>
+  ): Promise<AppliedFilter[]> {
+    const params = this.placeholderBinder.placeholders(query.sql_text);
+    const applied: AppliedFilter[] = [];
+
+    if (filters.start_date || filters.end_date) {
+      const values: FilterParams = {};
+      if (filters.start_date) values.start_date = filters.start_date;
+      if (filters.end_date) values.end_date = filters.end_date;
+      applied.push({
+        key: DATE_RANGE_KEY,
+        label: this.dateLabel(dimensions),
+        values,
+        display: this.dateDisplay(values),
+        matched: '',
+        score: 1,
+      });
+    }
+
+    const sources = new Map(this.paramSources(query, params, dimensions, lookupOptions).map(source => [source.param, source]));
+    for (const [param, value] of Object.entries(filters)) {
+      if (param === 'start_date' || param === 'end_date' || value === undefined || value === null || value === '') continue;
+      const source = sources.get(param);
+      const options = source ? await source.load() : [];
+      const labels = (Array.isArray(value) ? value : [value]).map(item => {
+        const option = options.find(candidate => String(this.optionValue(candidate)) === String(item));
+        return option === undefined ? String(item) : String(this.optionLabel(option));
+      });
+      applied.push({
+        key: param,
+        label: source?.label ?? param,
+        dimension: source?.dimension,
+        values: { [param]: value },
+        display: labels.join(', '),
+        matched: '',
+        score: 1,
+      });
+    }
+
+    return applied;
+  }
+
+  // Date range named in the question, in UTC days like the default filters
+  dateRange(question: string, today = new Date()): DateMatch | null {
+    const text = question.toLowerCase();
+    const day = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
+
+    const isoMatches = [...text.matchAll(ISO_DATE)].filter(match => this.isDate(match[1]));
+    const isoDates = isoMatches.map(match => match[1]).sort();
+    const isoMatched = isoMatches.map(match => match[0]).join(' … ');
+    if (isoDates.length >= 2) {
+      return { start_date: isoDates[0], end_date: isoDates[isoDates.length - 1], matched: isoMatched };
+    }
+    if (isoDates.length === 1) {
+      const since = /\b(since|after|from)\s+\d{4}-\d{2}-\d{2}/.exec(text);
+      return since
+        ? { start_date: isoDates[0], end_date: this.format(day), matched: since[0] }
+        : { start_date: isoDates[0], end_date: isoDates[0], matched: isoMatched };
+    }
+
+    const todayMatch = /\btoday\b/.exec(text);
+    if (todayMatch) return this.range(day, day, todayMatch[0]);
+    const yesterdayMatch = /\byesterday\b/.exec(text);
+    if (yesterdayMatch) {
+      const yesterday = this.addDays(day, -1);
+      return this.range(yesterday, yesterday, yesterdayMatch[0]);
+    }
+
+    const recent = /\b(?:last|past|previous)\s+(\d{1,3})\s+(day|week|month)s?\b/.exec(text);
+    if (recent) {
+      const count = parseInt(recent[1]);
+      const start = recent[2] === 'month'
+        ? this.addMonths(this.addDays(day, 1), -count)
+        : this.addDays(day, 1 - count * (recent[2] === 'week' ? 7 : 1));
+      return this.range(start, day, recent[0]);
+    }
+
+    const period = /\b(this|last|previous|past)\s+(week|month|quarter|year)\b/.exec(text);
+    if (period) {
+      const unit = period[2] as 'week' | 'month' | 'quarter' | 'year';
+      const start = this.periodStart(day, unit);
+      if (period[1] === 'this') return this.range(start, day, period[0]);
+      const previousStart = this.periodStart(this.addDays(start, -1), unit);
+      return this.range(previousStart, this.addDays(start, -1), period[0]);
+    }
+
+    const month = [...text.matchAll(MONTH_PATTERN)].find(match => match[1] || match[3]);
+    if (month) {
+      const index = MONTHS.findIndex(name => name.startsWith(month[2].slice(0, 3)));
+      // Without a year, the latest such month that has started
+      const year = month[3]
+        ? parseInt(month[3])
+        : index > day.getUTCMonth() ? day.getUTCFullYear() - 1 : day.getUTCFullYear();
+      const start = new Date(Date.UTC(year, index, 1));
+      const end = new Date(Date.UTC(year, index + 1, 0));
+      return month[1] === 'since'
+        ? this.range(start, day, month[0])
+        : this.range(start, end > day ? day : end, month[0]);
+    }
+
+    const year = /\b(?:in|during|for)\s+(20\d{2})\b/.exec(text);
+    if (year) {
+      const start = new Date(Date.UTC(parseInt(year[1]), 0, 1));
+      const end = new Date(Date.UTC(parseInt(year[1]), 11, 31));
+      return this.range(start, end > day ? day : end, year[0]);
+    }
+
+    return null;
+  }
+
+  // Option lists behind the query's placeholders: the filter dimension its param_schema entry
+  // points to (or the one named like the placeholder), else the entry's allowed values
+  private paramSources(
+    query: ValidatedQuery,
+    params: string[],
+    dimensions: FilterDimension[],
+    lookupOptions: (sqlParam: string) => Promise<any[]>
+  ): ParamSource[] {
+    const schema = new Map<string, ValidatedQueryParam>(
+      (this.parameterSchema.parse(query.param_schema) || []).map(param => [param.name, param])
+    );
+    const sources: ParamSource[] = [];
+
+    for (const param of params) {
+      if (param === 'start_date' || param === 'end_date') continue;
+      const declared = schema.get(param);
+      const dimension = dimensions.find(candidate => candidate.sql_param === (declared?.dimension ?? param));
+
+      if (dimension?.values_sql) {
+        let options: Promise<any[]> | null = null;
+        sources.push({
+          param,
+          label: dimension.label,
+          dimension: dimension.sql_param,
+          load: () => options ??= lookupOptions(dimension.sql_param),
+        });
+      } else if (declared?.allowed_values?.length) {
+        const allowed = declared.allowed_values;
+        sources.push({ param, label: dimension?.label ?? param, load: async () => allowed });
+      }
+    }
+    return sources;
+  }
+
+  // Options whose label appears in the question, exactly or misspelled. A label is compared with
+  // every run of as many question words; option rows carry the value in their first column.
+  private matchOptions(words: string[], source: ParamSource, options: any[]): OptionMatch[] {
+    const matches: OptionMatch[] = [];
+
+    for (const option of options) {
+      const display = String(this.optionLabel(option));
+      const label = this.tokenize(display);
+      const text = label.join(' ');
+      if (label.length === 0 || text.length < MIN_LABEL_LENGTH || label.length > words.length) continue;
+
+      // Every occurrence counts, another parameter may claim the first one
+      for (let start = 0; start + label.length <= words.length; start++) {
+        const window = words.slice(start, start + label.length).join(' ');
+        const score = window === text ? 1 : text.length >= FUZZY_MIN_LABEL_LENGTH ? this.similarity(window, text) : 0;
+        if (score >= FUZZY_MIN_SIMILARITY) {
+          matches.push({ source, value: this.optionValue(option), display, matched: window, score, start, end: start + label.length });
+        }
+      }
+    }
+    return matches;
+  }
+
+  // 1 - edit distance / length, where swapping two neighbouring letters is one edit
+  private similarity(a: string, b: string): number {
+    const longest = Math.max(a.length, b.length);
+    // Lengths too far apart to reach the threshold
+    if (Math.abs(a.length - b.length) > longest * (1 - FUZZY_MIN_SIMILARITY)) return 0;
+
+    const distance: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) distance[0][j] = j;
+    for (let i = 1; i <= a.length; i++) {
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        distance[i][j] = Math.min(distance[i - 1][j] + 1, distance[i][j - 1] + 1, distance[i - 1][j - 1] + cost);
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          distance[i][j] = Math.min(distance[i][j], distance[i - 2][j - 2] + 1);
+        }
+      }
+    }
+    return 1 - distance[a.length][b.length] / longest;
+  }
+
+  private optionValue(option: any): string | number {
+    return option !== null && typeof option === 'object' ? Object.values(option)[0] as string | number : option;
+  }
+
+  private optionLabel(option: any): string | number {
+    if (option === null || typeof option !== 'object') return option;
+    return option.name ?? option.label ?? Object.values(option)[0] as string | number;
+  }
+
+  // Lowercase words; dots and @ stay inside words so emails and domains remain one word
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}@.]+/u)
+      .map(word => word.replace(/^\.+|\.+$/g, ''))
+      .filter(Boolean);
+  }
+
+  private dateLabel(dimensions: FilterDimension[]): string {
+    return dimensions.find(dimension => dimension.control === 'date_range')?.label ?? 'Date Range';
+  }
+
+  private dateDisplay(range: FilterParams): string {
+    if (range.start_date && range.start_date === range.end_date) return range.start_date;
+    return `${range.start_date ?? '…'} – ${range.end_date ?? '…'}`;
+  }
+
+  private periodStart(day: Date, period: 'week' | 'month' | 'quarter' | 'year'): Date {
+    const year = day.getUTCFullYear();
+    switch (period) {
+      case 'week':
+        // Weeks start on Monday
+        return this.addDays(day, -((day.getUTCDay() + 6) % 7));
+      case 'month':
+        return new Date(Date.UTC(year, day.getUTCMonth(), 1));
+      case 'quarter':
+        return new Date(Date.UTC(year, Math.floor(day.getUTCMonth() / 3) * 3, 1));
+      case 'year':
+        return new Date(Date.UTC(year, 0, 1));
+    }
+  }
+
+  private range(start: Date, end: Date, matched: string): DateMatch {
+    return { start_date: this.format(start), end_date: this.format(end), matched };
+  }
+
+  private addDays(day: Date, days: number): Date {
+    return new Date(day.getTime() + days * DAY_MS);
+  }
+
+  private addMonths(day: Date, months: number): Date {
+    return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + months, day.getUTCDate()));
+  }
+
+  private format(day: Date): string {
+    return day.toISOString().split('T')[0];
+  }
+
+  private isDate(value: string): boolean {
+    const parsed = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(parsed.getTime()) && this.format(parsed) === value;
+  }
+}
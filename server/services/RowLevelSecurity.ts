@@ -0,0 +1,407 @@
+import pkg from 'node-sql-parser';
+import { getDatabase } from '../database/init.js';
+import { QueryRejectedError, SQLDialect } from './SQLGuard.js';
+import { tableMatchesPattern } from './TableAccessPolicy.js';
+import type { FilterParams } from './validatedQueries.js';
+import type { MongoAggregation } from './MongoPipelineGuard.js';
+import { logger } from '../utils/logger.js';
+const { Parser } = pkg;
+
+// Owner lookups are configured in the database but written into SQL, so only plain names pass
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export interface RowLevelPolicy {
+  id: string;
+  name: string;
+  role: string;
+  bypass: boolean;
+  table_pattern: string | null;
+  column_name: string | null;
+  identity_claim: 'user_id' | 'email' | 'name';
+  filter_param: string | null;
+  // When set, column_name must be one of owner_key_column of the owner_table rows whose
+  // owner_claim_column equals the claim, looked up in the application database
+  owner_table: string | null;
+  owner_key_column: string | null;
+  owner_claim_column: string | null;
+  is_active: boolean;
+}
+
+// Caller identity as carried by the JWT (userId, email, name, role)
+export interface RowLevelIdentity {
+  userId?: string;
+  email?: string;
+  name?: string;
+  role?: string;
+  userRole?: string;
+}
+
+export interface AppliedRowPredicate {
+  policy: string;
+  table: string;
+  column: string;
+  value: string;
+}
+
+export class RowLevelSecurity {
+  private parser = new Parser();
+
+  async getPolicies(role: string): Promise<RowLevelPolicy[]> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      'SELECT * FROM row_level_policies WHERE role = ? AND is_active = TRUE',
+      [role]
+    );
+    return rows as RowLevelPolicy[];
+  }
+
+  // Inject "column = identity" predicates into every reference to a protected table.
+  // Each protected table is replaced by a filtered derived table so the predicate also
+  // holds inside joins, subqueries and CTEs.
+  async applyToSQL(
+    sql: string,
+    identity: RowLevelIdentity,
+    dialect: SQLDialect = 'MySQL'
+  ): Promise<{ sql: string; applied: AppliedRowPredicate[] }> {
+    const role = this.roleOf(identity);
+    const policies = await this.getPolicies(role);
+    this.requirePolicies(role, policies);
+
+    if (policies.some(policy => policy.bypass)) {
+      return { sql, applied: [] };
+    }
+
+    const tablePolicies = policies.filter(policy => policy.table_pattern && policy.column_name);
+    if (tablePolicies.length === 0) {
+      return { sql, applied: [] };
+    }
+
+    const claims = await this.resolveClaims(identity);
+    const ast = this.parser.astify(sql, { database: dialect });
+    const applied: AppliedRowPredicate[] = [];
+
+    const qualifiedName = (entry: any) => entry.db ? `${entry.db}.${entry.table}` : entry.table;
+    const matchingPolicies = (table: string) =>
+      tablePolicies.filter(policy => tableMatchesPattern(table, policy.table_pattern!, true));
+
+    // Owner lookups are queries, so the allowed values are resolved before the synchronous rewrite
+    const referenced = new Set<RowLevelPolicy>();
+    this.rewriteFromClauses(ast, (entry: any) => {
+      if (entry.table) matchingPolicies(qualifiedName(entry)).forEach(policy => referenced.add(policy));
+      return null;
+    });
+    const allowedValues = new Map<RowLevelPolicy, string[]>();
+    for (const policy of referenced) {
+      allowedValues.set(policy, await this.allowedValues(claims, policy));
+    }
+
+    this.rewriteFromClauses(ast, (entry: any) => {
+      if (!entry.table) return null;
+
+      const table = qualifiedName(entry);
+      const matching = matchingPolicies(table);
+      if (matching.length === 0) return null;
+
+      const predicates = matching.map(policy => {
+        const value = this.claimValue(claims, policy);
+        applied.push({ policy: policy.name, table, column: policy.column_name!, value });
+        return policy.owner_table
+          ? this.membershipPredicate(policy.column_name!, allowedValues.get(policy)!, dialect)
+          : this.equalityPredicate(policy.column_name!, value, dialect);
+      });
+
+      const where = predicates.reduce((left, right) => ({
+        type: 'binary_expr',
+        operator: 'AND',
+        left,
+        right,
+      }));
+
+      const alias = entry.as || entry.table;
+      const derived = this.parser.astify(`SELECT * FROM t`, { database: dialect }) as any;
+      derived.from = [{ db: entry.db, table: entry.table, as: null }];
+      derived.where = where;
+
+      delete entry.db;
+      delete entry.table;
+      entry.expr = { ast: derived, parentheses: true };
+      entry.as = alias;
+
+      // The derived table must not be rewritten again
+      return derived;
+    });
+
+    if (applied.length === 0) {
+      return { sql, applied };
+    }
+
+    const rewritten = this.parser.sqlify(ast, { database: dialect });
+    logger.info(`🔒 Row-level policies applied: ${applied.map(a => `${a.policy} on ${a.table}`).join(', ')}`);
+    return { sql: rewritten, applied };
+  }
+
+  // Mongo equivalent of applyToSQL: a leading $match on the queried collection.
+  // $lookup/$unionWith into a protected collection cannot be filtered safely and is refused.
+  async applyToPipeline(
+    aggregation: MongoAggregation,
+    identity: RowLevelIdentity
+  ): Promise<{ aggregation: MongoAggregation; applied: AppliedRowPredicate[] }> {
+    const role = this.roleOf(identity);
+    const policies = await this.getPolicies(role);
+    this.requirePolicies(role, policies);
+
+    if (policies.some(policy => policy.bypass)) {
+      return { aggregation, applied: [] };
+    }
+
+    const tablePolicies = policies.filter(policy => policy.table_pattern && policy.column_name);
+    const protects = (collection: string) =>
+      tablePolicies.filter(policy => tableMatchesPattern(collection, policy.table_pattern!, true));
+
+    for (const joined of this.joinedCollections(aggregation.pipeline)) {
+      const matching = protects(joined);
+      if (matching.length > 0) {
+        throw new QueryRejectedError({
+          code: 'ROW_POLICY_UNENFORCEABLE',
+          reason: `The ${matching[0].name} row policy protects ${joined}, which cannot be joined with $lookup or $unionWith. Query it directly instead.`,
+        });
+      }
+    }
+
+    const matching = protects(aggregation.collection);
+    if (matching.length === 0) {
+      return { aggregation, applied: [] };
+    }
+
+    const claims = await this.resolveClaims(identity);
+    const match: Record<string, unknown> = {};
+    const applied: AppliedRowPredicate[] = [];
+    for (const policy of matching) {
+      const value = this.claimValue(claims, policy);
+      match[policy.column_name!] = policy.owner_table ? { $in: await this.allowedValues(claims, policy) } : value;
+      applied.push({ policy: policy.name, table: aggregation.collection, column: policy.column_name!, value });
+    }
+
+    logger.info(`🔒 Row-level policies applied: ${applied.map(a => `${a.policy} on ${a.table}`).join(', ')}`);
+    return {
+      aggregation: { ...aggregation, pipeline: [{ $match: match }, ...aggregation.pipeline] },
+      applied,
+    };
+  }
+
+  // Force the placeholders of validated queries to the caller's identity.
+  // Fails closed when a protected table is referenced but the query has no placeholder to bind.
+  async applyToFilters(
+    sqlText: string,
+    filters: FilterParams,
+    identity: RowLevelIdentity
+  ): Promise<{ filters: FilterParams; enforced: Record<string, string> }> {
+    const role = this.roleOf(identity);
+    const policies = await this.getPolicies(role);
+    this.requirePolicies(role, policies);
+
+    if (policies.some(policy => policy.bypass)) {
+      return { filters, enforced: {} };
+    }
+
+    const referencedTables = this.referencedTables(sqlText);
+    const identifiers = [...new Set(sqlText.match(/[A-Za-z_][\w$]*/g) || [])];
+    const claims = await this.resolveClaims(identity);
+    const enforced: Record<string, string> = {};
+
+    for (const policy of policies) {
+      // A protected table named anywhere in the text counts, should the table list miss it
+      const protectsQuery = !policy.table_pattern ||
+        referencedTables.some(table => tableMatchesPattern(table, policy.table_pattern!, true)) ||
+        identifiers.some(identifier => tableMatchesPattern(identifier, policy.table_pattern!, true));
+      if (!protectsQuery) continue;
+
+      const hasPlaceholder = !!policy.filter_param &&
+        new RegExp(`(?<!:):${policy.filter_param}\\b`).test(sqlText);
+
+      if (!hasPlaceholder) {
+        if (policy.table_pattern) {
+          throw new QueryRejectedError({
+            code: 'ROW_POLICY_UNENFORCEABLE',
+            reason: `This query reads ${policy.table_pattern} but has no :${policy.filter_param || 'param'} placeholder, so the ${policy.name} row policy cannot be applied.`,
+          });
+        }
+        continue;
+      }
+
+      enforced[policy.filter_param!] = this.claimValue(claims, policy);
+    }
+
+    return { filters: { ...filters, ...enforced }, enforced };
+  }
+
+  private async resolveClaims(identity: RowLevelIdentity): Promise<Record<string, string | undefined>> {
+    const claims: Record<string, string | undefined> = {
+      user_id: identity.userId,
+      email: identity.email,
+      name: identity.name,
+    };
+
+    // Older tokens lack the name or email. Google logins carry the Google id as userId and
+    // may only be found in users by email.
+    if ((!claims.name || !claims.email) && (identity.userId || identity.email)) {
+      const db = getDatabase();
+      const [rows] = await db.execute(
+        'SELECT email, name FROM users WHERE id = ? OR email = ? LIMIT 1',
+        [identity.userId ?? null, identity.email ?? null]
+      );
+      const user = (rows as any[])[0];
+      if (user) {
+        claims.email = claims.email || user.email;
+        claims.name = claims.name || user.name;
+      }
+    }
+
+    return claims;
+  }
+
+  // Every role must be covered by a policy, a bypass included; a role nobody configured (or
+  // 'unknown' for a token without one) would otherwise see every row
+  private requirePolicies(role: string, policies: RowLevelPolicy[]): void {
+    if (policies.length === 0) {
+      throw new QueryRejectedError({
+        code: 'ROW_POLICY_MISSING',
+        reason: `Your role (${role}) has no row policy, so no data can be queried for it. Ask an admin to configure one.`,
+      });
+    }
+  }
+
+  // Values column_name may take: the claim itself, or the keys of the owner rows matching it
+  private async allowedValues(claims: Record<string, string | undefined>, policy: RowLevelPolicy): Promise<string[]> {
+    const value = this.claimValue(claims, policy);
+    if (!policy.owner_table) return [value];
+
+    const identifiers = [policy.owner_table, policy.owner_key_column, policy.owner_claim_column];
+    if (!identifiers.every(identifier => identifier && IDENTIFIER.test(identifier))) {
+      throw new QueryRejectedError({
+        code: 'ROW_POLICY_UNENFORCEABLE',
+        reason: `The owner lookup of the ${policy.name} row policy is misconfigured, so it cannot be applied.`,
+      });
+    }
+
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      `SELECT DISTINCT \`${policy.owner_key_column}\` AS owner_key FROM \`${policy.owner_table}\` WHERE \`${policy.owner_claim_column}\` = ?`,
+      [value]
+    );
+    return (rows as any[]).map(row => String(row.owner_key));
+  }
+
+  private claimValue(claims: Record<string, string | undefined>, policy: RowLevelPolicy): string {
+    const value = claims[policy.identity_claim];
+    if (!value) {
+      throw new QueryRejectedError({
+        code: 'ROW_POLICY_UNRESOLVED',
+        reason: `Your ${policy.identity_claim.replace('_', ' ')} could not be resolved, so the ${policy.name} row policy cannot be applied.`,
+      });
+    }
+    return value;
+  }
+
+  private roleOf(identity: RowLevelIdentity): string {
+    return identity.userRole || identity.role || 'unknown';
+  }
+
+  private equalityPredicate(column: string, value: string, dialect: SQLDialect): any {
+    // sqlify does not escape string literals, so do it here
+    let escaped = value.replace(/'/g, "''");
+    if (dialect === 'MySQL') {
+      escaped = escaped.replace(/\\/g, '\\\\');
+    }
+    return {
+      type: 'binary_expr',
+      operator: '=',
+      left: { type: 'column_ref', table: null, column },
+      right: { type: 'single_quote_string', value: escaped },
+    };
+  }
+
+  // "column IN (...)", or a predicate that is never true when the caller owns nothing
+  private membershipPredicate(column: string, values: string[], dialect: SQLDialect): any {
+    if (values.length === 0) {
+      return {
+        type: 'binary_expr',
+        operator: '=',
+        left: { type: 'number', value: 1 },
+        right: { type: 'number', value: 0 },
+      };
+    }
+    return {
+      type: 'binary_expr',
+      operator: 'IN',
+      left: { type: 'column_ref', table: null, column },
+      right: {
+        type: 'expr_list',
+        value: values.map(value => this.equalityPredicate(column, value, dialect).right),
+      },
+    };
+  }
+
+  // Visit every FROM/JOIN entry of every SELECT in the tree (CTEs, subqueries, UNION branches)
+  private rewriteFromClauses(node: any, visit: (entry: any) => any, seen = new Set<any>()): void {
+    if (!node || typeof node !== 'object' || seen.has(node)) return;
+    seen.add(node);
+
+    if (Array.isArray(node)) {
+      node.forEach(item => this.rewriteFromClauses(item, visit, seen));
+      return;
+    }
+
+    if (node.type === 'select' && Array.isArray(node.from)) {
+      node.from.forEach((entry: any) => {
+        const replacement = visit(entry);
+        if (replacement) seen.add(replacement);
+      });
+    }
+
+    for (const value of Object.values(node)) {
+      this.rewriteFromClauses(value, visit, seen);
+    }
+  }
+
+  // Collections pulled in by $lookup/$unionWith, including inside $facet and sub-pipelines
+  private joinedCollections(pipeline: any[]): string[] {
+    const collections: string[] = [];
+    for (const stage of pipeline) {
+      const [name] = Object.keys(stage);
+      const body = stage[name];
+
+      if (name === '$lookup' || name === '$unionWith') {
+        const from = typeof body === 'string' ? body : body?.from || body?.coll;
+        if (typeof from === 'string') collections.push(from);
+        if (Array.isArray(body?.pipeline)) collections.push(...this.joinedCollections(body.pipeline));
+      }
+
+      if (name === '$facet' && body && typeof body === 'object') {
+        for (const subPipeline of Object.values(body)) {
+          if (Array.isArray(subPipeline)) collections.push(...this.joinedCollections(subPipeline));
+        }
+      }
+    }
+    return collections;
+  }
+
+  // Validated SQL contains :placeholders and ${schema}, which are replaced before parsing.
+  // SQL the parser cannot read is scanned for the names after FROM and JOIN instead.
+  referencedTables(sqlText: string): string[] {
+    const parseable = sqlText
+      .replace(/\$\{schema\}\./g, '')
+      .replace(/(?<![:\w]):\w+/g, 'NULL');
+    try {
+      // tableList entries look like "select::schema::table"
+      const tables = this.parser.tableList(parseable, { database: 'MySQL' }).map(entry => {
+        const [, schema, table] = entry.split('::');
+        return schema && schema !== 'null' ? `${schema}.${table}` : table;
+      });
+      return [...new Set(tables)];
+    } catch {
+      const matches = [...sqlText.matchAll(/\b(?:from|join)\s+([`"\w.${}]+)/gi)];
+      return matches.map(match => match[1].replace(/[`"]/g, '').replace(/^\$\{schema\}\./, ''));
+    }
+  }
+}
@@ -0,0 +1,255 @@
+import pkg from 'node-sql-parser';
+const { Parser } = pkg;
+
+export type SQLDialect = 'MySQL' | 'PostgresQL' | 'Redshift';
+
+export type QueryRejectionCode =
+  | 'EMPTY_QUERY'
+  | 'PARSE_ERROR'
+  | 'MULTIPLE_STATEMENTS'
+  | 'NOT_READ_ONLY'
+  | 'SELECT_INTO'
+  | 'LOCKING_READ'
+  | 'FORBIDDEN_FUNCTION';
+
+export interface QueryRejection {
+  code: QueryRejectionCode;
+  reason: string;
+}
+
+export interface SQLGuardResult {
+  allowed: boolean;
+  ast?: any;
+  tables: string[];
+  rejection?: QueryRejection;
+}
+
+// Thrown by SQLTool when a query is refused before it reaches the database.
+// Agents check for this to show the rejection reason instead of a generic error.
+export class QueryRejectedError extends Error {
+  code: string;
+  reason: string;
+
+  constructor(rejection: { code: string; reason: string }) {
+    super(`Query rejected (${rejection.code}): ${rejection.reason}`);
+    this.name = 'QueryRejectedError';
+    this.code = rejection.code;
+    this.reason = rejection.reason;
+  }
+}
+
+// Functions that either touch the server filesystem, take locks or stall a connection
+const FORBIDDEN_FUNCTIONS = [
+  'load_file',
+  'sleep',
+  'benchmark',
+  'get_lock',
+  'release_lock',
+  'release_all_locks',
+  'pg_sleep',
+  'pg_read_file',
+  'pg_read_binary_file',
+  'pg_ls_dir',
+  'pg_terminate_backend',
+  'pg_cancel_backend',
+  'dblink',
+  'dblink_exec',
+  // Postgres/Redshift functions that change settings, sequences, locks, files or server state
+  'set_config',
+  'nextval',
+  'setval',
+  'pg_advisory_lock',
+  'pg_advisory_lock_shared',
+  'pg_advisory_xact_lock',
+  'pg_advisory_xact_lock_shared',
+  'pg_try_advisory_lock',
+  'pg_try_advisory_lock_shared',
+  'pg_try_advisory_xact_lock',
+  'pg_try_advisory_xact_lock_shared',
+  'pg_advisory_unlock',
+  'pg_advisory_unlock_shared',
+  'pg_advisory_unlock_all',
+  'lo_import',
+  'lo_export',
+  'lo_create',
+  'lo_unlink',
+  'lo_put',
+  'lo_from_bytea',
+  'pg_reload_conf',
+  'pg_rotate_logfile',
+  'pg_file_write',
+  'pg_notify',
+  'pg_stat_reset',
+  'pg_create_restore_point',
+  'pg_switch_wal',
+  'pg_logical_emit_message',
+];
+
+export class SQLGuard {
+  private parser = new Parser();
+
+  validate(sql: string, dialect: SQLDialect = 'MySQL'): SQLGuardResult {
+    if (!sql || !sql.trim()) {
+      return this.reject('EMPTY_QUERY', 'No SQL query was provided.');
+    }
+
+    const database = dialect;
+
+    let ast: any;
+    try {
+      ast = this.parser.astify(sql, { database });
+    } catch (error) {
+      const message = error instanceof Error ? error.message.split('\n')[0] : 'Unknown parse error';
+      return this.reject('PARSE_ERROR', `The query could not be parsed as ${dialect} SQL: ${message}`);
+    }
+
+    // A trailing semicolon parses as a single statement; anything else is a batch
+    const statements = Array.isArray(ast) ? ast.filter(Boolean) : [ast];
+    if (statements.length !== 1) {
+      return this.reject('MULTIPLE_STATEMENTS', `Only a single statement is allowed, but ${statements.length} were found.`);
+    }
+
+    const statement = statements[0];
+    if (statement.type !== 'select') {
+      return this.reject('NOT_READ_ONLY', `Only SELECT or WITH queries are allowed (got ${String(statement.type).toUpperCase()}).`);
+    }
+
+    const violation = this.findViolation(statement);
+    if (violation) {
+      return { allowed: false, ast: statement, tables: [], rejection: violation };
+    }
+
+    // CTE names show up in the table list but are not real tables
+    const cteNames = this.collectCteNames(statement);
+
+    return {
+      allowed: true,
+      ast: statement,
+      tables: this.extractTables(sql, database).filter(table => !cteNames.has(table.toLowerCase())),
+    };
+  }
+
+  // Throws QueryRejectedError when the query is not a single read-only SELECT
+  assertReadOnly(sql: string, dialect: SQLDialect = 'MySQL'): SQLGuardResult {
+    const result = this.validate(sql, dialect);
+    if (!result.allowed && result.rejection) {
+      throw new QueryRejectedError(result.rejection);
+    }
+    return result;
+  }
+
+  private findViolation(node: any, seen = new Set<any>()): QueryRejection | null {
+    if (!node || typeof node !== 'object' || seen.has(node)) {
+      return null;
+    }
+    seen.add(node);
+
+    if (Array.isArray(node)) {
+      for (const item of node) {
+        const violation = this.findViolation(item, seen);
+        if (violation) return violation;
+      }
+      return null;
+    }
+
+    // Nested statements (subqueries, CTE bodies, UNION branches) must also be plain SELECTs
+    if (typeof node.type === 'string' && this.isStatementType(node.type) && node.type !== 'select') {
+      return {
+        code: 'NOT_READ_ONLY',
+        reason: `The query contains a nested ${node.type.toUpperCase()} statement.`,
+      };
+    }
+
+    if (node.type === 'select') {
+      if (node.into && node.into.position) {
+        const target = node.into.keyword ? ` ${String(node.into.keyword).toUpperCase()}` : '';
+        return {
+          code: 'SELECT_INTO',
+          reason: `SELECT ... INTO${target} writes data and is not allowed.`,
+        };
+      }
+
+      if (node.locking_read) {
+        return {
+          code: 'LOCKING_READ',
+          reason: `Locking reads (${String(node.locking_read).toUpperCase()}) are not allowed.`,
+        };
+      }
+    }
+
+    if (node.type === 'function') {
+      const name = this.functionName(node);
+      if (name && FORBIDDEN_FUNCTIONS.includes(name)) {
+        return {
+          code: 'FORBIDDEN_FUNCTION',
+          reason: `The function ${name.toUpperCase()}() is not allowed in generated queries.`,
+        };
+      }
+    }
+
+    for (const value of Object.values(node)) {
+      const violation = this.findViolation(value, seen);
+      if (violation) return violation;
+    }
+
+    return null;
+  }
+
+  private isStatementType(type: string): boolean {
+    return [
+      'select', 'insert', 'replace', 'update', 'delete', 'create', 'alter', 'drop',
+      'truncate', 'rename', 'grant', 'revoke', 'use', 'set', 'lock', 'unlock',
+      'call', 'exec', 'load_data', 'transaction',
+    ].includes(type);
+  }
+
+  private functionName(node: any): string | null {
+    const name = node.name;
+    if (typeof name === 'string') {
+      return name.toLowerCase();
+    }
+    // node-sql-parser v5 represents function names as { name: [{ value }] }
+    const parts = name?.name;
+    if (Array.isArray(parts) && parts.length > 0) {
+      return String(parts[parts.length - 1].value).toLowerCase();
+    }
+    return null;
+  }
+
+  private collectCteNames(node: any, names = new Set<string>(), seen = new Set<any>()): Set<string> {
+    if (!node || typeof node !== 'object' || seen.has(node)) {
+      return names;
+    }
+    seen.add(node);
+
+    if (!Array.isArray(node) && Array.isArray(node.with)) {
+      for (const cte of node.with) {
+        const name = typeof cte?.name === 'string' ? cte.name : cte?.name?.value;
+        if (name) names.add(String(name).toLowerCase());
+      }
+    }
+
+    for (const value of Object.values(node)) {
+      this.collectCteNames(value, names, seen);
+    }
+    return names;
+  }
+
+  private extractTables(sql: string, database: string): string[] {
+    try {
+      // tableList entries look like "select::schema::table"
+      const entries = this.parser.tableList(sql, { database });
+      const tables = entries.map(entry => {
+        const [, schema, table] = entry.split('::');
+        return schema && schema !== 'null' ? `${schema}.${table}` : table;
+      });
+      return [...new Set(tables)];
+    } catch {
+      return [];
+    }
+  }
+
+  private reject(code: QueryRejectionCode, reason: string): SQLGuardResult {
+    return { allowed: false, tables: [], rejection: { code, reason } };
+  }
+}
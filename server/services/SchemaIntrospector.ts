@@ -0,0 +1,497 @@
+import { v4 as uuidv4 } from 'uuid';
+import mysql from 'mysql2/promise';
+import { getDatabase, getDeliveriesDatabase } from '../database/init.js';
+import { getConnectorPool, getMongoClient } from '../database/connectorPools.js';
+import type { Connector } from './ConnectorService.js';
+import { cacheStore } from './CacheStore.js';
+import { logger } from '../utils/logger.js';
+
+export interface SchemaColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  primaryKey?: boolean;
+  references?: { table: string; column: string };
+  sampleValues?: Array<string | number>;
+}
+
+export interface SchemaTable {
+  name: string;
+  rowEstimate: number | null;
+  columns: SchemaColumn[];
+}
+
+// Shape stored in connectors.schema_json by the crawler
+export interface ConnectorSchema {
+  kind: string;
+  introspectedAt: string;
+  tables: SchemaTable[];
+}
+
+export interface SchemaDiff {
+  addedTables: string[];
+  removedTables: string[];
+  changedTables: Array<{
+    table: string;
+    addedColumns: string[];
+    removedColumns: string[];
+    changedColumns: Array<{ column: string; from: string; to: string }>;
+  }>;
+}
+
+export interface SchemaRefreshResult {
+  schema: ConnectorSchema;
+  diff: SchemaDiff | null;
+  changed: boolean;
+}
+
+const MAX_TABLES = 200;
+// Distinct values are only sampled for the first tables and text columns, to keep crawls cheap
+const MAX_SAMPLED_TABLES = 50;
+const MAX_SAMPLED_COLUMNS = 15;
+const SAMPLE_ROWS = 1000;
+// Columns with more distinct values than this are not enum-like and get no samples
+const MAX_SAMPLE_VALUES = 10;
+const MAX_SAMPLE_VALUE_LENGTH = 60;
+const MONGO_SAMPLE_DOCS = 100;
+
+const TEXT_TYPE = /char|text|enum|string/i;
+
+export class SchemaIntrospector {
+  async introspect(connector: Connector): Promise<ConnectorSchema> {
+    let tables: SchemaTable[];
+
+    if (connector.kind === 'mysql') {
+      tables = await this.introspectMySQL(connector);
+    } else if (connector.kind === 'postgres' || connector.kind === 'redshift') {
+      tables = await this.introspectPostgres(connector);
+    } else if (connector.kind === 'mongo') {
+      tables = await this.introspectMongo(connector);
+    } else {
+      throw new Error(`Schema introspection is not supported for ${connector.kind} connectors`);
+    }
+
+    return {
+      kind: connector.kind,
+      introspectedAt: new Date().toISOString(),
+      tables,
+    };
+  }
+
+  // The default deliveries database has no connector row; it is crawled the same way as a MySQL connector
+  async introspectDeliveriesDatabase(): Promise<ConnectorSchema> {
+    return {
+      kind: 'mysql',
+      introspectedAt: new Date().toISOString(),
+      tables: await this.introspectMySQLPool(getDeliveriesDatabase()),
+    };
+  }
+
+  // Crawl one connector, store the result in schema_json and record the diff when it changed
+  async refreshConnectorSchema(connectorId: string, triggeredBy?: string): Promise<SchemaRefreshResult> {
+    const db = getDatabase();
+    const [rows] = await db.execute('SELECT * FROM connectors WHERE id = ?', [connectorId]);
+    const connector = (rows as Connector[])[0];
+    if (!connector) {
+      throw new Error(`Connector ${connectorId} not found`);
+    }
+
+    let schema: ConnectorSchema;
+    try {
+      schema = await this.introspect(connector);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await db.execute(
+        'UPDATE connectors SET schema_refresh_error = ? WHERE id = ?',
+        [message, connectorId]
+      );
+      throw error;
+    }
+
+    const previous = this.parseStoredSchema(connector.schema_json);
+    const diff = previous ? this.diffSchemas(previous, schema) : null;
+    const changed = !diff || this.hasChanges(diff);
+
+    // Keep updated_at untouched so cached connector pools are not rebuilt
+    await db.execute(
+      `UPDATE connectors
+       SET schema_json = ?, schema_refreshed_at = CURRENT_TIMESTAMP, schema_refresh_error = NULL, updated_at = updated_at
+       WHERE id = ?`,
+      [JSON.stringify(schema), connectorId]
+    );
+
+    if (changed) {
+      await db.execute(
+        'INSERT INTO connector_schema_history (id, connector_id, schema_json, diff_json, table_count, triggered_by) VALUES (?, ?, ?, ?, ?, ?)',
+        [uuidv4(), connectorId, JSON.stringify(schema), diff ? JSON.stringify(diff) : null, schema.tables.length, triggeredBy || null]
+      );
+    }
+
+    // Cached results of tables whose columns changed or that are gone no longer match the data
+    if (diff && changed) {
+      const tables = [...diff.removedTables, ...diff.changedTables.map(change => change.table)];
+      await cacheStore.invalidateTables(tables, connectorId);
+    }
+
+    logger.db(`Schema refreshed for connector ${connector.name}: ${schema.tables.length} tables${changed ? ' (changed)' : ''}`);
+    return { schema, diff, changed };
+  }
+
+  async refreshAllSchemas(): Promise<{ refreshed: number; failed: number }> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      "SELECT id, name FROM connectors WHERE kind IN ('mysql', 'postgres', 'redshift', 'mongo')"
+    );
+
+    let refreshed = 0;
+    let failed = 0;
+    // One connector at a time so a crawl never competes with itself for connections
+    for (const connector of rows as any[]) {
+      try {
+        await this.refreshConnectorSchema(connector.id);
+        refreshed++;
+      } catch (error) {
+        failed++;
+        logger.warn(`Schema refresh failed for connector ${connector.name}:`, error);
+      }
+    }
+
+    return { refreshed, failed };
+  }
+
+  async getHistory(connectorId: string, limit = 20): Promise<any[]> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      `SELECT id, connector_id, diff_json, table_count, triggered_by, created_at
+       FROM connector_schema_history
+       WHERE connector_id = ?
+       ORDER BY created_at DESC
+       LIMIT ${Math.max(1, Math.min(100, Math.floor(limit)))}`,
+      [connectorId]
+    );
+    return rows as any[];
+  }
+
+  diffSchemas(previous: ConnectorSchema, next: ConnectorSchema): SchemaDiff {
+    const previousTables = new Map(previous.tables.map(table => [table.name, table]));
+    const nextTables = new Map(next.tables.map(table => [table.name, table]));
+
+    const diff: SchemaDiff = {
+      addedTables: [...nextTables.keys()].filter(name => !previousTables.has(name)),
+      removedTables: [...previousTables.keys()].filter(name => !nextTables.has(name)),
+      changedTables: [],
+    };
+
+    for (const [name, table] of nextTables) {
+      const before = previousTables.get(name);
+      if (!before) continue;
+
+      const beforeColumns = new Map(before.columns.map(column => [column.name, column]));
+      const afterColumns = new Map(table.columns.map(column => [column.name, column]));
+
+      const addedColumns = [...afterColumns.keys()].filter(column => !beforeColumns.has(column));
+      const removedColumns = [...beforeColumns.keys()].filter(column => !afterColumns.has(column));
+      const changedColumns = [...afterColumns.values()]
+        .filter(column => beforeColumns.has(column.name) && beforeColumns.get(column.name)!.type !== column.type)
+        .map(column => ({ column: column.name, from: beforeColumns.get(column.name)!.type, to: column.type }));
+
+      if (addedColumns.length || removedColumns.length || changedColumns.length) {
+        diff.changedTables.push({ table: name, addedColumns, removedColumns, changedColumns });
+      }
+    }
+
+    return diff;
+  }
+
+  private hasChanges(diff: SchemaDiff): boolean {
+    return diff.addedTables.length > 0 || diff.removedTables.length > 0 || diff.changedTables.length > 0;
+  }
+
+  // Hand-uploaded schema files have no tables array and are treated as no previous crawl
+  private parseStoredSchema(schemaJson: any): ConnectorSchema | null {
+    if (!schemaJson) return null;
+    try {
+      const parsed = typeof schemaJson === 'string' ? JSON.parse(schemaJson) : schemaJson;
+      return Array.isArray(parsed?.tables) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async introspectMySQL(connector: Connector): Promise<SchemaTable[]> {
+    const { pool } = await getConnectorPool(connector);
+    return this.introspectMySQLPool(pool);
+  }
+
+  private async introspectMySQLPool(pool: mysql.Pool): Promise<SchemaTable[]> {
+    const [tableRows] = await pool.execute(
+      `SELECT TABLE_NAME AS name, TABLE_ROWS AS row_estimate
+       FROM information_schema.TABLES
+       WHERE TABLE_SCHEMA = DATABASE()
+       ORDER BY TABLE_NAME
+       LIMIT ${MAX_TABLES}`
+    );
+    const [columnRows] = await pool.execute(
+      `SELECT TABLE_NAME AS table_name, COLUMN_NAME AS name, COLUMN_TYPE AS type,
+              IS_NULLABLE AS nullable, COLUMN_KEY AS column_key
+       FROM information_schema.COLUMNS
+       WHERE TABLE_SCHEMA = DATABASE()
+       ORDER BY TABLE_NAME, ORDINAL_POSITION`
+    );
+    const [foreignKeyRows] = await pool.execute(
+      `SELECT TABLE_NAME AS table_name, COLUMN_NAME AS column_name,
+              REFERENCED_TABLE_NAME AS ref_table, REFERENCED_COLUMN_NAME AS ref_column
+       FROM information_schema.KEY_COLUMN_USAGE
+       WHERE TABLE_SCHEMA = DATABASE() AND REFERENCED_TABLE_NAME IS NOT NULL`
+    );
+
+    const tables = this.assembleTables(
+      tableRows as any[],
+      (columnRows as any[]).map(row => ({ ...row, primary_key: row.column_key === 'PRI' })),
+      foreignKeyRows as any[]
+    );
+
+    await this.sampleValues(tables, async (table, column) => {
+      const [rows] = await pool.execute(
+        `SELECT DISTINCT s.\`${column}\` AS v
+         FROM (SELECT \`${column}\` FROM \`${table}\` LIMIT ${SAMPLE_ROWS}) s
+         WHERE s.\`${column}\` IS NOT NULL
+         LIMIT ${MAX_SAMPLE_VALUES + 1}`
+      );
+      return (rows as any[]).map(row => row.v);
+    });
+
+    return tables;
+  }
+
+  private async introspectPostgres(connector: Connector): Promise<SchemaTable[]> {
+    const { pool } = await getConnectorPool(connector);
+    const excludedSchemas = `('pg_catalog', 'information_schema', 'pg_internal', 'pg_toast')`;
+
+    const tableResult = await pool.query(
+      `SELECT table_schema, table_name
+       FROM information_schema.tables
+       WHERE table_schema NOT IN ${excludedSchemas} AND table_type IN ('BASE TABLE', 'VIEW')
+       ORDER BY table_schema, table_name
+       LIMIT ${MAX_TABLES}`
+    );
+    const columnResult = await pool.query(
+      `SELECT table_schema, table_name, column_name AS name, data_type AS type, is_nullable AS nullable
+       FROM information_schema.columns
+       WHERE table_schema NOT IN ${excludedSchemas}
+       ORDER BY table_schema, table_name, ordinal_position`
+    );
+
+    // Constraints and row estimates come from catalogs Redshift only partly supports
+    let keyRows: any[] = [];
+    try {
+      const keyResult = await pool.query(
+        `SELECT tc.constraint_type, kcu.table_schema, kcu.table_name, kcu.column_name,
+                ccu.table_schema AS ref_schema, ccu.table_name AS ref_table, ccu.column_name AS ref_column
+         FROM information_schema.table_constraints tc
+         JOIN information_schema.key_column_usage kcu
+           ON tc.constraint_name = kcu.constraint_name AND tc.table_schema = kcu.table_schema
+         LEFT JOIN information_schema.constraint_column_usage ccu
+           ON tc.constraint_type = 'FOREIGN KEY' AND tc.constraint_name = ccu.constraint_name
+         WHERE tc.constraint_type IN ('PRIMARY KEY', 'FOREIGN KEY')
+           AND kcu.table_schema NOT IN ${excludedSchemas}`
+      );
+      keyRows = keyResult.rows;
+    } catch (error) {
+      logger.warn(`Key constraints unavailable for connector ${connector.name}:`, error);
+    }
+
+    const rowEstimates = new Map<string, number>();
+    try {
+      const estimateResult = connector.kind === 'redshift'
+        ? await pool.query(`SELECT "schema" AS table_schema, "table" AS table_name, tbl_rows AS row_estimate FROM svv_table_info`)
+        : await pool.query(
+          `SELECT n.nspname AS table_schema, c.relname AS table_name, c.reltuples::bigint AS row_estimate
+           FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+           WHERE c.relkind IN ('r', 'p', 'm')`
+        );
+      for (const row of estimateResult.rows) {
+        rowEstimates.set(`${row.table_schema}.${row.table_name}`, Number(row.row_estimate));
+      }
+    } catch (error) {
+      logger.warn(`Row estimates unavailable for connector ${connector.name}:`, error);
+    }
+
+    // Tables in the public schema are referenced by bare name, everything else schema-qualified
+    const qualify = (schema: string, table: string) => (schema === 'public' ? table : `${schema}.${table}`);
+
+    const primaryKeys = new Set(
+      keyRows
+        .filter(row => row.constraint_type === 'PRIMARY KEY')
+        .map(row => `${qualify(row.table_schema, row.table_name)}.${row.column_name}`)
+    );
+
+    const tables = this.assembleTables(
+      tableResult.rows.map((row: any) => ({
+        name: qualify(row.table_schema, row.table_name),
+        row_estimate: rowEstimates.get(`${row.table_schema}.${row.table_name}`) ?? null,
+      })),
+      columnResult.rows.map((row: any) => ({
+        table_name: qualify(row.table_schema, row.table_name),
+        name: row.name,
+        type: row.type,
+        nullable: row.nullable,
+        primary_key: primaryKeys.has(`${qualify(row.table_schema, row.table_name)}.${row.name}`),
+      })),
+      keyRows
+        .filter(row => row.constraint_type === 'FOREIGN KEY' && row.ref_table)
+        .map(row => ({
+          table_name: qualify(row.table_schema, row.table_name),
+          column_name: row.column_name,
+          ref_table: qualify(row.ref_schema, row.ref_table),
+          ref_column: row.ref_column,
+        }))
+    );
+
+    const quoteTable = (name: string) => name.split('.').map(part => `"${part.replace(/"/g, '""')}"`).join('.');
+    await this.sampleValues(tables, async (table, column) => {
+      const quotedColumn = `"${column.replace(/"/g, '""')}"`;
+      const result = await pool.query(
+        `SELECT DISTINCT s.${quotedColumn} AS v
+         FROM (SELECT ${quotedColumn} FROM ${quoteTable(table)} LIMIT ${SAMPLE_ROWS}) s
+         WHERE s.${quotedColumn} IS NOT NULL
+         LIMIT ${MAX_SAMPLE_VALUES + 1}`
+      );
+      return result.rows.map((row: any) => row.v);
+    });
+
+    return tables;
+  }
+
+  // Mongo has no catalog, so fields and types are inferred from a random sample of documents
+  private async introspectMongo(connector: Connector): Promise<SchemaTable[]> {
+    const client = await getMongoClient(connector);
+    const db = client.db();
+    const collections = (await db.listCollections({}, { nameOnly: true }).toArray())
+      .map(collection => collection.name)
+      .filter(name => !name.startsWith('system.'))
+      .sort()
+      .slice(0, MAX_TABLES);
+
+    const tables: SchemaTable[] = [];
+    for (const [index, name] of collections.entries()) {
+      const collection = db.collection(name);
+      const [rowEstimate, documents] = await Promise.all([
+        collection.estimatedDocumentCount(),
+        collection.aggregate([{ $sample: { size: MONGO_SAMPLE_DOCS } }]).toArray(),
+      ]);
+
+      const fields = new Map<string, { types: Set<string>; seen: number; values: Set<string | number> }>();
+      for (const document of documents) {
+        this.collectMongoFields(document, '', fields);
+      }
+
+      const columns: SchemaColumn[] = [...fields.entries()].map(([field, info]) => {
+        const column: SchemaColumn = {
+          name: field,
+          type: [...info.types].sort().join('|'),
+          nullable: info.seen < documents.length || info.types.has('null'),
+        };
+        if (field === '_id') column.primaryKey = true;
+        if (index < MAX_SAMPLED_TABLES && info.values.size > 0 && info.values.size <= MAX_SAMPLE_VALUES) {
+          column.sampleValues = [...info.values];
+        }
+        return column;
+      });
+
+      tables.push({ name, rowEstimate, columns });
+    }
+
+    return tables;
+  }
+
+  private collectMongoFields(
+    document: Record<string, any>,
+    prefix: string,
+    fields: Map<string, { types: Set<string>; seen: number; values: Set<string | number> }>
+  ): void {
+    for (const [key, value] of Object.entries(document)) {
+      const name = prefix ? `${prefix}.${key}` : key;
+      const type = this.mongoType(value);
+
+      // Nested documents are described one level deep, matching how rows are flattened for agents
+      if (type === 'object' && !prefix) {
+        this.collectMongoFields(value, name, fields);
+        continue;
+      }
+
+      const field = fields.get(name) || { types: new Set<string>(), seen: 0, values: new Set<string | number>() };
+      field.types.add(type);
+      field.seen++;
+      if (type === 'string' && value.length <= MAX_SAMPLE_VALUE_LENGTH && field.values.size <= MAX_SAMPLE_VALUES) {
+        field.values.add(value);
+      }
+      fields.set(name, field);
+    }
+  }
+
+  private mongoType(value: any): string {
+    if (value === null || value === undefined) return 'null';
+    if (value instanceof Date) return 'date';
+    if (Array.isArray(value)) return 'array';
+    if (value._bsontype) return value._bsontype.toLowerCase();
+    return typeof value;
+  }
+
+  private assembleTables(tableRows: any[], columnRows: any[], foreignKeyRows: any[]): SchemaTable[] {
+    const tables = new Map<string, SchemaTable>();
+    for (const row of tableRows) {
+      tables.set(row.name, {
+        name: row.name,
+        rowEstimate: row.row_estimate === null || row.row_estimate === undefined ? null : Number(row.row_estimate),
+        columns: [],
+      });
+    }
+
+    const foreignKeys = new Map<string, { table: string; column: string }>();
+    for (const row of foreignKeyRows) {
+      foreignKeys.set(`${row.table_name}.${row.column_name}`, { table: row.ref_table, column: row.ref_column });
+    }
+
+    for (const row of columnRows) {
+      const table = tables.get(row.table_name);
+      if (!table) continue;
+
+      const column: SchemaColumn = {
+        name: row.name,
+        type: String(row.type),
+        nullable: row.nullable === 'YES',
+      };
+      if (row.primary_key) column.primaryKey = true;
+      const reference = foreignKeys.get(`${row.table_name}.${row.name}`);
+      if (reference) column.references = reference;
+      table.columns.push(column);
+    }
+
+    return [...tables.values()];
+  }
+
+  // Record distinct values of low-cardinality text columns so agents use real filter values
+  private async sampleValues(
+    tables: SchemaTable[],
+    fetchDistinct: (table: string, column: string) => Promise<any[]>
+  ): Promise<void> {
+    for (const table of tables.slice(0, MAX_SAMPLED_TABLES)) {
+      const textColumns = table.columns
+        .filter(column => TEXT_TYPE.test(column.type) && !column.primaryKey)
+        .slice(0, MAX_SAMPLED_COLUMNS);
+
+      for (const column of textColumns) {
+        try {
+          const values = (await fetchDistinct(table.name, column.name))
+            .filter(value => value !== null && String(value).length <= MAX_SAMPLE_VALUE_LENGTH);
+          if (values.length > 0 && values.length <= MAX_SAMPLE_VALUES) {
+            column.sampleValues = values.map(value => (typeof value === 'number' ? value : String(value)));
+          }
+        } catch (error) {
+          logger.warn(`Could not sample ${table.name}.${column.name}:`, error);
+        }
+      }
+    }
+  }
+}
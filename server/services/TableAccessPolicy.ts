@@ -0,0 +1,93 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../database/init.js';
+import { logger } from '../utils/logger.js';
+
+export interface TableAccessContext {
+  userId?: string;
+  userRole?: string;
+  // Patterns are granted per data source; no connector is the default deliveries database
+  connector?: { id: string } | null;
+}
+
+export interface TableAccessDecision {
+  allowed: boolean;
+  role: string;
+  tables: string[];
+  deniedTables: string[];
+  patterns: string[];
+  explanation?: string;
+}
+
+export class TableAccessPolicy {
+  // Check every referenced table against the table_access patterns of the caller's role
+  async evaluate(tables: string[], context: TableAccessContext): Promise<TableAccessDecision> {
+    const role = context.userRole || 'unknown';
+    const patterns = await this.getPatternsForRole(role, context.connector?.id ?? null);
+
+    const deniedTables = tables.filter(table => !this.isTableAllowed(table, patterns));
+
+    if (deniedTables.length === 0) {
+      return { allowed: true, role, tables, deniedTables, patterns };
+    }
+
+    const explanation = patterns.length === 0
+      ? `Your role (${role}) has no table access configured for this data source, so the query on ${deniedTables.join(', ')} was not run. Ask an admin to grant access in Settings.`
+      : `Your role (${role}) is not allowed to query ${deniedTables.join(', ')}. Allowed table patterns: ${patterns.join(', ')}.`;
+
+    return { allowed: false, role, tables, deniedTables, patterns, explanation };
+  }
+
+  async getPatternsForRole(role: string, connectorId: string | null = null): Promise<string[]> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      'SELECT table_pattern FROM table_access WHERE role = ? AND connector_id <=> ?',
+      [role, connectorId]
+    );
+    return (rows as any[]).map(row => row.table_pattern);
+  }
+
+  // A role may only point a conversation at a connector it was granted tables on
+  async canUseConnector(role: string | undefined, connectorId: string): Promise<boolean> {
+    return (await this.getPatternsForRole(role || 'unknown', connectorId)).length > 0;
+  }
+
+  // Record denied queries so admins can see what AMs are asking for
+  async logDenial(decision: TableAccessDecision, sql: string, context: TableAccessContext): Promise<void> {
+    try {
+      const db = getDatabase();
+      await db.execute(
+        'INSERT INTO audit_logs (id, user_id, action, resource_type, resource_id, details) VALUES (?, ?, ?, ?, ?, ?)',
+        [uuidv4(), context.userId || 'unknown', 'query_denied', 'table_access', null, JSON.stringify({
+          role: decision.role,
+          sql,
+          tables: decision.tables,
+          deniedTables: decision.deniedTables,
+        })]
+      );
+    } catch (error) {
+      logger.error('Failed to write table access audit log:', error);
+    }
+  }
+
+  private isTableAllowed(table: string, patterns: string[]): boolean {
+    return patterns.some(pattern => tableMatchesPattern(table, pattern));
+  }
+}
+
+// Patterns support "*" and SQL-style "%" wildcards, e.g. "*" or "hr_%". An unqualified table is
+// matched by its bare name; a schema-qualified one must match the pattern as written, so a grant
+// on "orders" does not reach "otherschema.orders". Row policies protect a table in every schema
+// and pass anySchema to also match qualified tables by their bare name.
+export function tableMatchesPattern(table: string, pattern: string, anySchema = false): boolean {
+  const normalized = table.toLowerCase();
+  const bareName = normalized.includes('.') ? normalized.split('.').pop()! : normalized;
+
+  const escaped = pattern
+    .trim()
+    .toLowerCase()
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/[*%]/g, '.*');
+  const regex = new RegExp(`^${escaped}$`);
+
+  return regex.test(normalized) || (anySchema && regex.test(bareName));
+}
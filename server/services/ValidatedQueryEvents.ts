@@ -0,0 +1,26 @@
+import { EventEmitter } from 'events';
+
+export type ResultSource = 'redshift' | 'mysql';
+
+export interface ValidatedQueryRefreshedEvent {
+  // "<qid>:<filter hash>", the cache entry that was recomputed
+  channel: string;
+  qid: string;
+  computed_at: string;
+  source: ResultSource;
+}
+
+// Raised whenever a validated query result is recomputed and cached. server/index.ts forwards
+// it to the dashboards subscribed to the channel; they refetch through the API, so row-level
+// filters still apply to what they receive.
+class ValidatedQueryEvents extends EventEmitter {
+  emitRefreshed(event: ValidatedQueryRefreshedEvent): void {
+    this.emit('refreshed', event);
+  }
+
+  onRefreshed(listener: (event: ValidatedQueryRefreshedEvent) => void): void {
+    this.on('refreshed', listener);
+  }
+}
+
+export const validatedQueryEvents = new ValidatedQueryEvents();
@@ -0,0 +1,391 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../database/init.js';
+import type { FilterParams, ValidatedQuery } from './validatedQueries.js';
+import { logger } from '../utils/logger.js';
+
+export type ColumnType = 'number' | 'string' | 'date' | 'boolean';
+
+export type TestAssertion =
+  | { type: 'row_count'; min?: number; max?: number }
+  | { type: 'not_null'; columns: string[] }
+  | { type: 'column_type'; column: string; expected: ColumnType }
+  // Sum of column equals the sum of other_column in another validated query, within a relative tolerance
+  | { type: 'total_matches'; column: string; query: string; other_column: string; filters?: FilterParams; tolerance?: number }
+  | { type: 'unique_key'; columns: string[] };
+
+export interface ValidatedQueryTest {
+  id: string;
+  qid: string;
+  name: string;
+  filters_json: FilterParams | null;
+  assertions_json: TestAssertion[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AssertionResult {
+  type: TestAssertion['type'];
+  passed: boolean;
+  message: string;
+}
+
+export type TestRunStatus = 'passed' | 'failed' | 'error';
+
+export interface TestRunResult {
+  test_id: string;
+  test_name: string;
+  qid: string;
+  query_version: number;
+  status: TestRunStatus;
+  row_count: number | null;
+  assertions: AssertionResult[];
+  error?: string;
+  duration_ms: number;
+}
+
+// What the runner needs from ValidatedQueriesService
+export interface TestQueryExecutor {
+  getValidatedQueries(): Promise<ValidatedQuery[]>;
+  executeVersion(qid: string, version: number, filters: FilterParams): Promise<any[]>;
+  getApprovedQuery(identifier: string): Promise<ValidatedQuery | null>;
+}
+
+const COLUMN_TYPES: ColumnType[] = ['number', 'string', 'date', 'boolean'];
+const DEFAULT_TOLERANCE = 0.01;
+// How many offending keys or rows an assertion message lists
+const MAX_REPORTED = 3;
+
+// Regression test cases for validated queries: each runs the query with fixed filters and
+// checks assertions on the rows. Runs are stored per query version.
+export class ValidatedQueryTests {
+  constructor(private executor: TestQueryExecutor) {}
+
+  // Tests of a query with the outcome of their latest run
+  async listTests(qid: string): Promise<any[]> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      `SELECT t.*, r.status AS last_status, r.query_version AS last_version, r.created_at AS last_run_at
+       FROM validated_query_tests t
+       LEFT JOIN validated_query_test_runs r ON r.id = (
+         SELECT latest.id FROM validated_query_test_runs latest
+         WHERE latest.test_id = t.id ORDER BY latest.created_at DESC LIMIT 1
+       )
+       WHERE t.qid = ?
+       ORDER BY t.name`,
+      [qid]
+    );
+    return (rows as any[]).map(row => this.parseRow(row));
+  }
+
+  async getTest(qid: string, testId: string): Promise<ValidatedQueryTest | null> {
+    const db = getDatabase();
+    const [rows] = await db.execute('SELECT * FROM validated_query_tests WHERE id = ? AND qid = ?', [testId, qid]);
+    const row = (rows as any[])[0];
+    return row ? this.parseRow(row) : null;
+  }
+
+  async createTest(
+    qid: string,
+    data: { name: string; filters?: FilterParams; assertions: TestAssertion[] },
+    userId?: string
+  ): Promise<ValidatedQueryTest> {
+    const db = getDatabase();
+    const id = uuidv4();
+    await db.execute(
+      'INSERT INTO validated_query_tests (id, qid, name, filters_json, assertions_json, created_by) VALUES (?, ?, ?, ?, ?, ?)',
+      [id, qid, data.name, JSON.stringify(data.filters || {}), JSON.stringify(data.assertions), userId || null]
+    );
+    return (await this.getTest(qid, id))!;
+  }
+
+  async updateTest(
+    qid: string,
+    testId: string,
+    data: { name?: string; filters?: FilterParams; assertions?: TestAssertion[]; is_active?: boolean }
+  ): Promise<ValidatedQueryTest | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    if (data.name !== undefined) { updates.push('name = ?'); values.push(data.name); }
+    if (data.filters !== undefined) { updates.push('filters_json = ?'); values.push(JSON.stringify(data.filters)); }
+    if (data.assertions !== undefined) { updates.push('assertions_json = ?'); values.push(JSON.stringify(data.assertions)); }
+    if (data.is_active !== undefined) { updates.push('is_active = ?'); values.push(data.is_active); }
+
+    if (updates.length > 0) {
+      const db = getDatabase();
+      await db.execute(`UPDATE validated_query_tests SET ${updates.join(', ')} WHERE id = ? AND qid = ?`, [...values, testId, qid]);
+    }
+    return this.getTest(qid, testId);
+  }
+
+  async deleteTest(qid: string, testId: string): Promise<boolean> {
+    const db = getDatabase();
+    const [result] = await db.execute('DELETE FROM validated_query_tests WHERE id = ? AND qid = ?', [testId, qid]);
+    return (result as any).affectedRows > 0;
+  }
+
+  // Problems with a submitted list of assertions, empty when it is valid
+  checkAssertions(assertions: unknown): string[] {
+    if (!Array.isArray(assertions) || assertions.length === 0) {
+      return ['assertions must be a non-empty list'];
+    }
+
+    const problems: string[] = [];
+    const isColumnList = (value: unknown) =>
+      Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string' && item);
+    const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+    assertions.forEach((assertion: any, index) => {
+      const problem = (message: string) => problems.push(`assertions[${index}] (${assertion?.type}): ${message}`);
+
+      switch (assertion?.type) {
+        case 'row_count':
+          if (assertion.min === undefined && assertion.max === undefined) problem('needs min or max');
+          if ((assertion.min !== undefined && !isNumber(assertion.min)) || (assertion.max !== undefined && !isNumber(assertion.max))) {
+            problem('min and max must be numbers');
+          }
+          break;
+        case 'not_null':
+        case 'unique_key':
+          if (!isColumnList(assertion.columns)) problem('needs a list of columns');
+          break;
+        case 'column_type':
+          if (!assertion.column) problem('needs a column');
+          if (!COLUMN_TYPES.includes(assertion.expected)) problem(`expected must be one of ${COLUMN_TYPES.join(', ')}`);
+          break;
+        case 'total_matches':
+          if (!assertion.column || !assertion.query || !assertion.other_column) problem('needs column, query and other_column');
+          if (assertion.tolerance !== undefined && (!isNumber(assertion.tolerance) || assertion.tolerance < 0)) {
+            problem('tolerance must be a non-negative number');
+          }
+          break;
+        default:
+          problems.push(`assertions[${index}]: unknown type ${JSON.stringify(assertion?.type)}`);
+      }
+    });
+
+    return problems;
+  }
+
+  // Run every active test of a query against one of its versions
+  async runForQuery(qid: string, version: number, triggeredBy: string): Promise<TestRunResult[]> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      'SELECT * FROM validated_query_tests WHERE qid = ? AND is_active = TRUE ORDER BY name',
+      [qid]
+    );
+
+    const results: TestRunResult[] = [];
+    // One at a time, so a test run never competes with itself for connections
+    for (const row of rows as any[]) {
+      results.push(await this.runTest(this.parseRow(row), version, triggeredBy));
+    }
+    return results;
+  }
+
+  // Scheduled job: the tests of every approved query against its approved version
+  async runAll(triggeredBy: string): Promise<{ passed: number; failed: TestRunResult[] }> {
+    const queries = await this.executor.getValidatedQueries();
+    let passed = 0;
+    const failed: TestRunResult[] = [];
+
+    for (const query of queries) {
+      const results = await this.runForQuery(query.id, query.approved_version!, triggeredBy);
+      for (const result of results) {
+        if (result.status === 'passed') {
+          passed++;
+        } else {
+          failed.push(result);
+          logger.warn(`🧪 Test "${result.test_name}" of ${query.name} v${result.query_version} ${result.status}: ${this.describeFailure(result)}`);
+        }
+      }
+    }
+
+    return { passed, failed };
+  }
+
+  async runTest(test: ValidatedQueryTest, version: number, triggeredBy: string): Promise<TestRunResult> {
+    const started = Date.now();
+    const result: TestRunResult = {
+      test_id: test.id,
+      test_name: test.name,
+      qid: test.qid,
+      query_version: version,
+      status: 'passed',
+      row_count: null,
+      assertions: [],
+      duration_ms: 0,
+    };
+
+    try {
+      const rows = await this.executor.executeVersion(test.qid, version, test.filters_json || {});
+      result.row_count = rows.length;
+      for (const assertion of test.assertions_json) {
+        result.assertions.push(await this.evaluate(assertion, rows, test.filters_json || {}));
+      }
+      if (result.assertions.some(assertion => !assertion.passed)) {
+        result.status = 'failed';
+      }
+    } catch (error) {
+      result.status = 'error';
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+
+    result.duration_ms = Date.now() - started;
+    await this.recordRun(result, triggeredBy);
+    return result;
+  }
+
+  // Latest run of each test that did not pass, newest first
+  async getFailingTests(): Promise<any[]> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      `SELECT r.*, t.name AS test_name, q.name AS query_name
+       FROM validated_query_test_runs r
+       JOIN validated_query_tests t ON t.id = r.test_id AND t.is_active = TRUE
+       JOIN validated_queries q ON q.id = r.qid
+       WHERE r.id = (
+         SELECT latest.id FROM validated_query_test_runs latest
+         WHERE latest.test_id = r.test_id ORDER BY latest.created_at DESC LIMIT 1
+       )
+       AND r.status <> 'passed'
+       ORDER BY r.created_at DESC`
+    );
+    return (rows as any[]).map(row => ({ ...row, results_json: this.parseJson(row.results_json) }));
+  }
+
+  async getRuns(testId: string, limit = 20): Promise<any[]> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      `SELECT * FROM validated_query_test_runs WHERE test_id = ?
+       ORDER BY created_at DESC
+       LIMIT ${Math.max(1, Math.min(100, Math.floor(limit)))}`,
+      [testId]
+    );
+    return (rows as any[]).map(row => ({ ...row, results_json: this.parseJson(row.results_json) }));
+  }
+
+  describeFailure(result: TestRunResult): string {
+    if (result.error) return result.error;
+    return result.assertions.filter(assertion => !assertion.passed).map(assertion => assertion.message).join('; ');
+  }
+
+  private async evaluate(assertion: TestAssertion, rows: any[], filters: FilterParams): Promise<AssertionResult> {
+    const outcome = (passed: boolean, message: string): AssertionResult => ({ type: assertion.type, passed, message });
+    const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+    const missing = (names: string[]) => rows.length > 0 ? names.filter(name => !columns.includes(name)) : [];
+
+    switch (assertion.type) {
+      case 'row_count': {
+        const tooFew = assertion.min !== undefined && rows.length < assertion.min;
+        const tooMany = assertion.max !== undefined && rows.length > assertion.max;
+        const range = `${assertion.min ?? 0}..${assertion.max ?? '∞'}`;
+        return outcome(!tooFew && !tooMany, `${rows.length} rows, expected ${range}`);
+      }
+
+      case 'not_null': {
+        const absent = missing(assertion.columns);
+        if (absent.length > 0) return outcome(false, `Columns not in the result: ${absent.join(', ')}`);
+        const nullColumns = assertion.columns
+          .map(column => ({ column, count: rows.filter(row => row[column] === null || row[column] === undefined).length }))
+          .filter(entry => entry.count > 0);
+        return nullColumns.length === 0
+          ? outcome(true, `No nulls in ${assertion.columns.join(', ')}`)
+          : outcome(false, nullColumns.map(entry => `${entry.column} is null in ${entry.count} rows`).join(', '));
+      }
+
+      case 'column_type': {
+        if (missing([assertion.column]).length > 0) return outcome(false, `Column ${assertion.column} is not in the result`);
+        const wrong = rows.map(row => row[assertion.column])
+          .filter(value => value !== null && value !== undefined && !this.matchesType(value, assertion.expected));
+        return wrong.length === 0
+          ? outcome(true, `${assertion.column} is ${assertion.expected}`)
+          : outcome(false, `${assertion.column} has ${wrong.length} values that are not ${assertion.expected}, e.g. ${JSON.stringify(wrong.slice(0, MAX_REPORTED))}`);
+      }
+
+      case 'unique_key': {
+        const absent = missing(assertion.columns);
+        if (absent.length > 0) return outcome(false, `Columns not in the result: ${absent.join(', ')}`);
+        const seen = new Set<string>();
+        const duplicates = new Set<string>();
+        for (const row of rows) {
+          const key = JSON.stringify(assertion.columns.map(column => row[column]));
+          if (seen.has(key)) duplicates.add(key);
+          seen.add(key);
+        }
+        return duplicates.size === 0
+          ? outcome(true, `${assertion.columns.join(', ')} is unique`)
+          : outcome(false, `${duplicates.size} duplicate keys on ${assertion.columns.join(', ')}, e.g. ${[...duplicates].slice(0, MAX_REPORTED).join(', ')}`);
+      }
+
+      case 'total_matches': {
+        if (missing([assertion.column]).length > 0) return outcome(false, `Column ${assertion.column} is not in the result`);
+        // The other query's approved SQL is run fresh, like the test's own, not read from its cache
+        const other = await this.executor.getApprovedQuery(assertion.query);
+        if (!other?.approved_version) return outcome(false, `${assertion.query} has no approved version`);
+        const otherRows = await this.executor.executeVersion(other.id, other.approved_version, assertion.filters || filters);
+        const total = this.sum(rows, assertion.column);
+        const otherTotal = this.sum(otherRows, assertion.other_column);
+        const tolerance = assertion.tolerance ?? DEFAULT_TOLERANCE;
+        const difference = Math.abs(total - otherTotal);
+        const relative = otherTotal === 0 ? (total === 0 ? 0 : Infinity) : difference / Math.abs(otherTotal);
+        return outcome(
+          relative <= tolerance,
+          `Sum of ${assertion.column} is ${total}, ${assertion.query}.${assertion.other_column} sums to ${otherTotal} (${(relative * 100).toFixed(2)}% apart, tolerance ${(tolerance * 100).toFixed(2)}%)`
+        );
+      }
+    }
+  }
+
+  // mysql2 returns DECIMAL and BIGINT columns as strings, so numeric strings count as numbers
+  private matchesType(value: unknown, expected: ColumnType): boolean {
+    switch (expected) {
+      case 'number':
+        return (typeof value === 'number' && Number.isFinite(value)) ||
+          typeof value === 'bigint' ||
+          (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value)));
+      case 'date':
+        return (value instanceof Date && !Number.isNaN(value.getTime())) ||
+          (typeof value === 'string' && /^\d{4}-\d{2}(-\d{2})?/.test(value));
+      case 'boolean':
+        return typeof value === 'boolean' || value === 0 || value === 1;
+      default:
+        return typeof value === 'string';
+    }
+  }
+
+  private sum(rows: any[], column: string): number {
+    return rows.reduce((total, row) => total + (Number(row[column]) || 0), 0);
+  }
+
+  private async recordRun(result: TestRunResult, triggeredBy: string): Promise<void> {
+    try {
+      const db = getDatabase();
+      await db.execute(
+        `INSERT INTO validated_query_test_runs
+           (id, test_id, qid, query_version, status, row_count, results_json, error, duration_ms, triggered_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          uuidv4(), result.test_id, result.qid, result.query_version, result.status, result.row_count,
+          JSON.stringify(result.assertions), result.error || null, result.duration_ms, triggeredBy
+        ]
+      );
+    } catch (error) {
+      logger.error('Failed to record validated query test run:', error);
+    }
+  }
+
+  private parseRow(row: any): any {
+    return {
+      ...row,
+      filters_json: this.parseJson(row.filters_json) ?? {},
+      assertions_json: this.parseJson(row.assertions_json) ?? [],
+    };
+  }
+
+  // JSON columns come back parsed from mysql2, but text values are accepted too
+  private parseJson(value: unknown): any {
+    return typeof value === 'string' && value ? JSON.parse(value) : value;
+  }
+}
@@ -0,0 +1,162 @@
+import { getDatabase } from '../database/init.js';
+import type { ValidatedQuery } from './validatedQueries.js';
+import { EmbeddingProvider, createEmbeddingProvider } from './EmbeddingProvider.js';
+
+export interface QuerySimilarity {
+  qid: string;
+  // Cosine similarity of the question and the query's embedding, 0 to 1
+  similarity: number;
+}
+
+interface StoredVector {
+  qid: string;
+  vector: Float32Array;
+  model: string | null;
+  query_version: number | null;
+  description: string | null;
+}
+
+// Embeddings of approved validated queries in validated_vectors. A vector is rebuilt when the
+// approved version, the description or the embedding model changes; search rebuilds missing
+// and outdated vectors before scoring, so nothing has to be indexed up front.
+export class ValidatedQueryVectors {
+  constructor(private provider: EmbeddingProvider = createEmbeddingProvider()) {}
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  get matchThreshold(): number {
+    return this.provider.matchThreshold;
+  }
+
+  // Similarity of the question to each query, most similar first
+  async search(question: string, queries: ValidatedQuery[]): Promise<QuerySimilarity[]> {
+    if (queries.length === 0) return [];
+
+    const stored = await this.loadVectors(queries.map(query => query.id));
+    const outdated = queries.filter(query => this.isOutdated(query, stored.get(query.id)));
+    if (outdated.length > 0) {
+      for (const [qid, vector] of await this.index(outdated)) {
+        stored.set(qid, vector);
+      }
+    }
+
+    const [questionVector] = await this.provider.embed([question]);
+    return queries
+      .filter(query => stored.has(query.id))
+      .map(query => ({
+        qid: query.id,
+        similarity: Math.max(0, this.cosine(questionVector, stored.get(query.id)!.vector)),
+      }))
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+
+  // Embed queries (approved definitions) and store the vectors
+  async index(queries: ValidatedQuery[]): Promise<Map<string, StoredVector>> {
+    const documents = await Promise.all(queries.map(async query => ({
+      query,
+      columns: await this.resultColumns(query),
+    })));
+    const vectors = await this.provider.embed(documents.map(({ query, columns }) => this.document(query, columns)));
+
+    const db = getDatabase();
+    const indexed = new Map<string, StoredVector>();
+    for (const [i, { query, columns }] of documents.entries()) {
+      const vector = Float32Array.from(vectors[i]);
+      await db.execute(
+        `INSERT INTO validated_vectors (qid, vector, metadata, model, dimensions, query_version)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE vector = VALUES(vector), metadata = VALUES(metadata), model = VALUES(model),
+           dimensions = VALUES(dimensions), query_version = VALUES(query_version)`,
+        [
+          query.id,
+          Buffer.from(vector.buffer),
+          JSON.stringify({ name: query.name, description: query.description ?? null, columns }),
+          this.provider.model,
+          vector.length,
+          query.approved_version ?? null,
+        ]
+      );
+      indexed.set(query.id, {
+        qid: query.id,
+        vector,
+        model: this.provider.model,
+        query_version: query.approved_version ?? null,
+        description: query.description ?? null,
+      });
+    }
+    return indexed;
+  }
+
+  // What gets embedded: the name as words, the description, result columns and the SQL
+  private document(query: ValidatedQuery, columns: string[]): string {
+    return [
+      query.name.replace(/_/g, ' '),
+      query.description || '',
+      columns.length > 0 ? `Columns: ${columns.map(column => column.replace(/_/g, ' ')).join(', ')}` : '',
+      query.sql_text,
+    ].filter(Boolean).join('\n');
+  }
+
+  // Columns of the latest stored run, or the SELECT aliases when the query never ran
+  private async resultColumns(query: ValidatedQuery): Promise<string[]> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      `SELECT JSON_KEYS(JSON_EXTRACT(result_json, '$[0]')) AS column_names
+       FROM validated_results
+       WHERE qid = ?
+       ORDER BY run_stamp DESC
+       LIMIT 1`,
+      [query.id]
+    );
+    const columns = this.parseJson((rows as any[])[0]?.column_names);
+    if (Array.isArray(columns) && columns.length > 0) return columns;
+
+    return [...new Set([...query.sql_text.matchAll(/\bas\s+([A-Za-z_]\w*)/gi)].map(match => match[1]))];
+  }
+
+  private isOutdated(query: ValidatedQuery, stored: StoredVector | undefined): boolean {
+    return !stored
+      || stored.model !== this.provider.model
+      || stored.query_version !== (query.approved_version ?? null)
+      || stored.description !== (query.description ?? null);
+  }
+
+  private async loadVectors(qids: string[]): Promise<Map<string, StoredVector>> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      `SELECT qid, vector, metadata, model, query_version
+       FROM validated_vectors
+       WHERE qid IN (${qids.map(() => '?').join(', ')}) AND vector IS NOT NULL`,
+      qids
+    );
+
+    return new Map((rows as any[]).map(row => [row.qid, {
+      qid: row.qid,
+      // Copied so the floats are aligned, the driver's buffer can start at any offset
+      vector: new Float32Array(Uint8Array.from(row.vector as Buffer).buffer),
+      model: row.model,
+      query_version: row.query_version,
+      description: this.parseJson(row.metadata)?.description ?? null,
+    }]));
+  }
+
+  private cosine(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    if (a.length !== b.length) return 0;
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
+  // JSON columns come back parsed from mysql2, but text values are accepted too
+  private parseJson(value: unknown): any {
+    return typeof value === 'string' && value ? JSON.parse(value) : value;
+  }
+}
@@ -0,0 +1,304 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../database/init.js';
+import type { ValidatedQuery, ValidatedQueryParam } from './validatedQueries.js';
+
+export type ValidatedQueryStatus = 'draft' | 'in_review' | 'approved' | 'deprecated';
+
+// Thrown when a review action does not apply to the version's current status
+export class VersionStatusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VersionStatusError';
+  }
+}
+
+export interface ValidatedQueryVersion {
+  id: string;
+  qid: string;
+  version: number;
+  name: string;
+  scope: ValidatedQuery['scope'];
+  sql_text: string;
+  param_schema: ValidatedQueryParam[] | null;
+  chart_hint: string;
+  change_note: string | null;
+  diff_json: VersionDiff | null;
+  author: string;
+  created_at: Date;
+  status: ValidatedQueryStatus;
+  submitted_by: string | null;
+  submitted_at: Date | null;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  review_note: string | null;
+  test_result_json: VersionTestResult | null;
+}
+
+export interface VersionTestResult {
+  success: boolean;
+  row_count?: number;
+  error?: string;
+  filters: Record<string, unknown>;
+}
+
+export interface SqlDiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  line: string;
+}
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface VersionDiff {
+  // Line diff of sql_text, null when the SQL did not change
+  sql: SqlDiffLine[] | null;
+  // chart_hint, name, scope and param_schema changes
+  fields: Record<string, FieldChange>;
+}
+
+// Definition fields that make up a version; any change to one of them creates a new version
+export const VERSIONED_FIELDS = ['name', 'scope', 'sql_text', 'param_schema', 'chart_hint'] as const;
+
+type VersionedDefinition = Pick<ValidatedQueryVersion, typeof VERSIONED_FIELDS[number]>;
+
+// Above this many lines on either side the SQL is shown as fully replaced instead of diffed line by line
+const MAX_DIFF_LINES = 2000;
+
+// Immutable edit history of validated queries: each version keeps the full definition,
+// who changed it and why, and what changed compared to the version before it.
+export class ValidatedQueryVersions {
+  async listVersions(qid: string): Promise<ValidatedQueryVersion[]> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      'SELECT * FROM validated_query_versions WHERE qid = ? ORDER BY version DESC',
+      [qid]
+    );
+    return (rows as any[]).map(row => this.parseRow(row));
+  }
+
+  async getVersion(qid: string, version: number): Promise<ValidatedQueryVersion | null> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      'SELECT * FROM validated_query_versions WHERE qid = ? AND version = ?',
+      [qid, version]
+    );
+    const row = (rows as any[])[0];
+    return row ? this.parseRow(row) : null;
+  }
+
+  async getLatestVersion(qid: string): Promise<ValidatedQueryVersion | null> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      'SELECT * FROM validated_query_versions WHERE qid = ? ORDER BY version DESC LIMIT 1',
+      [qid]
+    );
+    const row = (rows as any[])[0];
+    return row ? this.parseRow(row) : null;
+  }
+
+  // Store the query's current definition as its next version and point current_version at it.
+  // Returns null when nothing versioned changed since the latest version. The query row is locked
+  // while the next number is picked, so concurrent edits get consecutive versions instead of a
+  // duplicate key error.
+  async recordVersion(query: ValidatedQuery, author: string, changeNote?: string | null): Promise<ValidatedQueryVersion | null> {
+    const definition = this.definitionOf(query);
+    const connection = await getDatabase().getConnection();
+    let version: number;
+
+    try {
+      await connection.beginTransaction();
+      await connection.execute('SELECT id FROM validated_queries WHERE id = ? FOR UPDATE', [query.id]);
+      const [rows] = await connection.execute(
+        'SELECT * FROM validated_query_versions WHERE qid = ? ORDER BY version DESC LIMIT 1',
+        [query.id]
+      );
+      const latestRow = (rows as any[])[0];
+      const latest = latestRow ? this.parseRow(latestRow) : null;
+      const diff = latest ? this.diffDefinitions(latest, definition) : null;
+
+      if (latest && diff && !diff.sql && Object.keys(diff.fields).length === 0) {
+        await connection.rollback();
+        return null;
+      }
+
+      version = (latest?.version || 0) + 1;
+      await connection.execute(
+        `INSERT INTO validated_query_versions
+           (id, qid, version, name, scope, sql_text, param_schema, chart_hint, change_note, diff_json, author)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          uuidv4(), query.id, version, definition.name, definition.scope, definition.sql_text,
+          definition.param_schema ? JSON.stringify(definition.param_schema) : null,
+          definition.chart_hint, changeNote || null, diff ? JSON.stringify(diff) : null, author
+        ]
+      );
+      await connection.execute('UPDATE validated_queries SET current_version = ? WHERE id = ?', [version, query.id]);
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    return this.getVersion(query.id, version);
+  }
+
+  // draft -> in_review, by any author
+  async submitForReview(qid: string, version: number, userId: string): Promise<ValidatedQueryVersion> {
+    await this.transition(qid, version, ['draft'], 'in_review',
+      'submitted_by = ?, submitted_at = NOW(), reviewed_by = NULL, reviewed_at = NULL, review_note = NULL', [userId]);
+    return (await this.getVersion(qid, version))!;
+  }
+
+  // in_review -> approved. The previously approved version is deprecated and the
+  // query starts serving this one.
+  async approve(
+    qid: string,
+    version: number,
+    approver: string,
+    testResult: VersionTestResult,
+    note?: string
+  ): Promise<ValidatedQueryVersion> {
+    await this.transition(qid, version, ['in_review'], 'approved',
+      'reviewed_by = ?, reviewed_at = NOW(), review_note = ?, test_result_json = ?',
+      [approver, note || null, JSON.stringify(testResult)]);
+
+    const db = getDatabase();
+    await db.execute(
+      `UPDATE validated_query_versions SET status = 'deprecated'
+       WHERE qid = ? AND status = 'approved' AND version <> ?`,
+      [qid, version]
+    );
+    await db.execute(
+      'UPDATE validated_queries SET approved_version = ?, validated_by = ?, validated_at = NOW() WHERE id = ?',
+      [version, approver, qid]
+    );
+    return (await this.getVersion(qid, version))!;
+  }
+
+  // in_review -> draft, sent back to the author with a note
+  async reject(qid: string, version: number, reviewer: string, note: string): Promise<ValidatedQueryVersion> {
+    await this.transition(qid, version, ['in_review'], 'draft',
+      'reviewed_by = ?, reviewed_at = NOW(), review_note = ?', [reviewer, note]);
+    return (await this.getVersion(qid, version))!;
+  }
+
+  // approved -> deprecated; the query is no longer served until another version is approved
+  async deprecate(qid: string, version: number, reviewer: string, note?: string): Promise<ValidatedQueryVersion> {
+    await this.transition(qid, version, ['approved'], 'deprecated',
+      'reviewed_by = ?, reviewed_at = NOW(), review_note = ?', [reviewer, note || null]);
+
+    const db = getDatabase();
+    await db.execute(
+      'UPDATE validated_queries SET approved_version = NULL WHERE id = ? AND approved_version = ?',
+      [qid, version]
+    );
+    return (await this.getVersion(qid, version))!;
+  }
+
+  // The status check is part of the UPDATE so two concurrent reviews cannot both succeed
+  private async transition(
+    qid: string,
+    version: number,
+    from: ValidatedQueryStatus[],
+    to: ValidatedQueryStatus,
+    assignments: string,
+    params: any[]
+  ): Promise<void> {
+    const db = getDatabase();
+    const [result] = await db.execute(
+      `UPDATE validated_query_versions SET status = ?, ${assignments}
+       WHERE qid = ? AND version = ? AND status IN (${from.map(() => '?').join(', ')})`,
+      [to, ...params, qid, version, ...from]
+    );
+
+    if ((result as any).affectedRows === 0) {
+      const current = await this.getVersion(qid, version);
+      throw new VersionStatusError(current
+        ? `Version ${version} is ${current.status.replace('_', ' ')}, expected ${from.map(status => status.replace('_', ' ')).join(' or ')}`
+        : `Version ${version} not found`);
+    }
+  }
+
+  diffDefinitions(before: VersionedDefinition, after: VersionedDefinition): VersionDiff {
+    const fields: Record<string, FieldChange> = {};
+    for (const field of VERSIONED_FIELDS) {
+      if (field === 'sql_text') continue;
+      if (JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)) {
+        fields[field] = { from: before[field] ?? null, to: after[field] ?? null };
+      }
+    }
+
+    return {
+      sql: before.sql_text === after.sql_text ? null : this.diffLines(before.sql_text, after.sql_text),
+      fields,
+    };
+  }
+
+  // Line diff over the longest common subsequence of the two texts
+  diffLines(before: string, after: string): SqlDiffLine[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+      return [
+        ...a.map(line => ({ type: 'removed' as const, line })),
+        ...b.map(line => ({ type: 'added' as const, line })),
+      ];
+    }
+
+    // common[i][j] = length of the LCS of a[i..] and b[j..]
+    const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+      }
+    }
+
+    const lines: SqlDiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        lines.push({ type: 'unchanged', line: a[i] });
+        i++;
+        j++;
+      } else if (common[i + 1][j] >= common[i][j + 1]) {
+        lines.push({ type: 'removed', line: a[i++] });
+      } else {
+        lines.push({ type: 'added', line: b[j++] });
+      }
+    }
+    while (i < a.length) lines.push({ type: 'removed', line: a[i++] });
+    while (j < b.length) lines.push({ type: 'added', line: b[j++] });
+
+    return lines;
+  }
+
+  private definitionOf(query: ValidatedQuery): VersionedDefinition {
+    return {
+      name: query.name,
+      scope: query.scope,
+      sql_text: query.sql_text,
+      param_schema: this.parseJson(query.param_schema) ?? null,
+      chart_hint: query.chart_hint,
+    };
+  }
+
+  private parseRow(row: any): ValidatedQueryVersion {
+    return {
+      ...row,
+      param_schema: this.parseJson(row.param_schema) ?? null,
+      diff_json: this.parseJson(row.diff_json) ?? null,
+      test_result_json: this.parseJson(row.test_result_json) ?? null,
+    };
+  }
+
+  // JSON columns come back parsed from mysql2, but text values are accepted too
+  private parseJson(value: unknown): any {
+    return typeof value === 'string' && value ? JSON.parse(value) : value;
+  }
+}
@@ -0,0 +1,246 @@
+import { getDatabase } from '../database/init.js';
+import type { FilterParams } from './validatedQueries.js';
+
+export interface ValidatedResultSnapshot {
+  id: string;
+  qid: string;
+  run_stamp: Date;
+  query_version: number | null;
+  filters: FilterParams;
+  row_count: number;
+  // Only when a single snapshot is read
+  data?: any[];
+}
+
+export interface SnapshotListOptions {
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface SnapshotValueChange {
+  from: unknown;
+  to: unknown;
+  // to - from when both values are numeric
+  delta: number | null;
+}
+
+export interface SnapshotRowChange {
+  key: Record<string, unknown>;
+  changes: Record<string, SnapshotValueChange>;
+}
+
+export interface SnapshotDiff {
+  // Columns identifying a row in both snapshots; rows are compared whole when empty
+  key_columns: string[];
+  added: any[];
+  removed: any[];
+  changed: SnapshotRowChange[];
+  unchanged: number;
+}
+
+// Filter values a snapshot must have for the caller to see it, e.g. { am: 'jane@bosta.co' }
+export type SnapshotRestrictions = Record<string, string>;
+
+// Past runs of validated queries as stored in validated_results. Snapshots are matched to a
+// filter set by JSON equality, so the key order the filters were stored with does not matter.
+export class ValidatedResultSnapshots {
+  // Snapshots of a query, newest first: of one filter set, or of every filter set when filters is null
+  async list(
+    qid: string,
+    filters: FilterParams | null,
+    restrictions: SnapshotRestrictions,
+    options: SnapshotListOptions = {}
+  ): Promise<ValidatedResultSnapshot[]> {
+    const conditions = ['qid = ?'];
+    const params: any[] = [qid];
+
+    if (filters) {
+      conditions.push('filter_json = CAST(? AS JSON)');
+      params.push(JSON.stringify(filters));
+    }
+    if (options.from) {
+      conditions.push('run_stamp >= ?');
+      params.push(options.from);
+    }
+    if (options.to) {
+      conditions.push('run_stamp <= ?');
+      params.push(options.to);
+    }
+    this.restrict(conditions, params, restrictions);
+
+    const limit = Math.max(1, Math.min(200, Math.floor(options.limit || 50)));
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      `SELECT id, qid, run_stamp, query_version, filter_json, JSON_LENGTH(result_json) AS row_count
+       FROM validated_results
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY run_stamp DESC
+       LIMIT ${limit}`,
+      params
+    );
+    return (rows as any[]).map(row => this.parseRow(row));
+  }
+
+  async get(qid: string, id: string, restrictions: SnapshotRestrictions): Promise<ValidatedResultSnapshot | null> {
+    const conditions = ['qid = ?', 'id = ?'];
+    const params: any[] = [qid, id];
+    this.restrict(conditions, params, restrictions);
+
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      `SELECT * FROM validated_results WHERE ${conditions.join(' AND ')}`,
+      params
+    );
+    const row = (rows as any[])[0];
+    return row ? this.parseRow(row, true) : null;
+  }
+
+  // What the query returned for a filter set as of a point in time: the latest run at or before it
+  async asOf(qid: string, filters: FilterParams, at: Date, restrictions: SnapshotRestrictions): Promise<ValidatedResultSnapshot | null> {
+    const conditions = ['qid = ?', 'filter_json = CAST(? AS JSON)', 'run_stamp <= ?'];
+    const params: any[] = [qid, JSON.stringify(filters), at];
+    this.restrict(conditions, params, restrictions);
+
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      `SELECT * FROM validated_results
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY run_stamp DESC
+       LIMIT 1`,
+      params
+    );
+    const row = (rows as any[])[0];
+    return row ? this.parseRow(row, true) : null;
+  }
+
+  // Row by row difference between two result sets. Rows are matched on keyColumns, by default
+  // the columns that are not numeric (dates, zones, names); when that does not identify rows
+  // uniquely, whole rows are compared and changes show up as a removed and an added row.
+  diff(before: any[], after: any[], keyColumns?: string[]): SnapshotDiff {
+    const columns = [...new Set([...before, ...after].flatMap(row => Object.keys(row)))];
+    const key = keyColumns?.length ? keyColumns : columns.filter(column =>
+      [...before, ...after].some(row => row[column] !== null && row[column] !== undefined && !this.isNumeric(row[column]))
+    );
+
+    const beforeByKey = key.length > 0 ? this.indexRows(before, key) : null;
+    const afterByKey = key.length > 0 ? this.indexRows(after, key) : null;
+    if (!beforeByKey || !afterByKey) {
+      return this.diffWholeRows(before, after);
+    }
+
+    const diff: SnapshotDiff = { key_columns: key, added: [], removed: [], changed: [], unchanged: 0 };
+    for (const [rowKey, row] of beforeByKey) {
+      const next = afterByKey.get(rowKey);
+      if (!next) {
+        diff.removed.push(row);
+        continue;
+      }
+
+      const changes: Record<string, SnapshotValueChange> = {};
+      for (const column of columns) {
+        if (key.includes(column) || this.sameValue(row[column], next[column])) continue;
+        changes[column] = {
+          from: row[column] ?? null,
+          to: next[column] ?? null,
+          delta: this.isNumeric(row[column]) && this.isNumeric(next[column])
+            ? Number(next[column]) - Number(row[column])
+            : null,
+        };
+      }
+
+      if (Object.keys(changes).length > 0) {
+        diff.changed.push({ key: Object.fromEntries(key.map(column => [column, row[column]])), changes });
+      } else {
+        diff.unchanged++;
+      }
+    }
+    for (const [rowKey, row] of afterByKey) {
+      if (!beforeByKey.has(rowKey)) diff.added.push(row);
+    }
+
+    return diff;
+  }
+
+  private diffWholeRows(before: any[], after: any[]): SnapshotDiff {
+    // Multiset of serialized rows, so duplicated rows are counted
+    const remaining = new Map<string, number>();
+    for (const row of before) {
+      const serialized = this.serialize(row);
+      remaining.set(serialized, (remaining.get(serialized) || 0) + 1);
+    }
+
+    const diff: SnapshotDiff = { key_columns: [], added: [], removed: [], changed: [], unchanged: 0 };
+    for (const row of after) {
+      const serialized = this.serialize(row);
+      const count = remaining.get(serialized) || 0;
+      if (count > 0) {
+        remaining.set(serialized, count - 1);
+        diff.unchanged++;
+      } else {
+        diff.added.push(row);
+      }
+    }
+    for (const row of before) {
+      const serialized = this.serialize(row);
+      const count = remaining.get(serialized) || 0;
+      if (count > 0) {
+        remaining.set(serialized, count - 1);
+        diff.removed.push(row);
+      }
+    }
+
+    return diff;
+  }
+
+  // Rows by their key values, null when a key occurs twice
+  private indexRows(rows: any[], key: string[]): Map<string, any> | null {
+    const index = new Map<string, any>();
+    for (const row of rows) {
+      const rowKey = JSON.stringify(key.map(column => row[column] ?? null));
+      if (index.has(rowKey)) return null;
+      index.set(rowKey, row);
+    }
+    return index;
+  }
+
+  private restrict(conditions: string[], params: any[], restrictions: SnapshotRestrictions): void {
+    for (const [param, value] of Object.entries(restrictions)) {
+      conditions.push('JSON_UNQUOTE(JSON_EXTRACT(filter_json, ?)) = ?');
+      params.push(`$."${param}"`, value);
+    }
+  }
+
+  private sameValue(a: unknown, b: unknown): boolean {
+    if (this.isNumeric(a) && this.isNumeric(b)) return Number(a) === Number(b);
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+  }
+
+  // Drivers return DECIMAL columns as strings, so numeric strings count as numbers
+  private isNumeric(value: unknown): boolean {
+    if (typeof value === 'number') return Number.isFinite(value);
+    return typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value));
+  }
+
+  private serialize(row: any): string {
+    return JSON.stringify(Object.keys(row).sort().map(column => [column, row[column]]));
+  }
+
+  private parseRow(row: any, withData = false): ValidatedResultSnapshot {
+    const data = withData ? this.parseJson(row.result_json) || [] : undefined;
+    return {
+      id: row.id,
+      qid: row.qid,
+      run_stamp: row.run_stamp,
+      query_version: row.query_version ?? null,
+      filters: this.parseJson(row.filter_json) || {},
+      row_count: data ? data.length : Number(row.row_count) || 0,
+      ...(data ? { data } : {}),
+    };
+  }
+
+  // JSON columns come back parsed from mysql2, but text values are accepted too
+  private parseJson(value: unknown): any {
+    return typeof value === 'string' && value ? JSON.parse(value) : value;
+  }
+}
@@ -11,6 +11,7 @@ const ORG_UNIT_ROLE_MAPPING: Record<string, string> = {
   'ACCOUNT_MANAGEMENT_MANAGER': 'am',
   'FINANCE_REVENUE_SUPERVISOR': 'analyst',
   'OPERATIONS_DIRECTOR': 'leader',
+  'DATA_TEAM_MEMBER': 'data_team',
   'DEFAULT_ANALYST': 'analyst'
 };
 
@@ -1,7 +1,31 @@
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
-import { getDatabase, getDeliveriesDatabase, getRedis, getRedshiftDatabase, executeRedshiftQuery } from '../database/init.js';
+import { getDatabase, getDeliveriesDatabase, getRedshiftDatabase, executeRedshiftQuery } from '../database/init.js';
+import { executeMySQLWithDeadline, QueryCancelledError, QueryTimeoutError } from '../database/queryExecution.js';
 import mysql from 'mysql2/promise';
+import { RowLevelSecurity, RowLevelIdentity } from './RowLevelSecurity.js';
+import { PlaceholderBinder, BindValues } from './PlaceholderBinder.js';
+import { QueryParameterSchema } from './QueryParameterSchema.js';
+import {
+  ValidatedQueryVersions,
+  ValidatedQueryVersion,
+  ValidatedQueryStatus,
+  VersionStatusError,
+  VersionTestResult
+} from './ValidatedQueryVersions.js';
+import { ValidatedQueryTests, TestRunResult } from './ValidatedQueryTests.js';
+import { FilterUsageHistory } from './FilterUsageHistory.js';
+import { validatedQueryEvents, ResultSource } from './ValidatedQueryEvents.js';
+import { cacheStore } from './CacheStore.js';
+import { ValidatedQueryVectors } from './ValidatedQueryVectors.js';
+import { cacheTag } from './CacheTags.js';
+import {
+  ValidatedResultSnapshots,
+  ValidatedResultSnapshot,
+  SnapshotDiff,
+  SnapshotListOptions,
+  SnapshotRestrictions
+} from './ValidatedResultSnapshots.js';
 
 export interface ValidatedQuery {
   id: string;
@@ -9,15 +33,40 @@ export interface ValidatedQuery {
   scope: 'AM' | 'AMM' | 'ALL';
   sql_text: string;
   chart_hint: string;
-  validated_by: string;
+  // Email of the data team member who approved the served version
+  validated_by: string | null;
   validated_at: Date;
   active: boolean;
+  param_schema?: ValidatedQueryParam[] | null;
+  current_version?: number;
+  approved_version?: number | null;
+  // Review status of current_version
+  status?: ValidatedQueryStatus;
+  // What the query answers in business terms; embedded for question matching, not versioned
+  description?: string | null;
+  // Cache freshness overrides, null for the defaults
+  cache_soft_ttl_seconds?: number | null;
+  cache_hard_ttl_seconds?: number | null;
+}
+
+export type ValidatedQueryParamType = 'date' | 'int' | 'string' | 'enum' | 'list';
+
+// One entry of a validated query's param_schema; every :placeholder in sql_text is declared here
+export interface ValidatedQueryParam {
+  name: string;
+  type: ValidatedQueryParamType;
+  required?: boolean;
+  default?: string | number | Array<string | number>;
+  // Fixed choices for enum (and list items)
+  allowed_values?: Array<string | number>;
+  // sql_param of the filter dimension whose options the value must be one of
+  dimension?: string;
 }
 
 export interface FilterParams {
   start_date?: string;
   end_date?: string;
-  merchant_id?: string;
+  merchant_id?: string | string[];
   region?: string;
   tier?: string;
   am?: string;
@@ -26,6 +75,7 @@ export interface FilterParams {
 
 export interface ValidatedResult {
   qid: string;
+  query_version?: number | null;
   run_stamp: Date;
   filter_json: FilterParams;
   result_json: any[];
@@ -40,28 +90,110 @@ export interface FilterDimension {
   is_active: boolean;
 }
 
+// Served definition: the approved version's fields over the query row
+const APPROVED_QUERY_SELECT = `
+  SELECT q.id, v.name, v.scope, v.sql_text, v.param_schema, v.chart_hint, q.description, q.validated_by, q.validated_at,
+         q.active, q.current_version, q.approved_version, v.status,
+         q.cache_soft_ttl_seconds, q.cache_hard_ttl_seconds
+  FROM validated_queries q
+  JOIN validated_query_versions v ON v.qid = q.id AND v.version = q.approved_version
+  WHERE q.active = TRUE`;
+
+const WORKING_COPY_SELECT = `
+  SELECT q.*, v.status
+  FROM validated_queries q
+  LEFT JOIN validated_query_versions v ON v.qid = q.id AND v.version = q.current_version
+  WHERE q.active = TRUE`;
+
+// Roles allowed to approve, send back and deprecate validated query versions
+export const DATA_TEAM_ROLES = ['data_team'];
+
+// Result of executeValidatedQuery with where it came from and how fresh it is
+export interface ValidatedQueryExecution {
+  data: any[];
+  cached: boolean;
+  // Served from cache past its soft TTL; a background refresh is on its way
+  stale: boolean;
+  computedAt: string | null;
+  source: ResultSource | null;
+  // Socket channel announcing refreshes of this result
+  refreshChannel: string;
+  // Filters the result was computed with: defaults, param_schema and row-level filters applied
+  filters: FilterParams;
+  enforcedFilters: Record<string, string>;
+  ignoredFilters: string[];
+  version: number;
+}
+
+// Redis entry of a cached result
+interface CachedResult {
+  data: any[];
+  computed_at: string | null;
+  source: ResultSource | null;
+  version: number | null;
+}
+
+// Cache keys with a background refresh running in this process
+const refreshingKeys = new Set<string>();
+
 export class ValidatedQueriesService {
-  private readonly CACHE_TTL = 24 * 60 * 60; // 24 hours
+  // Default hard and soft TTLs of cached results; a query's cache_*_ttl_seconds override them
+  private readonly CACHE_TTL = parseInt(process.env.VALIDATED_QUERY_HARD_TTL_SECONDS || '') || 24 * 60 * 60; // 24 hours
+  private readonly SOFT_CACHE_TTL = parseInt(process.env.VALIDATED_QUERY_SOFT_TTL_SECONDS || '') || 60 * 60; // 1 hour
   private readonly FILTER_CACHE_TTL = 12 * 60 * 60; // 12 hours for filter options
-
-  // Get all active validated queries
+  private readonly QUERY_TIMEOUT_MS = parseInt(process.env.VALIDATED_QUERY_TIMEOUT_MS || '120000');
+  private rowLevelSecurity = new RowLevelSecurity();
+  private placeholderBinder = new PlaceholderBinder();
+  private parameterSchema = new QueryParameterSchema();
+  private versions = new ValidatedQueryVersions();
+  private tests = new ValidatedQueryTests(this);
+  private usage = new FilterUsageHistory();
+  private snapshots = new ValidatedResultSnapshots();
+  private vectors = new ValidatedQueryVectors();
+
+  // Get all active validated queries with an approved version, as that version defines them.
+  // This is all dashboards, materialization and QueryAnswerAgent ever see.
   async getValidatedQueries(scope?: string): Promise<ValidatedQuery[]> {
     const db = getDatabase();
     const queries = `
-      SELECT * FROM validated_queries 
-      WHERE active = TRUE 
-      ${scope ? 'AND scope IN (?, "ALL")' : ''}
-      ORDER BY name
+      ${APPROVED_QUERY_SELECT}
+      ${scope ? 'AND v.scope IN (?, "ALL")' : ''}
+      ORDER BY v.name
+    `;
+    const params = scope ? [scope] : [];
+    const [rows] = await db.execute(queries, params);
+    return rows as ValidatedQuery[];
+  }
+
+  // Approved definition of one query by ID or name, null when it has no approved version
+  async getApprovedQuery(identifier: string): Promise<ValidatedQuery | null> {
+    const db = getDatabase();
+    const [rows] = await db.execute(
+      `${APPROVED_QUERY_SELECT} AND (q.id = ? OR v.name = ?) ORDER BY q.id = ? DESC LIMIT 1`,
+      [identifier, identifier, identifier]
+    );
+    const results = rows as ValidatedQuery[];
+    return results[0] || null;
+  }
+
+  // Working copies of all active queries with the review status of their latest version,
+  // including drafts (for authors and the data team)
+  async getAllValidatedQueries(scope?: string): Promise<ValidatedQuery[]> {
+    const db = getDatabase();
+    const queries = `
+      ${WORKING_COPY_SELECT}
+      ${scope ? 'AND q.scope IN (?, "ALL")' : ''}
+      ORDER BY q.name
     `;
     const params = scope ? [scope] : [];
     const [rows] = await db.execute(queries, params);
     return rows as ValidatedQuery[];
   }
 
-  // Get a specific validated query by ID
+  // Get a specific validated query by ID (working copy)
   async getValidatedQuery(id: string): Promise<ValidatedQuery | null> {
     const db = getDatabase();
-    const query = 'SELECT * FROM validated_queries WHERE id = ? AND active = TRUE';
+    const query = `${WORKING_COPY_SELECT} AND q.id = ?`;
     const [rows] = await db.execute(query, [id]);
     const results = rows as ValidatedQuery[];
     return results[0] || null;
@@ -70,7 +202,7 @@ export class ValidatedQueriesService {
   // Get a specific validated query by name
   async getValidatedQueryByName(name: string): Promise<ValidatedQuery | null> {
     const db = getDatabase();
-    const query = 'SELECT * FROM validated_queries WHERE name = ? AND active = TRUE';
+    const query = `${WORKING_COPY_SELECT} AND q.name = ?`;
     const [rows] = await db.execute(query, [name]);
     const results = rows as ValidatedQuery[];
     return results[0] || null;
@@ -89,71 +221,423 @@ export class ValidatedQueriesService {
     return query;
   }
 
-  // Create new validated query
-  async createValidatedQuery(data: Omit<ValidatedQuery, 'id'>): Promise<string> {
+  // Create new validated query; its definition is stored as draft version 1 and
+  // nothing is served until the data team approves a version
+  async createValidatedQuery(data: Omit<ValidatedQuery, 'id'>, author = 'system', changeNote?: string): Promise<string> {
     const db = getDatabase();
     const id = uuidv4();
     const query = `
-      INSERT INTO validated_queries (id, name, scope, sql_text, chart_hint, validated_by, active)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO validated_queries (id, name, scope, sql_text, param_schema, chart_hint, description, validated_by, active)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
     await db.execute(query, [
-      id, data.name, data.scope, data.sql_text, 
-      data.chart_hint, data.validated_by, data.active
+      id, data.name, data.scope, data.sql_text,
+      data.param_schema ? JSON.stringify(data.param_schema) : null,
+      data.chart_hint, data.description ?? null, data.validated_by, data.active
     ]);
+
+    const created = await this.getValidatedQuery(id);
+    if (created) {
+      await this.versions.recordVersion(created, author, changeNote || 'Initial version');
+    }
     return id;
   }
 
-  // Update validated query
-  async updateValidatedQuery(id: string, data: Partial<ValidatedQuery>): Promise<void> {
+  // Update validated query. A change to its definition is stored as a new draft version and
+  // the approved version keeps being served; returns the new version, or null when only
+  // unversioned fields (e.g. active) changed.
+  async updateValidatedQuery(
+    id: string,
+    data: Partial<ValidatedQuery>,
+    author = 'system',
+    changeNote?: string
+  ): Promise<ValidatedQueryVersion | null> {
     const db = getDatabase();
     const updates = Object.keys(data).map(key => `${key} = ?`).join(', ');
-    const values = Object.values(data);
+    const values = Object.entries(data).map(([key, value]) =>
+      key === 'param_schema' && value ? JSON.stringify(value) : value
+    );
     const query = `UPDATE validated_queries SET ${updates} WHERE id = ?`;
     await db.execute(query, [...values, id]);
-    
-    // Invalidate all cache for this query
-    await this.invalidateQueryCache(id);
+
+    const updated = await this.getValidatedQuery(id);
+    return updated ? this.versions.recordVersion(updated, author, changeNote) : null;
+  }
+
+  // Restore the definition of an earlier version. The rollback itself becomes a new
+  // draft version, so the history is never rewritten and the restore is reviewed like any edit.
+  async rollbackValidatedQuery(
+    id: string,
+    targetVersion: number,
+    author: string,
+    changeNote?: string
+  ): Promise<ValidatedQueryVersion | null> {
+    const target = await this.versions.getVersion(id, targetVersion);
+    if (!target) {
+      throw new Error(`Version ${targetVersion} not found`);
+    }
+
+    return this.updateValidatedQuery(id, {
+      name: target.name,
+      scope: target.scope,
+      sql_text: target.sql_text,
+      param_schema: target.param_schema,
+      chart_hint: target.chart_hint,
+    }, author, changeNote || `Rolled back to version ${targetVersion}`);
+  }
+
+  async getVersionHistory(id: string): Promise<ValidatedQueryVersion[]> {
+    return this.versions.listVersions(id);
+  }
+
+  async getVersion(id: string, version: number): Promise<ValidatedQueryVersion | null> {
+    return this.versions.getVersion(id, version);
+  }
+
+  async submitVersion(id: string, version: number, userId: string): Promise<ValidatedQueryVersion> {
+    return this.versions.submitForReview(id, version, userId);
   }
 
-  // Execute validated query with filters
-  async executeValidatedQuery(qid: string, filters: FilterParams = {}): Promise<{ data: any[], cached: boolean }> {
-    // Get the validated query by ID or name first to get the actual query ID
-    const validatedQuery = await this.getValidatedQueryByIdOrName(qid);
+  // Approve a version under review once it runs successfully with its parameter defaults and
+  // passes the query's regression tests. validated_by becomes the approver; cached results of
+  // the previous version are dropped.
+  async approveVersion(
+    id: string,
+    version: number,
+    approver: string,
+    note?: string
+  ): Promise<{ approved: boolean; version: ValidatedQueryVersion | null; test: VersionTestResult; tests: TestRunResult[] }> {
+    const candidate = await this.versions.getVersion(id, version);
+    if (!candidate) {
+      throw new VersionStatusError(`Version ${version} not found`);
+    }
+    if (candidate.status !== 'in_review') {
+      throw new VersionStatusError(`Version ${version} is ${candidate.status.replace('_', ' ')}, only versions in review can be approved`);
+    }
+
+    const filters = Object.fromEntries(
+      (candidate.param_schema || [])
+        .filter(param => param.default !== undefined)
+        .map(param => [param.name, param.default])
+    );
+    const run = await this.testQuery(candidate.sql_text, filters);
+    const test: VersionTestResult = {
+      success: run.success,
+      row_count: run.data?.length,
+      error: run.error,
+      filters,
+    };
+    if (!run.success) {
+      return { approved: false, version: candidate, test, tests: [] };
+    }
+
+    const tests = await this.tests.runForQuery(id, version, 'approval');
+    if (tests.some(result => result.status !== 'passed')) {
+      return { approved: false, version: candidate, test, tests };
+    }
+
+    const approved = await this.versions.approve(id, version, approver, test, note);
+    await this.invalidateQueryCache(id, `Version ${version} approved`);
+    // Embed the new definition now rather than on the next question
+    this.getApprovedQuery(id)
+      .then(query => query && this.vectors.index([query]))
+      .catch(error => {
+        console.warn(`[Query] Failed to embed version ${version} of ${id}:`, error);
+      });
+    return { approved: true, version: approved, test, tests };
+  }
+
+  async rejectVersion(id: string, version: number, reviewer: string, note: string): Promise<ValidatedQueryVersion> {
+    return this.versions.reject(id, version, reviewer, note);
+  }
+
+  // Stop serving the approved version; the query disappears from dashboards until a new approval
+  async deprecateApprovedVersion(id: string, reviewer: string, note?: string): Promise<ValidatedQueryVersion> {
+    const query = await this.getValidatedQuery(id);
+    if (!query?.approved_version) {
+      throw new VersionStatusError('This query has no approved version');
+    }
+
+    const deprecated = await this.versions.deprecate(id, query.approved_version, reviewer, note);
+    await this.invalidateQueryCache(id, `Version ${query.approved_version} deprecated`);
+    return deprecated;
+  }
+
+  // Rebuild the question-matching embeddings of every approved query
+  async reindexVectors(): Promise<{ indexed: number; model: string }> {
+    const queries = await this.getValidatedQueries();
+    await this.vectors.index(queries);
+    return { indexed: queries.length, model: this.vectors.model };
+  }
+
+  // What changed between two versions of a query, in either direction
+  async compareVersions(id: string, fromVersion: number, toVersion: number) {
+    const [from, to] = await Promise.all([
+      this.versions.getVersion(id, fromVersion),
+      this.versions.getVersion(id, toVersion),
+    ]);
+    if (!from || !to) return null;
+
+    return {
+      from: { version: from.version, author: from.author, change_note: from.change_note, created_at: from.created_at },
+      to: { version: to.version, author: to.author, change_note: to.change_note, created_at: to.created_at },
+      diff: this.versions.diffDefinitions(from, to),
+    };
+  }
+
+  // Execute validated query with filters.
+  // When an identity is given, row-level policies force the identity placeholders (e.g. :am)
+  // and the request counts toward the filter combinations materialization warms; internal jobs
+  // run without one. signal stops the running statement, refresh skips the cached result.
+  async executeValidatedQuery(
+    qid: string,
+    filters: FilterParams = {},
+    identity?: RowLevelIdentity,
+    signal?: AbortSignal,
+    options: { refresh?: boolean } = {}
+  ): Promise<ValidatedQueryExecution> {
+    // Only the approved version of a query is ever executed
+    const validatedQuery = await this.getApprovedQuery(qid);
     if (!validatedQuery) {
       throw new Error('Validated query not found');
     }
+    // Recorded with the results so a changed number can be traced to the edit behind it
+    const version = validatedQuery.approved_version!;
+
+    const { filters: finalFilters, enforcedFilters, ignoredFilters } = await this.resolveFilters(validatedQuery, filters, identity);
 
-    // Apply default filters if not provided
-    const finalFilters = this.applyDefaultFilters(filters);
+    // Type-check the values against their filter dimensions before anything runs
+    const values = this.placeholderBinder.validate(finalFilters, await this.getFilterDimensions());
+
+    if (identity) {
+      this.usage.record(validatedQuery.id, finalFilters).catch(error => {
+        console.warn(`[Query] Failed to record filter usage of ${validatedQuery.name}:`, error);
+      });
+    }
     
     // Generate cache key using finalFilters (not original filters)
     const cacheKey = this.generateCacheKey(validatedQuery.id, finalFilters);
+    const refreshChannel = `${validatedQuery.id}:${this.hashFilters(finalFilters)}`;
+    const ttl = this.cacheTtls(validatedQuery);
 
-    
-    const redis = getRedis();
-    const cached = await redis.get(cacheKey);
+    const cached = options.refresh ? null : await this.readCachedResult(cacheKey);
     if (cached) {
+      // Past the soft TTL the stale result is served right away and recomputed in the background
+      const ageSeconds = cached.computed_at ? (Date.now() - Date.parse(cached.computed_at)) / 1000 : Infinity;
+      const stale = ageSeconds > ttl.soft;
+      if (stale) {
+        this.refreshInBackground(validatedQuery, finalFilters, values, cacheKey);
+      }
 
       return {
-        data: JSON.parse(cached),
-        cached: true
+        data: cached.data,
+        cached: true,
+        stale,
+        computedAt: cached.computed_at,
+        source: cached.source,
+        refreshChannel,
+        filters: finalFilters,
+        enforcedFilters,
+        ignoredFilters,
+        version
       };
     }
 
+    const { data: results, source } = await this.runQueryText(validatedQuery.sql_text, values, signal);
 
-    
+    // Cache results using the same finalFilters
+    const entry: CachedResult = { data: results, computed_at: new Date().toISOString(), source, version };
+    await this.cacheResults(validatedQuery, finalFilters, entry, ttl.hard);
+
+    return {
+      data: results,
+      cached: false,
+      stale: false,
+      computedAt: entry.computed_at,
+      source,
+      refreshChannel,
+      filters: finalFilters,
+      enforcedFilters,
+      ignoredFilters,
+      version
+    };
+  }
+
+  // Recompute a stale cache entry without holding up the request that found it. The Redis lock
+  // keeps concurrent requests and other server instances from refreshing the same entry.
+  private refreshInBackground(query: ValidatedQuery, filters: FilterParams, values: BindValues, cacheKey: string): void {
+    if (refreshingKeys.has(cacheKey)) return;
+    refreshingKeys.add(cacheKey);
+
+    const lockKey = `${cacheKey}:refreshing`;
+    (async () => {
+      const locked = await cacheStore.setIfAbsent(lockKey, '1', Math.ceil(this.QUERY_TIMEOUT_MS / 1000) * 3);
+      if (!locked) return;
+
+      try {
+        const { data, source } = await this.runQueryText(query.sql_text, values);
+        const entry: CachedResult = { data, computed_at: new Date().toISOString(), source, version: query.approved_version! };
+        await this.cacheResults(query, filters, entry, this.cacheTtls(query).hard);
+      } finally {
+        await cacheStore.del(lockKey);
+      }
+    })()
+      .catch(error => {
+        console.warn(`[Query] Background refresh of ${query.name} failed:`, error);
+      })
+      .finally(() => {
+        refreshingKeys.delete(cacheKey);
+      });
+  }
+
+  // Soft TTL: age after which a cached result is served stale and refreshed.
+  // Hard TTL: age after which it is gone and requests wait for a fresh run.
+  private cacheTtls(query: ValidatedQuery): { soft: number; hard: number } {
+    const hard = query.cache_hard_ttl_seconds || this.CACHE_TTL;
+    const soft = Math.min(query.cache_soft_ttl_seconds || this.SOFT_CACHE_TTL, hard);
+    return { soft, hard };
+  }
+
+  private async readCachedResult(cacheKey: string): Promise<CachedResult | null> {
+    const cached = await cacheStore.get(cacheKey);
+    if (!cached) return null;
+
+    const parsed = JSON.parse(cached);
+    // Entries written before results carried metadata are plain row arrays; they count as stale
+    if (Array.isArray(parsed)) {
+      return { data: parsed, computed_at: null, source: null, version: null };
+    }
+    return parsed as CachedResult;
+  }
+
+  // Apply default filters if not provided, then the query's parameter schema,
+  // then the caller's mandatory row-level filters. The result is the filter set
+  // results are cached and stored under.
+  private async resolveFilters(
+    query: ValidatedQuery,
+    filters: FilterParams,
+    identity?: RowLevelIdentity
+  ): Promise<{ filters: FilterParams; enforcedFilters: Record<string, string>; ignoredFilters: string[] }> {
+    let finalFilters = this.applyDefaultFilters(filters);
+    let ignoredFilters: string[] = [];
+    const paramSchema = this.parameterSchema.parse(query.param_schema);
+    if (paramSchema) {
+      const checked = await this.parameterSchema.validate(finalFilters, paramSchema, param => this.getFilterOptions(param));
+      finalFilters = checked.filters;
+      // Only report what the caller sent, not the default date range
+      ignoredFilters = checked.ignored.filter(key => key in filters);
+    }
+    let enforcedFilters: Record<string, string> = {};
+    if (identity) {
+      const secured = await this.rowLevelSecurity.applyToFilters(query.sql_text, finalFilters, identity);
+      finalFilters = secured.filters;
+      enforcedFilters = secured.enforced;
+    }
+    return { filters: finalFilters, enforcedFilters, ignoredFilters };
+  }
+
+  // Filters a query runs with when none are given: the default date range and param_schema defaults
+  async resolveDefaultFilters(query: ValidatedQuery): Promise<FilterParams> {
+    return (await this.resolveFilters(query, {})).filters;
+  }
+
+  // Stored runs of a query for a filter set, resolved the way executeValidatedQuery resolves it,
+  // or for every filter set when filters is null. Callers only see runs with their row-level filters.
+  async listSnapshots(
+    identifier: string,
+    filters: FilterParams | null,
+    identity?: RowLevelIdentity,
+    options: SnapshotListOptions = {}
+  ): Promise<ValidatedResultSnapshot[] | null> {
+    const query = await this.getSnapshotQuery(identifier);
+    if (!query) return null;
+
+    const restrictions = await this.snapshotRestrictions(query, identity);
+    const resolved = filters ? (await this.resolveFilters(query, filters, identity)).filters : null;
+    return this.snapshots.list(query.id, resolved, restrictions, options);
+  }
+
+  async getSnapshot(identifier: string, snapshotId: string, identity?: RowLevelIdentity): Promise<ValidatedResultSnapshot | null> {
+    const query = await this.getSnapshotQuery(identifier);
+    if (!query) return null;
+    return this.snapshots.get(query.id, snapshotId, await this.snapshotRestrictions(query, identity));
+  }
+
+  // What the query showed for a filter set at a point in time, e.g. at month close
+  async getSnapshotAsOf(
+    identifier: string,
+    filters: FilterParams,
+    at: Date,
+    identity?: RowLevelIdentity
+  ): Promise<ValidatedResultSnapshot | null> {
+    const query = await this.getSnapshotQuery(identifier);
+    if (!query) return null;
+
+    const restrictions = await this.snapshotRestrictions(query, identity);
+    const resolved = await this.resolveFilters(query, filters, identity);
+    return this.snapshots.asOf(query.id, resolved.filters, at, restrictions);
+  }
+
+  async compareSnapshots(
+    identifier: string,
+    fromId: string,
+    toId: string,
+    identity?: RowLevelIdentity,
+    keyColumns?: string[]
+  ): Promise<{ from: ValidatedResultSnapshot; to: ValidatedResultSnapshot; diff: SnapshotDiff } | null> {
+    const [from, to] = await Promise.all([
+      this.getSnapshot(identifier, fromId, identity),
+      this.getSnapshot(identifier, toId, identity),
+    ]);
+    if (!from || !to) return null;
+
+    // The rows are only returned as the diff
+    const { data: fromRows = [], ...fromSnapshot } = from;
+    const { data: toRows = [], ...toSnapshot } = to;
+    return { from: fromSnapshot, to: toSnapshot, diff: this.snapshots.diff(fromRows, toRows, keyColumns) };
+  }
+
+  // Snapshots outlive approval, so a deprecated query's history stays readable
+  private async getSnapshotQuery(identifier: string): Promise<ValidatedQuery | null> {
+    return (await this.getApprovedQuery(identifier)) || this.getValidatedQueryByIdOrName(identifier);
+  }
+
+  private async snapshotRestrictions(query: ValidatedQuery, identity?: RowLevelIdentity): Promise<SnapshotRestrictions> {
+    if (!identity) return {};
+    return (await this.rowLevelSecurity.applyToFilters(query.sql_text, {}, identity)).enforced;
+  }
+
+  // Run one version of a query with fixed filters, bypassing the result cache and row-level
+  // policies. Used by regression tests, including for versions that are still in review.
+  async executeVersion(qid: string, version: number, filters: FilterParams = {}, signal?: AbortSignal): Promise<any[]> {
+    const definition = await this.versions.getVersion(qid, version);
+    if (!definition) {
+      throw new Error(`Version ${version} not found`);
+    }
+
+    let finalFilters = this.applyDefaultFilters(filters);
+    if (definition.param_schema) {
+      const checked = await this.parameterSchema.validate(finalFilters, definition.param_schema, param => this.getFilterOptions(param));
+      finalFilters = checked.filters;
+    }
+    const values = this.placeholderBinder.validate(finalFilters, await this.getFilterDimensions());
+    return (await this.runQueryText(definition.sql_text, values, signal)).data;
+  }
+
+  // Bind the values and run the SQL on Redshift or MySQL, depending on the tables it reads
+  private async runQueryText(sqlText: string, values: BindValues, signal?: AbortSignal): Promise<{ data: any[]; source: ResultSource }> {
     // Determine which database connection to use based on table references in ORIGINAL SQL
-    const usesAnalyticsTables = validatedQuery.sql_text.includes('deliveries') || 
-                               validatedQuery.sql_text.includes('businesses') ||
-                               validatedQuery.sql_text.includes('TO_CHAR') ||
-                               validatedQuery.sql_text.includes('::numeric') ||
-                               validatedQuery.sql_text.includes('${schema}');
+    const usesAnalyticsTables = sqlText.includes('deliveries') || 
+                               sqlText.includes('businesses') ||
+                               sqlText.includes('TO_CHAR') ||
+                               sqlText.includes('::numeric') ||
+                               sqlText.includes('${schema}');
     
-    // Replace placeholders in SQL
-    let sql = this.replacePlaceholders(validatedQuery.sql_text, finalFilters);
+    // Bind placeholders as driver parameters
+    const mysqlQuery = this.placeholderBinder.bind(sqlText, values, 'mysql');
     
     let results: any[];
+    let source: ResultSource = 'mysql';
     
     if (usesAnalyticsTables) {
       // Try Redshift first for analytics tables, fallback to MySQL
@@ -161,39 +645,29 @@ export class ValidatedQueriesService {
       
       if (redshiftDb) {
         try {
-          // For Redshift, use special parameter replacement and schema handling
-          const redshiftSql = this.applyRedshiftSchemaPrefix(
-            this.replacePlaceholdersForRedshift(validatedQuery.sql_text, finalFilters)
+          // For Redshift, apply the schema prefix and bind $n parameters
+          const redshiftQuery = this.placeholderBinder.bind(
+            this.applyRedshiftSchemaPrefix(sqlText), values, 'postgres'
           );
-          results = await this.executeRedshiftQueryWithRetry(redshiftSql);
+          results = await this.executeRedshiftQueryWithRetry(redshiftQuery.sql, redshiftQuery.params, signal);
+          source = 'redshift';
         } catch (redshiftError) {
+          // A query that timed out or was cancelled must not be re-run on the MySQL replica
+          if (this.isStopped(redshiftError)) throw redshiftError;
           console.warn(`[Query] Redshift query failed, falling back to MySQL:`, redshiftError);
-          const deliveriesDb = getDeliveriesDatabase();
-          const [rows] = await deliveriesDb.execute(sql);
-          results = rows as any[];
+          results = await executeMySQLWithDeadline(getDeliveriesDatabase(), mysqlQuery.sql, mysqlQuery.params, { timeoutMs: this.QUERY_TIMEOUT_MS, signal });
         }
       } else {
         console.log(`[Query] No Redshift connection available, using MySQL deliveries database`);
         // No Redshift available, use MySQL deliveries database
-        const deliveriesDb = getDeliveriesDatabase();
-        const [rows] = await deliveriesDb.execute(sql);
-        results = rows as any[];
+        results = await executeMySQLWithDeadline(getDeliveriesDatabase(), mysqlQuery.sql, mysqlQuery.params, { timeoutMs: this.QUERY_TIMEOUT_MS, signal });
       }
     } else {
       // Use main MySQL database for non-analytics queries
-      const dbConnection = getDatabase();
-      const [rows] = await dbConnection.execute(sql);
-      results = rows as any[];
+      results = await executeMySQLWithDeadline(getDatabase(), mysqlQuery.sql, mysqlQuery.params, { timeoutMs: this.QUERY_TIMEOUT_MS, signal });
     }
 
-    // Cache results using the same finalFilters
-    await this.cacheResults(validatedQuery.id, finalFilters, results);
-
-    
-    return {
-      data: results,
-      cached: false
-    };
+    return { data: results, source };
   }
 
   // Get filter dimensions
@@ -210,8 +684,7 @@ export class ValidatedQueriesService {
     const filterCacheKey = this.generateFilterCacheKey(sql_param);
 
     
-    const redis = getRedis();
-    const cached = await redis.get(filterCacheKey);
+    const cached = await cacheStore.get(filterCacheKey);
     if (cached) {
 
       return JSON.parse(cached);
@@ -247,6 +720,7 @@ export class ValidatedQueriesService {
           const redshiftSql = this.applyRedshiftSchemaPrefix(valuesSql);
           options = await this.executeRedshiftQueryWithRetry(redshiftSql);
         } catch (redshiftError) {
+          if (this.isStopped(redshiftError)) throw redshiftError;
           console.warn(`[Filter Query] Redshift query failed, falling back to MySQL:`, redshiftError);
           const deliveriesDb = getDeliveriesDatabase();
           const [optionRows] = await deliveriesDb.execute(valuesSql);
@@ -266,7 +740,7 @@ export class ValidatedQueriesService {
     }
 
     // Cache the filter options
-    await this.cacheFilterOptions(sql_param, options);
+    await this.cacheFilterOptions(sql_param, valuesSql, options);
 
     
     return options;
@@ -284,7 +758,8 @@ export class ValidatedQueriesService {
                                  sql.includes('::numeric') ||
                                  sql.includes('${schema}');
       
-      const processedSql = this.replacePlaceholders(sql, finalFilters);
+      const values = this.placeholderBinder.validate(finalFilters, await this.getFilterDimensions());
+      const mysqlQuery = this.placeholderBinder.bind(sql + ' LIMIT 100', values, 'mysql');
       
       let results: any[];
       
@@ -294,23 +769,23 @@ export class ValidatedQueriesService {
         if (redshiftDb) {
           try {
             // Apply schema prefix for Redshift
-            const redshiftSql = this.applyRedshiftSchemaPrefix(
-              this.replacePlaceholdersForRedshift(sql, finalFilters)
+            const redshiftQuery = this.placeholderBinder.bind(
+              this.applyRedshiftSchemaPrefix(sql) + ' LIMIT 100', values, 'postgres'
             );
-            results = await this.executeRedshiftQueryWithRetry(redshiftSql + ' LIMIT 100');
+            results = await this.executeRedshiftQueryWithRetry(redshiftQuery.sql, redshiftQuery.params);
           } catch (redshiftError) {
             const deliveriesDb = getDeliveriesDatabase();
-            const [rows] = await deliveriesDb.execute(processedSql + ' LIMIT 100');
+            const [rows] = await deliveriesDb.execute(mysqlQuery.sql, mysqlQuery.params);
             results = rows as any[];
           }
         } else {
           const deliveriesDb = getDeliveriesDatabase();
-          const [rows] = await deliveriesDb.execute(processedSql + ' LIMIT 100');
+          const [rows] = await deliveriesDb.execute(mysqlQuery.sql, mysqlQuery.params);
           results = rows as any[];
         }
       } else {
         const dbConnection = getDatabase();
-        const [rows] = await dbConnection.execute(processedSql + ' LIMIT 100');
+        const [rows] = await dbConnection.execute(mysqlQuery.sql, mysqlQuery.params);
         results = rows as any[];
       }
       
@@ -320,21 +795,6 @@ export class ValidatedQueriesService {
     }
   }
 
-  // Materialize all validated queries (for cron job)
-  async materializeAllQueries(): Promise<void> {
-    const queries = await this.getValidatedQueries();
-    const defaultFilters = this.applyDefaultFilters({});
-    
-    for (const query of queries) {
-      try {
-        const result = await this.executeValidatedQuery(query.id, defaultFilters);
-        console.log(`Materialized ${query.name}: ${result.data.length} rows`);
-      } catch (error) {
-        console.error(`Failed to materialize ${query.name}:`, error);
-      }
-    }
-  }
-
   // Warm up filter options cache
   async warmUpFilterCache(): Promise<void> {
 
@@ -358,27 +818,23 @@ export class ValidatedQueriesService {
 
   // Invalidate filter options cache
   async invalidateFilterCache(sql_param?: string): Promise<void> {
-    const redis = getRedis();
-    
     if (sql_param) {
       // Invalidate specific filter
       const filterCacheKey = this.generateFilterCacheKey(sql_param);
-      await redis.del(filterCacheKey);
+      await cacheStore.del(filterCacheKey);
 
     } else {
       // Invalidate all filter caches
-      const pattern = 'filter_options:*';
-      const keys = await redis.keys(pattern);
-      
-      if (keys.length > 0) {
-        await redis.del(keys);
-
-      }
+      await cacheStore.invalidate([cacheTag.kind('filter_options')]);
     }
   }
 
   // Private helper methods
   private generateCacheKey(qid: string, filters: FilterParams): string {
+    return `validated_query:${qid}:${this.hashFilters(filters)}`;
+  }
+
+  private hashFilters(filters: FilterParams): string {
     // Sort the filter object properties to ensure consistent hashing
     const sortedFilters = Object.keys(filters)
       .sort()
@@ -387,10 +843,9 @@ export class ValidatedQueriesService {
         return result;
       }, {} as FilterParams);
       
-    const filterHash = crypto.createHash('md5')
+    return crypto.createHash('md5')
       .update(JSON.stringify(sortedFilters))
       .digest('hex');
-    return `validated_query:${qid}:${filterHash}`;
   }
 
   private generateFilterCacheKey(sql_param: string): string {
@@ -408,103 +863,54 @@ export class ValidatedQueriesService {
     };
   }
 
-  private replacePlaceholders(sql: string, filters: FilterParams): string {
-    let processedSql = sql;
-    
-    // First, find all placeholders in the SQL
-    const placeholderRegex = /:([a-zA-Z_][a-zA-Z0-9_]*)/g;
-    const placeholders = [...sql.matchAll(placeholderRegex)].map(match => match[1]);
-    
-    // Replace each placeholder found in the SQL
-    placeholders.forEach(key => {
-      const placeholder = `:${key}`;
-      const value = filters[key];
-      
-      if (value === null || value === undefined || value === '') {
-        processedSql = processedSql.replace(new RegExp(placeholder, 'g'), 'NULL');
-      } else if (typeof value === 'string') {
-        // Check if this is a multiselect value (comma-separated)
-        if (value.includes(',')) {
-          // Handle multiselect values - convert to IN clause
-          const values = value.split(',').map(v => v.trim()).filter(v => v);
-          if (values.length > 0) {
-            const quotedValues = values.map(v => `'${v.replace(/'/g, "''")}'`).join(', ');
-            
-            // Replace the equality check with IN clause
-            // Transform "field = :param" to "field IN (values)"
-            const equalityPattern = new RegExp(`([a-zA-Z_][a-zA-Z0-9_.]*\\s*=\\s*)${placeholder}`, 'g');
-            processedSql = processedSql.replace(equalityPattern, `$1(${quotedValues})`);
-            
-            // Also handle the NULL check pattern "(:param IS NULL OR field = :param)"
-            const nullCheckPattern = new RegExp(`\\(${placeholder}\\s+IS\\s+NULL\\s+OR\\s+([a-zA-Z_][a-zA-Z0-9_.]*\\s*=\\s*)${placeholder}\\)`, 'gi');
-            processedSql = processedSql.replace(nullCheckPattern, `$1IN (${quotedValues})`);
-          } else {
-            // Empty multiselect - treat as NULL
-            processedSql = processedSql.replace(new RegExp(placeholder, 'g'), 'NULL');
-          }
-        } else {
-          // Single value - normal replacement
-          processedSql = processedSql.replace(new RegExp(placeholder, 'g'), `'${value.replace(/'/g, "''")}'`);
-        }
-      } else {
-        processedSql = processedSql.replace(new RegExp(placeholder, 'g'), String(value));
-      }
-    });
-    
-    return processedSql;
-  }
-
-  private async cacheResults(qid: string, filters: FilterParams, results: any[]): Promise<void> {
-    // Cache in Redis
+  private async cacheResults(query: ValidatedQuery, filters: FilterParams, entry: CachedResult, hardTtl: number): Promise<void> {
+    const { data: results, version } = entry;
+    const qid = query.id;
+    // Cache until the hard TTL, tagged with the query and the tables it reads
     const cacheKey = this.generateCacheKey(qid, filters);
 
-    
-    try {
-      const redis = getRedis();
-      await redis.setEx(cacheKey, this.CACHE_TTL, JSON.stringify(results));
-
-    } catch (redisError) {
-
-    }
+    await cacheStore.set(cacheKey, JSON.stringify(entry), hardTtl, [
+      cacheTag.kind('validated_query'),
+      cacheTag.query(qid),
+      ...this.rowLevelSecurity.referencedTables(query.sql_text).map(cacheTag.table)
+    ]);
+    validatedQueryEvents.emitRefreshed({
+      channel: `${qid}:${this.hashFilters(filters)}`,
+      qid,
+      computed_at: entry.computed_at!,
+      source: entry.source!
+    });
     
     // Persist snapshot to database
     try {
       const db = getDatabase();
       const insertQuery = `
-        INSERT INTO validated_results (qid, run_stamp, filter_json, result_json) 
-        VALUES (?, NOW(), ?, ?)
-        ON DUPLICATE KEY UPDATE result_json = VALUES(result_json)
+        INSERT INTO validated_results (id, qid, query_version, run_stamp, filter_hash, filter_json, result_json) 
+        VALUES (?, ?, ?, NOW(), ?, ?, ?)
+        ON DUPLICATE KEY UPDATE result_json = VALUES(result_json), query_version = VALUES(query_version)
       `;
-      await db.execute(insertQuery, [qid, JSON.stringify(filters), JSON.stringify(results)]);
+      await db.execute(insertQuery, [
+        uuidv4(), qid, version, this.hashFilters(filters), JSON.stringify(filters), JSON.stringify(results)
+      ]);
 
     } catch (dbError) {
 
     }
   }
 
-  private async cacheFilterOptions(sql_param: string, options: any[]): Promise<void> {
+  private async cacheFilterOptions(sql_param: string, valuesSql: string, options: any[]): Promise<void> {
     const filterCacheKey = this.generateFilterCacheKey(sql_param);
 
-    
-    try {
-      const redis = getRedis();
-      await redis.setEx(filterCacheKey, this.FILTER_CACHE_TTL, JSON.stringify(options));
-
-    } catch (redisError) {
-
-    }
+    await cacheStore.set(filterCacheKey, JSON.stringify(options), this.FILTER_CACHE_TTL, [
+      cacheTag.kind('filter_options'),
+      cacheTag.filter(sql_param),
+      ...this.rowLevelSecurity.referencedTables(valuesSql).map(cacheTag.table)
+    ]);
   }
 
-  private async invalidateQueryCache(qid: string): Promise<void> {
-    const redis = getRedis();
-    
-    // Get all cached keys for this query ID
-    const pattern = `validated_query:${qid}:*`;
-    const keys = await redis.keys(pattern);
-    
-    if (keys.length > 0) {
-      await redis.del(keys);
-    }
+  private async invalidateQueryCache(qid: string, reason = 'Query updated'): Promise<void> {
+    // Every cached filter combination of the query
+    await cacheStore.invalidate([cacheTag.query(qid)]);
     
     // Log cache invalidation
     const db = getDatabase();
@@ -513,18 +919,20 @@ export class ValidatedQueriesService {
       INSERT INTO cache_invalidations (id, qid, filter_hash, reason) 
       VALUES (?, ?, ?, ?)
     `;
-    await db.execute(insertQuery, [uuidv4(), qid, filterHash, 'Query updated']);
+    await db.execute(insertQuery, [uuidv4(), qid, filterHash, reason]);
   }
 
   // Helper method to execute Redshift queries with retry logic
-  private async executeRedshiftQueryWithRetry(sql: string, maxRetries = 2): Promise<any[]> {
+  private async executeRedshiftQueryWithRetry(sql: string, params: any[] = [], signal?: AbortSignal, maxRetries = 2): Promise<any[]> {
     let lastError: Error | null = null;
     
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        const results = await executeRedshiftQuery(sql);
+        const results = await executeRedshiftQuery(sql, params, { timeoutMs: this.QUERY_TIMEOUT_MS, signal });
         return results;
       } catch (error) {
+        // Retrying would only hold another connection for the same long-running statement
+        if (this.isStopped(error)) throw error;
         lastError = error as Error;
         console.warn(`[Redshift] Query attempt ${attempt} failed:`, error);
         
@@ -540,6 +948,10 @@ export class ValidatedQueriesService {
     throw lastError || new Error('Redshift query failed after all retry attempts');
   }
 
+  private isStopped(error: unknown): boolean {
+    return error instanceof QueryTimeoutError || error instanceof QueryCancelledError;
+  }
+
   // Helper method to apply Redshift schema prefix to table names
   private applyRedshiftSchemaPrefix(sql: string): string {
     const schema = process.env.REDSHIFT_SCHEMA || 'public';
@@ -551,74 +963,6 @@ export class ValidatedQueriesService {
     // This handles cases where tables are referenced without schema prefix
     processedSql = processedSql.replace(/\b(?<!\.)(deliveries|businesses)\b/g, `${schema}.$1`);
     
-    // Additional Redshift-specific parameter handling
-    // Ensure all string literals are properly quoted for Redshift
-    processedSql = this.ensureRedshiftParameterQuoting(processedSql);
-    
-    return processedSql;
-  }
-
-  // Helper method to ensure proper parameter quoting for Redshift
-  private ensureRedshiftParameterQuoting(sql: string): string {
-    // Fix any cases where parameters might not be properly quoted
-    // Look for patterns like = NULL that should be IS NULL
-    let processedSql = sql.replace(/=\s*NULL/gi, 'IS NULL');
-    processedSql = processedSql.replace(/!=\s*NULL/gi, 'IS NOT NULL');
-    processedSql = processedSql.replace(/<>\s*NULL/gi, 'IS NOT NULL');
-    
     return processedSql;
   }
-
-  // Helper method to replace placeholders for Redshift-specific parameter handling
-  private replacePlaceholdersForRedshift(sql: string, filters: FilterParams): string {
-    let processedSql = sql;
-    
-    // First, find all placeholders in the SQL, but exclude PostgreSQL type casting (::)
-    // Use negative lookbehind to avoid matching :: followed by type names
-    const placeholderRegex = /(?<!:):([a-zA-Z_][a-zA-Z0-9_]*)\b/g;
-    const placeholders = [...sql.matchAll(placeholderRegex)].map(match => match[1]);
-    
-    // Replace each placeholder found in the SQL
-    placeholders.forEach(key => {
-      const placeholder = `:${key}`;
-      const value = filters[key];
-      
-      if (value === null || value === undefined || value === '') {
-        // Use negative lookbehind to avoid replacing type casting
-        const replaceRegex = new RegExp(`(?<!:)${placeholder}\\b`, 'g');
-        processedSql = processedSql.replace(replaceRegex, 'NULL');
-      } else if (typeof value === 'string') {
-        // Check if this is a multiselect value (comma-separated)
-        if (value.includes(',')) {
-          // Handle multiselect values - convert to IN clause
-          const values = value.split(',').map(v => v.trim()).filter(v => v);
-          if (values.length > 0) {
-            const quotedValues = values.map(v => `'${v.replace(/'/g, "''")}'`).join(', ');
-            
-            // Replace the equality check with IN clause
-            // Transform "field = :param" to "field IN (values)"
-            const equalityPattern = new RegExp(`([a-zA-Z_][a-zA-Z0-9_.]*\\s*=\\s*)(?<!:)${placeholder}\\b`, 'g');
-            processedSql = processedSql.replace(equalityPattern, `$1(${quotedValues})`);
-            
-            // Also handle the NULL check pattern "(:param IS NULL OR field = :param)"
-            const nullCheckPattern = new RegExp(`\\((?<!:)${placeholder}\\s+IS\\s+NULL\\s+OR\\s+([a-zA-Z_][a-zA-Z0-9_.]*\\s*=\\s*)(?<!:)${placeholder}\\)`, 'gi');
-            processedSql = processedSql.replace(nullCheckPattern, `$1IN (${quotedValues})`);
-          } else {
-            // Empty multiselect - treat as NULL
-            const replaceRegex = new RegExp(`(?<!:)${placeholder}\\b`, 'g');
-            processedSql = processedSql.replace(replaceRegex, 'NULL');
-          }
-        } else {
-          // Single value - normal replacement
-          const replaceRegex = new RegExp(`(?<!:)${placeholder}\\b`, 'g');
-          processedSql = processedSql.replace(replaceRegex, `'${value.replace(/'/g, "''")}'`);
-        }
-      } else {
-        const replaceRegex = new RegExp(`(?<!:)${placeholder}\\b`, 'g');
-        processedSql = processedSql.replace(replaceRegex, String(value));
-      }
-    });
-    
-    return processedSql;
-  }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LocalEmbeddingProvider } from '../services/EmbeddingProvider.js';
+
+const provider = new LocalEmbeddingProvider();
+
+// Seeded validated queries, embedded the way ValidatedQueryVectors builds their documents
+const QUERIES: Record<string, string> = {
+  AM_VOL_ZONE_DAILY: [
+    'AM VOL ZONE DAILY',
+    'Daily delivery volume per zone (region): number of deliveries and total COD amount by day and zone.',
+    'Columns: delivery date, zone, delivery count, total cod amount',
+  ].join('\n'),
+  AM_REVENUE_MONTHLY: [
+    'AM REVENUE MONTHLY',
+    'Monthly revenue from delivered orders: total revenue, delivery count and average order value per month.',
+    'Columns: month, total revenue, delivery count, avg order value',
+  ].join('\n'),
+  AM_REVENUE_ZONE_DAILY: [
+    'AM REVENUE ZONE DAILY',
+    'Daily revenue per zone (region) from delivered orders, with delivery count and average COD amount.',
+    'Columns: delivery date, zone, daily revenue, delivery count, avg cod amount',
+  ].join('\n'),
+  AM_REVENUE_TYPE_DAILY: [
+    'AM REVENUE TYPE DAILY',
+    'Daily revenue by merchant tier and business type: revenue, order count, average order value and revenue per merchant.',
+    'Columns: delivery date, merchant tier, business type, revenue, order count, avg order value, revenue per merchant',
+  ].join('\n'),
+};
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+async function rank(question: string): Promise<{ qid: string; similarity: number }[]> {
+  const qids = Object.keys(QUERIES);
+  const [questionVector, ...documentVectors] = await provider.embed([question, ...qids.map(qid => QUERIES[qid])]);
+  return qids
+    .map((qid, i) => ({ qid, similarity: cosine(questionVector, documentVectors[i]) }))
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+describe('LocalEmbeddingProvider retrieval', () => {
+  for (const [question, expected] of [
+    ['What was our monthly revenue this year?', 'AM_REVENUE_MONTHLY'],
+    ['How many deliveries per zone each day last week?', 'AM_VOL_ZONE_DAILY'],
+    ['Daily revenue by zone for Cairo', 'AM_REVENUE_ZONE_DAILY'],
+    ['Revenue per merchant tier and business type', 'AM_REVENUE_TYPE_DAILY'],
+  ]) {
+    it(`matches "${question}" to ${expected}`, async () => {
+      const [best, second] = await rank(question);
+      assert.equal(best.qid, expected);
+      assert.ok(best.similarity >= provider.matchThreshold, `similarity ${best.similarity}`);
+      assert.ok(best.similarity > second.similarity);
+    });
+  }
+
+  it('keeps unrelated questions under the match threshold', async () => {
+    const [best] = await rank('Who is the on-call engineer for the warehouse scanners?');
+    assert.ok(best.similarity < provider.matchThreshold, `${best.qid} scored ${best.similarity}`);
+  });
+
+  it('returns unit vectors and the same vector for the same text', async () => {
+    const [a, b] = await provider.embed(['Monthly revenue', 'Monthly revenue']);
+    assert.deepEqual(a, b);
+    assert.ok(Math.abs(cosine(a, a) - 1) < 1e-9);
+  });
+
+  it('ignores case, punctuation, plurals and stop words', async () => {
+    const [a, b] = await provider.embed(['Merchants by zone', 'what is the MERCHANT, per zone?']);
+    assert.ok(Math.abs(cosine(a, b) - 1) < 1e-9);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FilterValidationError, PlaceholderBinder } from '../services/PlaceholderBinder.js';
+import type { FilterDimension } from '../services/validatedQueries.js';
+
+const binder = new PlaceholderBinder();
+
+const dimension = (sql_param: string, control: FilterDimension['control']): FilterDimension => ({
+  id: sql_param, label: sql_param, sql_param, control, is_active: true,
+});
+
+const DIMENSIONS = [
+  dimension('date_range', 'date_range'),
+  dimension('region', 'select'),
+  dimension('merchant_id', 'select'),
+  dimension('tier', 'multiselect'),
+  dimension('am', 'text'),
+];
+
+const issuesOf = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof FilterValidationError) return error.issues.map(issue => issue.param);
+    throw error;
+  }
+  return [];
+};
+
+describe('PlaceholderBinder.validate', () => {
+  it('normalizes multiselect values to lists and empty values to null', () => {
+    assert.deepEqual(
+      binder.validate({ start_date: '2025-01-01', region: '', tier: 'gold', am: 'Jane' }, DIMENSIONS),
+      { start_date: '2025-01-01', region: null, tier: ['gold'], am: 'Jane' }
+    );
+  });
+
+  it('rejects dates that are malformed or do not exist', () => {
+    assert.deepEqual(issuesOf(() => binder.validate({ start_date: '01/02/2025' }, DIMENSIONS)), ['start_date']);
+    assert.deepEqual(issuesOf(() => binder.validate({ end_date: '2025-02-31' }, DIMENSIONS)), ['end_date']);
+    assert.deepEqual(issuesOf(() => binder.validate({ end_date: '2024-02-29' }, DIMENSIONS)), []);
+  });
+
+  it('rejects lists for single-value dimensions and objects anywhere', () => {
+    assert.deepEqual(issuesOf(() => binder.validate({ merchant_id: ['m1', 'm2'] }, DIMENSIONS)), ['merchant_id']);
+    assert.deepEqual(issuesOf(() => binder.validate({ tier: [{ $ne: null }] } as any, DIMENSIONS)), ['tier']);
+  });
+});
+
+describe('PlaceholderBinder.bind', () => {
+  it('binds scalars with ? for MySQL and $n for Postgres', () => {
+    const sql = 'SELECT * FROM d WHERE d.delivery_date >= :start_date AND d.region = :region';
+    const values = { start_date: '2025-01-01', region: 'Cairo' };
+
+    assert.deepEqual(binder.bind(sql, values, 'mysql'), {
+      sql: 'SELECT * FROM d WHERE d.delivery_date >= ? AND d.region = ?',
+      params: ['2025-01-01', 'Cairo'],
+    });
+    assert.deepEqual(binder.bind(sql, values, 'postgres'), {
+      sql: 'SELECT * FROM d WHERE d.delivery_date >= $1 AND d.region = $2',
+      params: ['2025-01-01', 'Cairo'],
+    });
+  });
+
+  it('binds ":param IS NULL" as whether the filter is set', () => {
+    const sql = 'SELECT * FROM m WHERE (:am IS NULL OR m.account_manager = :am)';
+    assert.deepEqual(binder.bind(sql, { am: null }, 'mysql').params, [null, null]);
+    assert.deepEqual(binder.bind(sql, { am: 'Jane' }, 'postgres'), {
+      sql: 'SELECT * FROM m WHERE (CAST($1 AS INTEGER) IS NULL OR m.account_manager = $2)',
+      params: [1, 'Jane'],
+    });
+  });
+
+  it('expands lists into IN and NOT IN', () => {
+    assert.deepEqual(binder.bind('SELECT * FROM m WHERE m.tier = :tier', { tier: ['gold', 'silver'] }, 'mysql'), {
+      sql: 'SELECT * FROM m WHERE m.tier IN (?, ?)',
+      params: ['gold', 'silver'],
+    });
+    assert.equal(
+      binder.bind('SELECT * FROM m WHERE m.tier <> :tier', { tier: ['gold'] }, 'postgres').sql,
+      'SELECT * FROM m WHERE m.tier NOT IN ($1)'
+    );
+    assert.equal(
+      binder.bind('SELECT * FROM m WHERE m.tier IN (:tier)', { tier: ['gold', 'silver'] }, 'mysql').sql,
+      'SELECT * FROM m WHERE m.tier IN (?, ?)'
+    );
+  });
+
+  it('refuses a list outside an equality or IN comparison', () => {
+    assert.deepEqual(issuesOf(() => binder.bind('SELECT * FROM m WHERE m.tier LIKE :tier', { tier: ['a', 'b'] }, 'mysql')), ['tier']);
+  });
+
+  it('leaves literals, comments and casts alone', () => {
+    const sql = "SELECT ':region' AS label, id::text -- :region\nFROM m WHERE region = :region";
+    assert.deepEqual(binder.bind(sql, { region: 'Cairo' }, 'postgres'), {
+      sql: "SELECT ':region' AS label, id::text -- :region\nFROM m WHERE region = $1",
+      params: ['Cairo'],
+    });
+    assert.deepEqual(binder.placeholders(sql), ['region']);
+  });
+
+  it('never writes filter values into the SQL text', () => {
+    const { sql, params } = binder.bind('SELECT * FROM m WHERE m.name = :am', { am: "x' OR '1'='1" }, 'mysql');
+    assert.equal(sql, 'SELECT * FROM m WHERE m.name = ?');
+    assert.deepEqual(params, ["x' OR '1'='1"]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RowLevelPolicy, RowLevelSecurity } from '../services/RowLevelSecurity.js';
+import { QueryRejectedError } from '../services/SQLGuard.js';
+
+const policy = (fields: Partial<RowLevelPolicy>): RowLevelPolicy => ({
+  id: fields.name || 'policy',
+  name: 'policy',
+  role: 'am',
+  bypass: false,
+  table_pattern: null,
+  column_name: null,
+  identity_claim: 'email',
+  filter_param: null,
+  owner_table: null,
+  owner_key_column: null,
+  owner_claim_column: null,
+  is_active: true,
+  ...fields,
+});
+
+// Policies and owner lookups come from the application database; these tests serve them from memory
+class InMemoryRowLevelSecurity extends RowLevelSecurity {
+  constructor(private policies: RowLevelPolicy[], ownedKeys: string[] = []) {
+    super();
+    (this as any).allowedValues = async (claims: Record<string, string | undefined>, applied: RowLevelPolicy) =>
+      applied.owner_table ? ownedKeys : [claims[applied.identity_claim]];
+  }
+
+  async getPolicies(role: string): Promise<RowLevelPolicy[]> {
+    return this.policies.filter(entry => entry.role === role);
+  }
+}
+
+const AM = { userId: 'u1', email: 'jane@bosta.co', name: 'Jane Doe', role: 'am' };
+
+const AM_OWN_MERCHANTS = policy({
+  name: 'AM_OWN_MERCHANTS', table_pattern: 'demo_merchants', column_name: 'account_manager', identity_claim: 'name',
+});
+
+const rejectionCode = async (run: Promise<unknown>) => {
+  try {
+    await run;
+  } catch (error) {
+    if (error instanceof QueryRejectedError) return error.code;
+    throw error;
+  }
+  return null;
+};
+
+describe('RowLevelSecurity.applyToSQL', () => {
+  it('filters every reference to a protected table, joins and subqueries included', async () => {
+    const rls = new InMemoryRowLevelSecurity([AM_OWN_MERCHANTS]);
+    const { sql, applied } = await rls.applyToSQL(`
+      SELECT m.name, COUNT(d.id) AS deliveries
+      FROM demo_deliveries d
+      JOIN demo_merchants m ON m.id = d.merchant_id
+      WHERE d.merchant_id IN (SELECT id FROM demo_merchants WHERE tier = 'gold')
+      GROUP BY m.name
+    `, AM);
+
+    assert.equal(applied.length, 2);
+    assert.ok(applied.every(entry => entry.table === 'demo_merchants' && entry.value === 'Jane Doe'));
+    assert.equal(sql.match(/`account_manager` = 'Jane Doe'/g)?.length, 2, sql);
+    assert.match(sql, /\) AS `m`/);
+  });
+
+  it('matches schema-qualified references', async () => {
+    const rls = new InMemoryRowLevelSecurity([AM_OWN_MERCHANTS]);
+    const { sql, applied } = await rls.applyToSQL('SELECT name FROM analytics.demo_merchants', AM);
+    assert.equal(applied.length, 1);
+    assert.match(sql, /`account_manager` = 'Jane Doe'/);
+  });
+
+  it('escapes the claim value instead of splicing it into the SQL', async () => {
+    const rls = new InMemoryRowLevelSecurity([AM_OWN_MERCHANTS]);
+    const { sql } = await rls.applyToSQL('SELECT name FROM demo_merchants', { ...AM, name: "x' OR '1'='1" });
+    assert.match(sql, /`account_manager` = 'x'' OR ''1''=''1'\)/);
+  });
+
+  it('leaves queries of unprotected tables and bypass roles unchanged', async () => {
+    const rls = new InMemoryRowLevelSecurity([
+      AM_OWN_MERCHANTS,
+      policy({ name: 'DATA_TEAM_ALL_ROWS', role: 'data_team', bypass: true }),
+    ]);
+    const unprotected = 'SELECT COUNT(*) FROM demo_addresses';
+    assert.deepEqual(await rls.applyToSQL(unprotected, AM), { sql: unprotected, applied: [] });
+
+    const protectedSql = 'SELECT name FROM demo_merchants';
+    assert.deepEqual(await rls.applyToSQL(protectedSql, { ...AM, role: 'data_team' }), { sql: protectedSql, applied: [] });
+  });
+
+  it('restricts owner-lookup policies to the owned keys', async () => {
+    const rls = new InMemoryRowLevelSecurity([policy({
+      name: 'AM_OWN_DELIVERIES', table_pattern: 'new_deliveries_dashboard_cdc', column_name: 'sender_id',
+      identity_claim: 'name', owner_table: 'demo_merchants', owner_key_column: 'id', owner_claim_column: 'account_manager',
+    })], ['m1', 'm2']);
+
+    const { sql } = await rls.applyToSQL('SELECT COUNT(*) FROM new_deliveries_dashboard_cdc', AM);
+    assert.match(sql, /`sender_id` IN \('m1', ?'m2'\)/);
+  });
+
+  it('returns no rows when the caller owns nothing', async () => {
+    const rls = new InMemoryRowLevelSecurity([policy({
+      name: 'AM_OWN_DELIVERIES', table_pattern: 'new_deliveries_dashboard_cdc', column_name: 'sender_id',
+      identity_claim: 'name', owner_table: 'demo_merchants', owner_key_column: 'id', owner_claim_column: 'account_manager',
+    })]);
+
+    const { sql } = await rls.applyToSQL('SELECT COUNT(*) FROM new_deliveries_dashboard_cdc', AM);
+    assert.match(sql, /1 = 0/);
+  });
+
+  it('refuses roles without any policy', async () => {
+    const rls = new InMemoryRowLevelSecurity([AM_OWN_MERCHANTS]);
+    assert.equal(await rejectionCode(rls.applyToSQL('SELECT 1', { ...AM, role: 'leader' })), 'ROW_POLICY_MISSING');
+    assert.equal(await rejectionCode(rls.applyToSQL('SELECT 1', { userId: 'u1', email: AM.email, name: AM.name })), 'ROW_POLICY_MISSING');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SQLGuard, QueryRejectedError } from '../services/SQLGuard.js';
+
+const guard = new SQLGuard();
+
+describe('SQLGuard', () => {
+  it('allows a single SELECT and lists its tables without CTE names', () => {
+    const result = guard.validate(`
+      WITH recent AS (SELECT merchant_id FROM demo_deliveries WHERE delivery_date >= '2025-01-01')
+      SELECT m.name, COUNT(*) FROM recent r JOIN demo_merchants m ON m.id = r.merchant_id GROUP BY m.name
+    `);
+    assert.equal(result.allowed, true);
+    assert.deepEqual([...result.tables].sort(), ['demo_deliveries', 'demo_merchants']);
+  });
+
+  it('accepts a trailing semicolon', () => {
+    assert.equal(guard.validate('SELECT 1;').allowed, true);
+  });
+
+  it('rejects empty input, batches and writes', () => {
+    assert.equal(guard.validate('  ').rejection?.code, 'EMPTY_QUERY');
+    assert.equal(guard.validate('SELECT 1; DROP TABLE users').rejection?.code, 'MULTIPLE_STATEMENTS');
+    assert.equal(guard.validate('DELETE FROM users').rejection?.code, 'NOT_READ_ONLY');
+    assert.equal(guard.validate('UPDATE users SET role = "admin"').rejection?.code, 'NOT_READ_ONLY');
+  });
+
+  it('rejects SELECT ... INTO and locking reads', () => {
+    assert.equal(guard.validate("SELECT * FROM users INTO OUTFILE '/tmp/users.csv'").rejection?.code, 'SELECT_INTO');
+    assert.equal(guard.validate('SELECT * FROM users FOR UPDATE').rejection?.code, 'LOCKING_READ');
+  });
+
+  it('rejects forbidden functions anywhere in the query', () => {
+    assert.equal(guard.validate('SELECT SLEEP(10)').rejection?.code, 'FORBIDDEN_FUNCTION');
+    assert.equal(
+      guard.validate('SELECT id FROM users WHERE id IN (SELECT BENCHMARK(1000000, MD5(1)))').rejection?.code,
+      'FORBIDDEN_FUNCTION'
+    );
+  });
+
+  it('rejects Postgres functions with side effects', () => {
+    for (const sql of [
+      "SELECT set_config('statement_timeout', '0', false)",
+      "SELECT nextval('orders_id_seq')",
+      'SELECT pg_advisory_lock(1)',
+      "SELECT lo_import('/etc/passwd')",
+      'SELECT pg_sleep(5)',
+    ]) {
+      for (const dialect of ['PostgresQL', 'Redshift'] as const) {
+        assert.equal(guard.validate(sql, dialect).rejection?.code, 'FORBIDDEN_FUNCTION', `${sql} on ${dialect}`);
+      }
+    }
+  });
+
+  it('reports unparseable SQL as a parse error', () => {
+    assert.equal(guard.validate('SELEC * FORM users').rejection?.code, 'PARSE_ERROR');
+  });
+
+  it('throws QueryRejectedError from assertReadOnly', () => {
+    assert.throws(() => guard.assertReadOnly('TRUNCATE users'), (error: unknown) =>
+      error instanceof QueryRejectedError && error.code === 'NOT_READ_ONLY'
+    );
+  });
+});
@@ -1,6 +1,22 @@
 import mysql from 'mysql2/promise';
-import { getDeliveriesDatabase, getRedis } from '../database/init.js';
+import { BSON } from 'mongodb';
+import { getDeliveriesDatabase } from '../database/init.js';
+import { getConnectorPool, getMongoClient, isSQLConnector } from '../database/connectorPools.js';
+import {
+  executeMySQLWithDeadline,
+  executePostgresWithDeadline,
+  QueryCancelledError,
+  QueryTimeoutError,
+} from '../database/queryExecution.js';
+import { ConnectorService } from '../services/ConnectorService.js';
 import { logger } from '../utils/logger.js';
+import { SQLGuard, QueryRejectedError } from '../services/SQLGuard.js';
+import { MongoPipelineGuard } from '../services/MongoPipelineGuard.js';
+import { TableAccessPolicy } from '../services/TableAccessPolicy.js';
+import { RowLevelSecurity } from '../services/RowLevelSecurity.js';
+import { QueryCostGuard } from '../services/QueryCostGuard.js';
+import { cacheStore } from '../services/CacheStore.js';
+import { cacheTag } from '../services/CacheTags.js';
 import crypto from 'crypto';
 
 interface QueryResult {
@@ -11,14 +27,47 @@ interface QueryResult {
 
 export class SQLTool {
   private maxRows = 5000;
-  private queryTimeout = 8000; // 8 seconds
+  private queryTimeout = parseInt(process.env.AGENT_QUERY_TIMEOUT_MS || '8000'); // 8 seconds by default
+  private sqlGuard = new SQLGuard();
+  private pipelineGuard = new MongoPipelineGuard();
+  private tableAccessPolicy = new TableAccessPolicy();
+  private queryCostGuard = new QueryCostGuard();
+  private rowLevelSecurity = new RowLevelSecurity();
 
-  async execute(query: string, connector: any): Promise<QueryResult> {
+  // context carries the caller identity (userId, userRole) and, when the conversation is
+  // bound to one, the connector to run against. Without a connector the deliveries pool is used.
+  async execute(query: string, context: any): Promise<QueryResult> {
     const startTime = Date.now();
+    const connector = context?.connector;
     
     try {
+      if (connector?.kind === 'mongo') {
+        return await this.executeMongoQuery(query, connector, context);
+      }
+      if (connector && !isSQLConnector(connector)) {
+        throw new Error(`Connector ${connector.name} (${connector.kind}) cannot run queries`);
+      }
+
+      const dialect = ConnectorService.getDialect(connector);
+
+      // Refuse anything that is not a single read-only SELECT before touching cache or database
+      const { tables } = this.sqlGuard.assertReadOnly(query, dialect);
+
+      // Every referenced table must match one of the caller's table_access patterns
+      const access = await this.tableAccessPolicy.evaluate(tables, context);
+      if (!access.allowed) {
+        await this.tableAccessPolicy.logDenial(access, query, context);
+        throw new QueryRejectedError({
+          code: 'TABLE_ACCESS_DENIED',
+          reason: access.explanation || 'Access to the requested tables is not allowed for your role.',
+        });
+      }
+
+      // Inject mandatory row-level predicates for the caller (e.g. AMs only see their own merchants)
+      const { sql: securedQuery } = await this.rowLevelSecurity.applyToSQL(query, context, dialect);
+
       // Check cache first
-      const cacheKey = this.generateCacheKey(query, connector.userRole || 'unknown');
+      const cacheKey = this.generateCacheKey(securedQuery, context.userRole || 'unknown', connector?.id);
       const cachedResult = await this.getCachedResult(cacheKey);
       
       if (cachedResult) {
@@ -28,29 +77,40 @@ export class SQLTool {
         };
       }
 
-      const result: QueryResult = await this.executeDirectMySQLQuery(query, getDeliveriesDatabase());
-    
+      // Pre-flight EXPLAIN: refuse queries that would scan more than the role allows
+      await this.checkQueryCost(securedQuery, connector, context);
+
+      const result: QueryResult = connector
+        ? await this.executeConnectorQuery(securedQuery, connector, context?.signal)
+        : await this.executeDirectMySQLQuery(securedQuery, getDeliveriesDatabase(), context?.signal);
 
       // Cache the result
-      await this.cacheResult(cacheKey, result);
+      await this.cacheResult(cacheKey, result, tables, connector?.id);
 
       return {
         ...result,
         executionTime: Date.now() - startTime,
       };
     } catch (error) {
+      if (error instanceof QueryRejectedError) {
+        logger.warn(`SQL Tool rejected query: ${error.code} - ${error.reason}`);
+        throw error;
+      }
+      if (error instanceof QueryCancelledError || error instanceof QueryTimeoutError) {
+        logger.warn(`SQL Tool stopped query: ${error.message}`);
+        throw error;
+      }
       logger.error('SQL Tool execution error:', error);
       throw new Error(`Query execution failed: ${error}`);
     }
   }
 
-  private async executeDirectMySQLQuery(query: string, connection: mysql.Connection): Promise<QueryResult> {
+  private async executeDirectMySQLQuery(query: string, pool: mysql.Pool, signal?: AbortSignal): Promise<QueryResult> {
     try {
       // Add LIMIT clause if not present
       const limitedQuery = this.addLimitClause(query, this.maxRows);
       
-      const [rows] = await connection.execute(limitedQuery);
-      const data = Array.isArray(rows) ? rows : [];
+      const data = await executeMySQLWithDeadline(pool, limitedQuery, [], { timeoutMs: this.queryTimeout, signal });
 
       return {
         data,
@@ -63,45 +123,147 @@ export class SQLTool {
     }
   }
 
-  private async executeMySQLQuery(query: string, connector: any): Promise<QueryResult> {
-    let connection: mysql.Connection | null = null;
-    
-    try {
-      // Parse connection URI
-      const uri = new URL(connector.conn_uri);
-      const config = {
-        host: uri.hostname,
-        port: parseInt(uri.port) || 3306,
-        user: uri.username,
-        password: uri.password,
-        database: uri.pathname.slice(1),
-        timeout: this.queryTimeout,
-      };
+  // EXPLAIN runs on the same pool the query will use, with the same LIMIT applied
+  private async checkQueryCost(query: string, connector: any, context: any): Promise<void> {
+    const limitedQuery = this.addLimitClause(query, this.maxRows);
 
-      connection = await mysql.createConnection(config);
-      
-      // Add LIMIT clause if not present
-      const limitedQuery = this.addLimitClause(query, this.maxRows);
-      
-      const [rows] = await connection.execute(limitedQuery);
-      const data = Array.isArray(rows) ? rows : [];
+    if (!connector) {
+      await this.queryCostGuard.assertWithinLimits(limitedQuery, 'mysql', async statement => {
+        const [rows] = await getDeliveriesDatabase().execute(statement);
+        return rows as any[];
+      }, context);
+      return;
+    }
+
+    const { kind, pool } = await getConnectorPool(connector);
+    await this.queryCostGuard.assertWithinLimits(limitedQuery, kind as 'mysql' | 'postgres' | 'redshift', async statement => {
+      if (kind === 'mysql') {
+        const [rows] = await pool.execute(statement);
+        return rows as any[];
+      }
+      const result = await pool.query(statement);
+      return result.rows || [];
+    }, context);
+  }
+
+  // Run against the pooled connection of a MySQL, Postgres or Redshift connector
+  private async executeConnectorQuery(query: string, connector: any, signal?: AbortSignal): Promise<QueryResult> {
+    const { kind, pool } = await getConnectorPool(connector);
+
+    if (kind === 'mysql') {
+      return this.executeDirectMySQLQuery(query, pool, signal);
+    }
+
+    const limitedQuery = this.addLimitClause(query, this.maxRows);
+    const data = await executePostgresWithDeadline(pool, limitedQuery, [], { timeoutMs: this.queryTimeout, signal });
+
+    return {
+      data,
+      rowCount: data.length,
+      executionTime: 0, // Will be set by caller
+    };
+  }
+
+  // query is a JSON aggregation ({ collection, pipeline }) generated for a mongo connector.
+  // The same table access and row-level rules apply, with collections in place of tables.
+  async executeMongoQuery(query: string, connector: any, context: any): Promise<QueryResult> {
+    const startTime = Date.now();
+
+    const { aggregation, collections } = this.pipelineGuard.assertReadOnly(query);
+
+    const access = await this.tableAccessPolicy.evaluate(collections, context);
+    if (!access.allowed) {
+      await this.tableAccessPolicy.logDenial(access, query, context);
+      throw new QueryRejectedError({
+        code: 'TABLE_ACCESS_DENIED',
+        reason: access.explanation || 'Access to the requested collections is not allowed for your role.',
+      });
+    }
 
+    const { aggregation: secured } = await this.rowLevelSecurity.applyToPipeline(aggregation!, context);
+
+    const cacheKey = this.generateCacheKey(BSON.EJSON.stringify(secured), context.userRole || 'unknown', connector.id);
+    const cachedResult = await this.getCachedResult(cacheKey);
+    if (cachedResult) {
       return {
-        data,
-        rowCount: data.length,
-        executionTime: 0, // Will be set by caller
+        ...cachedResult,
+        executionTime: Date.now() - startTime,
       };
+    }
+
+    const signal: AbortSignal | undefined = context?.signal;
+    if (signal?.aborted) throw new QueryCancelledError();
+
+    const client = await getMongoClient(connector);
+    const cursor = client
+      .db()
+      .collection(secured.collection)
+      .aggregate([...secured.pipeline, { $limit: this.maxRows }], { maxTimeMS: this.queryTimeout });
+
+    // Closing the cursor kills the server-side operation
+    const onAbort = () => { cursor.close().catch(() => undefined); };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let documents: Record<string, any>[];
+    try {
+      documents = await cursor.toArray();
+    } catch (error: any) {
+      if (signal?.aborted) throw new QueryCancelledError();
+      // 50 is MaxTimeMSExpired
+      if (error?.code === 50) throw new QueryTimeoutError(this.queryTimeout);
+      throw error;
     } finally {
-      if (connection) {
-        await connection.end();
+      signal?.removeEventListener('abort', onAbort);
+    }
+    if (signal?.aborted) throw new QueryCancelledError();
+
+    // Flatten documents into plain rows so masking, charts and summaries work as for SQL
+    const data = documents.map(doc => this.flattenDocument(doc));
+    const result: QueryResult = {
+      data,
+      rowCount: data.length,
+      executionTime: 0,
+    };
+
+    await this.cacheResult(cacheKey, result, collections, connector.id);
+
+    return {
+      ...result,
+      executionTime: Date.now() - startTime,
+    };
+  }
+
+  // Nested objects become dotted columns (address.city); arrays are kept as JSON text
+  private flattenDocument(doc: Record<string, any>, prefix = '', row: Record<string, any> = {}): Record<string, any> {
+    for (const [key, value] of Object.entries(doc)) {
+      const column = prefix ? `${prefix}.${key}` : key;
+
+      if (value === null || value === undefined || value instanceof Date) {
+        row[column] = value ?? null;
+      } else if (value._bsontype) {
+        row[column] = this.bsonToPlain(value);
+      } else if (Array.isArray(value)) {
+        row[column] = JSON.stringify(value.map(item => (item?._bsontype ? this.bsonToPlain(item) : item)));
+      } else if (typeof value === 'object') {
+        this.flattenDocument(value, column, row);
+      } else {
+        row[column] = value;
       }
     }
+    return row;
   }
 
-  async executeMongoQuery(_query: string, _connector: any, _context: any): Promise<any> {
-    // TODO: Implement MongoDB query execution
-    // This is a placeholder for Phase 1
-    throw new Error('MongoDB queries not yet implemented in Phase 1');
+  private bsonToPlain(value: any): any {
+    switch (value._bsontype) {
+      case 'ObjectId':
+        return value.toHexString();
+      case 'Decimal128':
+        return parseFloat(value.toString());
+      case 'Long':
+        return value.toNumber();
+      default:
+        return value.toString();
+    }
   }
 
   private addLimitClause(query: string, maxRows: number): string {
@@ -130,15 +292,14 @@ export class SQLTool {
     return processedQuery;
   }
 
-  private generateCacheKey(query: string, userRole: string): string {
-    const content = `${query}:${userRole}`;
+  private generateCacheKey(query: string, userRole: string, connectorId?: string): string {
+    const content = `${connectorId || 'deliveries'}:${query}:${userRole}`;
     return crypto.createHash('md5').update(content).digest('hex');
   }
 
   private async getCachedResult(cacheKey: string): Promise<QueryResult | null> {
     try {
-      const redis = getRedis();
-      const cached = await redis.get(`query:${cacheKey}`);
+      const cached = await cacheStore.get(`query:${cacheKey}`);
       
       if (cached) {
         return JSON.parse(cached);
@@ -150,18 +311,19 @@ export class SQLTool {
     return null;
   }
 
-  private async cacheResult(cacheKey: string, result: QueryResult): Promise<void> {
+  // Tagged with the connector and the tables (or collections) read, so data refreshes reach it
+  private async cacheResult(cacheKey: string, result: QueryResult, tables: string[], connectorId?: string): Promise<void> {
     try {
-      const redis = getRedis();
       const ttl = 3600; // 1 hour default
       
-      // Redis v4+ syntax with EX option for expiration in seconds
-      await redis.set(`query:${cacheKey}`, JSON.stringify({
+      await cacheStore.set(`query:${cacheKey}`, JSON.stringify({
         data: result.data,
         rowCount: result.rowCount,
-      }), {
-        EX: ttl
-      });
+      }), ttl, [
+        cacheTag.kind('sql'),
+        cacheTag.connector(connectorId || 'deliveries'),
+        ...tables.map(cacheTag.table)
+      ]);
     } catch (error) {
       logger.error('Cache storage error:', error);
     }
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Check, Filter, Pencil, X } from 'lucide-react';
+import { AppliedFilter, FilterParams, validatedQueriesService } from '../services/validatedQueriesService';
+
+interface AnswerFilterChipsProps {
+  filters: AppliedFilter[];
+  // Called with the full filter set after a chip was edited or removed
+  onChange: (filters: FilterParams) => void;
+  disabled?: boolean;
+}
+
+// Option rows carry the value in their first column and the label in name/label
+const optionValue = (option: any): string =>
+  option !== null && typeof option === 'object' ? String(Object.values(option)[0]) : String(option);
+
+const optionLabel = (option: any): string => {
+  if (option === null || typeof option !== 'object') return String(option);
+  return String(option.name ?? option.label ?? Object.values(option)[0]);
+};
+
+const mergeValues = (filters: AppliedFilter[]): FilterParams =>
+  filters.reduce<FilterParams>((merged, filter) => ({ ...merged, ...filter.values }), {});
+
+// Filters a validated answer is based on, as chips the user can change or drop; the answer is
+// then asked again with the edited set
+export const AnswerFilterChips: React.FC<AnswerFilterChipsProps> = ({ filters, onChange, disabled }) => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<FilterParams>({});
+  const [options, setOptions] = useState<any[]>([]);
+
+  if (filters.length === 0) return null;
+
+  const startEditing = async (filter: AppliedFilter) => {
+    setEditing(filter.key);
+    setDraft(filter.values);
+    setOptions([]);
+    if (filter.dimension) {
+      try {
+        setOptions(await validatedQueriesService.getFilterOptions(filter.dimension));
+      } catch (_error) {
+        // The value can still be typed in
+      }
+    }
+  };
+
+  const apply = (filter: AppliedFilter) => {
+    setEditing(null);
+    const others = filters.filter(other => other.key !== filter.key);
+    onChange({ ...mergeValues(others), ...draft });
+  };
+
+  const remove = (filter: AppliedFilter) => {
+    onChange(mergeValues(filters.filter(other => other.key !== filter.key)));
+  };
+
+  const renderEditor = (filter: AppliedFilter) => {
+    if (filter.key === 'date_range') {
+      return (
+        <>
+          <input
+            type="date"
+            value={draft.start_date || ''}
+            onChange={(e) => setDraft({ ...draft, start_date: e.target.value || undefined })}
+            className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+          />
+          <span>–</span>
+          <input
+            type="date"
+            value={draft.end_date || ''}
+            onChange={(e) => setDraft({ ...draft, end_date: e.target.value || undefined })}
+            className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+          />
+        </>
+      );
+    }
+
+    const current = draft[filter.key];
+    const value = Array.isArray(current) ? String(current[0] ?? '') : String(current ?? '');
+    if (options.length > 0) {
+      return (
+        <select
+          value={value}
+          onChange={(e) => setDraft({ [filter.key]: e.target.value })}
+          className="border border-gray-300 rounded px-1 py-0.5 text-xs max-w-[12rem]"
+        >
+          {options.map((option, index) => (
+            <option key={index} value={optionValue(option)}>
+              {optionLabel(option)}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    return (
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => setDraft({ [filter.key]: e.target.value })}
+        className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+      />
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-3">
+      <Filter className="h-3 w-3 text-gray-400" />
+      {filters.map((filter) => (
+        <div
+          key={filter.key}
+          title={filter.matched ? `From "${filter.matched}"` : undefined}
+          className="flex items-center space-x-1 px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-700"
+        >
+          <span className="font-medium">{filter.label}:</span>
+          {editing === filter.key ? (
+            <>
+              {renderEditor(filter)}
+              <button onClick={() => apply(filter)} className="text-green-600 hover:text-green-800" title="Apply">
+                <Check className="h-3 w-3" />
+              </button>
+              <button onClick={() => setEditing(null)} className="text-gray-400 hover:text-gray-600" title="Cancel">
+                <X className="h-3 w-3" />
+              </button>
+            </>
+          ) : (
+            <>
+              <span>{filter.display}</span>
+              {filter.score < 1 && <span className="text-gray-400">(closest match)</span>}
+              <button
+                onClick={() => startEditing(filter)}
+                disabled={disabled}
+                className="text-gray-400 hover:text-primary-600 disabled:opacity-50"
+                title="Change"
+              >
+                <Pencil className="h-3 w-3" />
+              </button>
+              <button
+                onClick={() => remove(filter)}
+                disabled={disabled}
+                className="text-gray-400 hover:text-red-500 disabled:opacity-50"
+                title="Remove"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
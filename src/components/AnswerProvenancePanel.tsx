@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Info } from 'lucide-react';
+import { format } from 'date-fns';
+import { AnswerFigure, AnswerProvenance } from '../services/validatedQueriesService';
+
+interface AnswerProvenancePanelProps {
+  provenance: AnswerProvenance;
+}
+
+const CALCULATION_LABELS: Record<AnswerFigure['calculation'], string> = {
+  value: 'value of',
+  sum: 'sum over',
+  avg: 'average over',
+  count: 'count of',
+  min: 'minimum of',
+  max: 'maximum of',
+  other: 'computed from',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return 'N/A';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const formatDate = (value: string | null): string =>
+  value ? format(new Date(value), 'MMM d, yyyy h:mm a') : 'unknown';
+
+const FigureRows: React.FC<{ figure: AnswerFigure }> = ({ figure }) => {
+  const columns = Object.keys(figure.rows[0] ?? {});
+
+  return (
+    <div className="mt-2">
+      <div className="text-xs text-gray-700">
+        <span className="font-semibold">{figure.text}</span>
+        {' '}
+        <span className="text-gray-500">
+          {CALCULATION_LABELS[figure.calculation]}
+          {figure.column ? ` ${figure.column} in` : ''}
+          {' '}
+          {figure.rows.length === 1 ? 'row' : 'rows'} {figure.row_numbers.join(', ')}
+        </span>
+      </div>
+      <div className="overflow-x-auto mt-1">
+        <table className="min-w-full text-xs border border-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-2 py-1 text-left text-gray-500">#</th>
+              {columns.map(column => (
+                <th
+                  key={column}
+                  className={`px-2 py-1 text-left ${column === figure.column ? 'text-primary-700' : 'text-gray-500'}`}
+                >
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {figure.rows.map((row, index) => (
+              <tr key={figure.row_numbers[index]} className="border-t border-gray-100">
+                <td className="px-2 py-1 text-gray-400">{figure.row_numbers[index]}</td>
+                {columns.map(column => (
+                  <td
+                    key={column}
+                    className={`px-2 py-1 ${column === figure.column ? 'font-medium text-primary-700' : 'text-gray-700'}`}
+                  >
+                    {formatValue(row?.[column])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+// "How we got this": the validated query version, filters, data run and validator behind an
+// answer, and the result rows each quoted number was read or computed from
+export const AnswerProvenancePanel: React.FC<AnswerProvenancePanelProps> = ({ provenance }) => {
+  const [expanded, setExpanded] = useState(false);
+  const filters = Object.entries(provenance.filters).filter(([, value]) => value !== undefined && value !== null && value !== '');
+
+  return (
+    <div className="mt-3 border border-gray-200 rounded-lg">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center space-x-2 px-3 py-2 text-xs font-medium text-gray-700 hover:bg-gray-50"
+      >
+        {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <Info className="h-3 w-3 text-primary-600" />
+        <span>How we got this</span>
+      </button>
+
+      {expanded && (
+        <div className="px-3 pb-3 space-y-2 text-xs text-gray-600">
+          <dl className="grid grid-cols-[max-content_1fr] gap-x-3 gap-y-1">
+            <dt className="text-gray-500">Validated query</dt>
+            <dd>
+              {provenance.query_name} <span className="text-gray-400">v{provenance.version} · {provenance.qid}</span>
+            </dd>
+            <dt className="text-gray-500">Validated by</dt>
+            <dd>
+              {provenance.validated_by || 'unknown'}
+              {provenance.validated_at && ` on ${formatDate(provenance.validated_at)}`}
+            </dd>
+            <dt className="text-gray-500">Data as of</dt>
+            <dd>
+              {formatDate(provenance.run_stamp)}
+              {provenance.source && ` from ${provenance.source}`}
+              {provenance.stale && <span className="text-orange-600"> (refreshing)</span>}
+            </dd>
+            <dt className="text-gray-500">Filters</dt>
+            <dd>
+              {filters.length > 0
+                ? filters.map(([key, value]) => (
+                    <span key={key} className="inline-block mr-2">
+                      {key} = {formatValue(value)}
+                      {key in provenance.enforced_filters && <span className="text-gray-400"> (your access)</span>}
+                    </span>
+                  ))
+                : 'none'}
+            </dd>
+            <dt className="text-gray-500">Rows returned</dt>
+            <dd>{provenance.row_count.toLocaleString()}</dd>
+          </dl>
+
+          {provenance.figures.length > 0 ? (
+            <div>
+              <div className="font-medium text-gray-700 mt-2">Numbers in this answer</div>
+              {provenance.figures.map((figure, index) => (
+                <FigureRows key={index} figure={figure} />
+              ))}
+            </div>
+          ) : (
+            <div className="text-gray-500">No number in this answer could be traced to specific rows.</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
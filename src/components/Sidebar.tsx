@@ -7,11 +7,11 @@ const Sidebar: React.FC = () => {
   const { user, logout } = useAuthStore();
 
   const navigation = [
-    { name: 'Chat', href: '/chat', icon: MessageSquare, roles: ['admin', 'leader', 'am', 'analyst'] },
+    { name: 'Chat', href: '/chat', icon: MessageSquare, roles: ['admin', 'leader', 'am', 'analyst', 'data_team'] },
     { name: 'Connectors', href: '/connectors', icon: Database, roles: ['admin'] },
     { name: 'Agents', href: '/agents', icon: Bot, roles: ['admin'] },
     { name: 'Settings', href: '/settings', icon: Settings, roles: ['admin'] },
-    { name: 'Dashboard', href: '/dashboard', icon: BarChart3, roles: ['admin', 'leader', 'am'] },
+    { name: 'Dashboard', href: '/dashboard', icon: BarChart3, roles: ['admin', 'leader', 'am', 'data_team'] },
     { name: 'Templates', href: '/templates', icon: FileTemplate, roles: ['admin', 'leader'], phase2: true },
     { name: 'KPI Catalog', href: '/kpi', icon: Target, roles: ['admin', 'leader'], phase2: true },
   ];
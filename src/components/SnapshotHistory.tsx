@@ -0,0 +1,266 @@
+import React, { useState, useEffect } from 'react';
+import { X, History, GitCompare, RefreshCw, AlertCircle } from 'lucide-react';
+import { FilterParams, ResultSnapshot, SnapshotDiff, validatedQueriesService } from '../services/validatedQueriesService';
+
+interface SnapshotHistoryProps {
+  qid: string;
+  title: string;
+  filters: FilterParams;
+  onClose: () => void;
+}
+
+const MAX_ROWS_SHOWN = 50;
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return 'N/A';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const formatDelta = (delta: number | null): string => {
+  if (delta === null) return '';
+  return `${delta > 0 ? '+' : ''}${delta.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+};
+
+// Past results of a widget's query for the current filters: view any stored run, the run
+// that was current at a given date (e.g. month close), or a row by row diff of two runs
+export const SnapshotHistory: React.FC<SnapshotHistoryProps> = ({ qid, title, filters, onClose }) => {
+  const [snapshots, setSnapshots] = useState<ResultSnapshot[]>([]);
+  const [selected, setSelected] = useState<ResultSnapshot | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [asOf, setAsOf] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [qid, JSON.stringify(filters)]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      setError((err as any)?.response?.data?.error || (err instanceof Error ? err.message : 'Request failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadSnapshots = () => run(async () => {
+    setSnapshots(await validatedQueriesService.getSnapshots(qid, filters));
+  });
+
+  const viewSnapshot = (snapshot: ResultSnapshot) => run(async () => {
+    setDiff(null);
+    setSelected(await validatedQueriesService.getSnapshot(qid, snapshot.id));
+  });
+
+  const viewAsOf = () => run(async () => {
+    setDiff(null);
+    setSelected(await validatedQueriesService.getSnapshotAsOf(qid, filters, asOf));
+  });
+
+  const compare = () => run(async () => {
+    // Older run first, so deltas read as "what changed since"
+    const [from, to] = [...compareIds].sort((a, b) =>
+      snapshots.findIndex(snapshot => snapshot.id === b) - snapshots.findIndex(snapshot => snapshot.id === a)
+    );
+    const result = await validatedQueriesService.compareSnapshots(qid, from, to);
+    setSelected(null);
+    setDiff(result.diff);
+  });
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id)
+      ? prev.filter(existing => existing !== id)
+      : [...prev, id].slice(-2));
+  };
+
+  const renderRows = (rows: any[], className = '') => {
+    if (!rows.length) return null;
+    const columns = Object.keys(rows[0]);
+    return (
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            {columns.map(column => (
+              <th key={column} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                {column.replace(/_/g, ' ')}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.slice(0, MAX_ROWS_SHOWN).map((row, index) => (
+            <tr key={index} className={className}>
+              {columns.map(column => (
+                <td key={column} className="px-3 py-2 text-gray-900">{formatValue(row[column])}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  const renderSnapshot = (snapshot: ResultSnapshot) => (
+    <div>
+      <div className="text-sm text-gray-600 mb-2">
+        Run of {new Date(snapshot.run_stamp).toLocaleString()}
+        {snapshot.query_version ? ` • v${snapshot.query_version}` : ''} • {snapshot.row_count} rows
+      </div>
+      <div className="overflow-x-auto">{renderRows(snapshot.data || [])}</div>
+      {snapshot.row_count > MAX_ROWS_SHOWN && (
+        <div className="text-center text-sm text-gray-500 py-2">
+          Showing {MAX_ROWS_SHOWN} of {snapshot.row_count} rows
+        </div>
+      )}
+    </div>
+  );
+
+  const renderDiff = (result: SnapshotDiff) => (
+    <div className="space-y-4 text-sm">
+      <div className="text-gray-600">
+        {result.changed.length} changed • {result.added.length} added • {result.removed.length} removed • {result.unchanged} unchanged
+        {result.key_columns.length > 0 && ` • rows matched on ${result.key_columns.join(', ')}`}
+      </div>
+
+      {result.changed.length > 0 && (
+        <div>
+          <h4 className="font-medium text-gray-900 mb-1">Changed</h4>
+          <table className="min-w-full divide-y divide-gray-200">
+            <tbody className="divide-y divide-gray-100">
+              {result.changed.slice(0, MAX_ROWS_SHOWN).map((row, index) => (
+                <tr key={index}>
+                  <td className="px-3 py-2 text-gray-700">
+                    {Object.values(row.key).map(formatValue).join(' • ')}
+                  </td>
+                  <td className="px-3 py-2">
+                    {Object.entries(row.changes).map(([column, change]) => (
+                      <div key={column}>
+                        <span className="text-gray-500">{column.replace(/_/g, ' ')}: </span>
+                        <span className="line-through text-red-600">{formatValue(change.from)}</span>
+                        {' → '}
+                        <span className="text-green-700">{formatValue(change.to)}</span>
+                        {change.delta !== null && (
+                          <span className="ml-2 text-gray-500">({formatDelta(change.delta)})</span>
+                        )}
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {result.added.length > 0 && (
+        <div className="overflow-x-auto">
+          <h4 className="font-medium text-gray-900 mb-1">Added</h4>
+          {renderRows(result.added, 'bg-green-50')}
+        </div>
+      )}
+
+      {result.removed.length > 0 && (
+        <div className="overflow-x-auto">
+          <h4 className="font-medium text-gray-900 mb-1">Removed</h4>
+          {renderRows(result.removed, 'bg-red-50')}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-2">
+            <History className="h-5 w-5" />
+            <h2 className="text-xl font-bold text-gray-900">History • {title}</h2>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center space-x-2 mb-4">
+          <label className="text-sm font-medium text-gray-700">As of</label>
+          <input
+            type="date"
+            value={asOf}
+            onChange={(e) => setAsOf(e.target.value)}
+            className="border border-gray-300 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <button
+            onClick={viewAsOf}
+            disabled={!asOf || loading}
+            className="px-3 py-1 text-sm text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 disabled:opacity-50"
+          >
+            Show
+          </button>
+          <button
+            onClick={compare}
+            disabled={compareIds.length !== 2 || loading}
+            className="flex items-center space-x-1 px-3 py-1 text-sm text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 disabled:opacity-50"
+          >
+            <GitCompare className="h-4 w-4" />
+            <span>Compare selected</span>
+          </button>
+          {loading && <RefreshCw className="h-4 w-4 animate-spin text-blue-500" />}
+        </div>
+
+        {error && (
+          <div className="flex items-center space-x-2 text-sm text-red-600 mb-3">
+            <AlertCircle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex flex-1 min-h-0 space-x-4">
+          <div className="w-64 flex-shrink-0 overflow-y-auto border-r pr-3">
+            {!loading && snapshots.length === 0 && (
+              <div className="text-sm text-gray-500">No stored runs for these filters</div>
+            )}
+            {snapshots.map(snapshot => (
+              <div
+                key={snapshot.id}
+                className={`flex items-start space-x-2 p-2 rounded-md cursor-pointer hover:bg-gray-50 ${
+                  selected?.id === snapshot.id ? 'bg-blue-50' : ''
+                }`}
+                onClick={() => viewSnapshot(snapshot)}
+              >
+                <input
+                  type="checkbox"
+                  checked={compareIds.includes(snapshot.id)}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={() => toggleCompare(snapshot.id)}
+                  className="mt-1"
+                  title="Select to compare"
+                />
+                <div className="text-sm">
+                  <div className="text-gray-900">{new Date(snapshot.run_stamp).toLocaleString()}</div>
+                  <div className="text-xs text-gray-500">
+                    {snapshot.query_version ? `v${snapshot.query_version} • ` : ''}{snapshot.row_count} rows
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-auto">
+            {diff ? renderDiff(diff) : selected ? renderSnapshot(selected) : (
+              <div className="text-sm text-gray-500">
+                Select a run to view it, or two runs to compare them.
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
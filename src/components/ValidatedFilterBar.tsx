@@ -198,8 +198,8 @@ const SearchableSelect: React.FC<SearchableSelectProps> = ({
 
 // Searchable MultiSelect Component
 interface SearchableMultiSelectProps {
-  value: string;
-  onChange: (value: string | undefined) => void;
+  value: string[] | string;
+  onChange: (value: string[] | undefined) => void;
   options: any[];
   placeholder: string;
   dimension: FilterDimension;
@@ -217,7 +217,8 @@ const SearchableMultiSelect: React.FC<SearchableMultiSelectProps> = ({
   const [filteredOptions, setFilteredOptions] = useState(options);
   const dropdownRef = useRef<HTMLDivElement>(null);
   
-  const selectedValues = value ? value.split(',') : [];
+  // Selections are sent as a list so values containing commas stay intact
+  const selectedValues = Array.isArray(value) ? value : value ? [value] : [];
 
   useEffect(() => {
     const filtered = options.filter(option => {
@@ -307,7 +308,7 @@ const SearchableMultiSelect: React.FC<SearchableMultiSelectProps> = ({
       ? selectedValues.filter(v => v !== optionValue)
       : [...selectedValues, optionValue];
 
-    onChange(newSelectedValues.length > 0 ? newSelectedValues.join(',') : undefined);
+    onChange(newSelectedValues.length > 0 ? newSelectedValues : undefined);
   };
 
   const renderOption = (option: any, index: number) => {
@@ -649,7 +650,7 @@ export const ValidatedFilterBar: React.FC<FilterBarProps> = ({
               </div>
             ) : (
               <SearchableMultiSelect
-                value={value || ''}
+                value={value || []}
                 onChange={(val) => handleFilterChange(dimension.sql_param, val)}
                 options={multiOptions}
                 placeholder={`All ${dimension.label}`}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { CheckCircle, AlertCircle, BarChart3, TrendingUp, Table as TableIcon, RefreshCw } from 'lucide-react';
+import { CheckCircle, AlertCircle, BarChart3, TrendingUp, Table as TableIcon, RefreshCw, History } from 'lucide-react';
 import { Bar, Line } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
@@ -13,6 +13,8 @@ import {
   Legend,
 } from 'chart.js';
 import { FilterParams, QueryResult, validatedQueriesService } from '../services/validatedQueriesService';
+import { SnapshotHistory } from './SnapshotHistory';
+import { validatedQueryUpdates } from '../services/validatedQueryUpdates';
 
 ChartJS.register(
   CategoryScale,
@@ -25,6 +27,21 @@ ChartJS.register(
   Legend
 );
 
+// "just now", "12 min ago", "3 h ago", "2 days ago"
+const formatAge = (computedAt: string, now: number): string => {
+  const minutes = Math.floor((now - new Date(computedAt).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} days ago`;
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  redshift: 'Redshift',
+  mysql: 'MySQL',
+};
+
 interface WidgetProps {
   qid: string;
   title: string;
@@ -55,6 +72,9 @@ export const ValidatedWidget: React.FC<WidgetProps> = ({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
+  const [showHistory, setShowHistory] = useState(false);
+  // Keeps the shown data age current
+  const [now, setNow] = useState(Date.now());
 
   // Use shared data if provided, otherwise load data independently
   const effectiveData = sharedData !== undefined ? sharedData : data;
@@ -72,9 +92,28 @@ export const ValidatedWidget: React.FC<WidgetProps> = ({
     }
   }, [qid, JSON.stringify(filters), sharedData, sharedLoading, sharedError]);
 
-  const loadData = async () => {
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // When loading on its own, pick up the result of a background refresh as soon as the server
+  // announces it (dashboards using shared data get it from their data provider)
+  const refreshChannel = sharedData === undefined ? data?.metadata.refresh_channel : undefined;
+  const computedAt = data?.metadata.computed_at;
+  useEffect(() => {
+    if (!refreshChannel) return;
+    return validatedQueryUpdates.subscribe(refreshChannel, (event) => {
+      if (!computedAt || event.computed_at > computedAt) {
+        loadData(true);
+      }
+    });
+  }, [refreshChannel, computedAt]);
+
+  // silent keeps the current data on screen instead of showing the spinner
+  const loadData = async (silent = false) => {
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       setError(null);
       
       // Add timeout to prevent hanging requests
@@ -100,7 +139,11 @@ export const ValidatedWidget: React.FC<WidgetProps> = ({
       console.error('Widget data loading error:', err);
       
       let errorMessage = 'Failed to load data';
-      if (err instanceof Error) {
+      // 400 responses list which filter values the query's parameter schema rejected
+      const details = (err as any)?.response?.data?.details;
+      if (Array.isArray(details) && details.length > 0) {
+        errorMessage = `Invalid filters: ${details.map((detail: any) => `${detail.param} ${detail.message}`).join('; ')}`;
+      } else if (err instanceof Error) {
         if (err.name === 'AbortError') {
           errorMessage = 'Request timed out';
         } else if (err.message.includes('network') || err.message.includes('fetch')) {
@@ -133,13 +176,36 @@ export const ValidatedWidget: React.FC<WidgetProps> = ({
       <div className="flex items-center space-x-2">
         <div className="flex items-center space-x-1 px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">
           <CheckCircle className="h-3 w-3" />
-          <span>Validated</span>
+          <span>Validated{effectiveData.metadata.query_version ? ` • v${effectiveData.metadata.query_version}` : ''}</span>
         </div>
-        {effectiveData.metadata.cached && (
+        {effectiveData.metadata.stale ? (
+          <div
+            className="px-2 py-1 bg-amber-100 text-amber-800 text-xs rounded-full"
+            title="Showing the last stored result while a fresh one is computed"
+          >
+            Stale • {effectiveData.metadata.computed_at ? formatAge(effectiveData.metadata.computed_at, now) : 'age unknown'} • refreshing
+          </div>
+        ) : effectiveData.metadata.computed_at ? (
+          <div
+            className="text-xs text-gray-500"
+            title={`Computed ${new Date(effectiveData.metadata.computed_at).toLocaleString()}`}
+          >
+            Updated {formatAge(effectiveData.metadata.computed_at, now)}
+            {effectiveData.metadata.source ? ` • ${SOURCE_LABELS[effectiveData.metadata.source] || effectiveData.metadata.source}` : ''}
+          </div>
+        ) : effectiveData.metadata.cached && (
           <div className="text-xs text-gray-500">
             Cached • {lastRefresh.toLocaleTimeString()}
           </div>
         )}
+        {!!effectiveData.metadata.ignored_filters?.length && (
+          <div
+            className="text-xs text-gray-400"
+            title="These dashboard filters are not parameters of this query"
+          >
+            Not filtered by {effectiveData.metadata.ignored_filters.join(', ')}
+          </div>
+        )}
       </div>
     );
   };
@@ -728,6 +794,13 @@ export const ValidatedWidget: React.FC<WidgetProps> = ({
         </div>
         <div className="flex items-center space-x-3">
           {renderValidationBadge()}
+          <button
+            onClick={() => setShowHistory(true)}
+            className="p-1 text-gray-400 hover:text-gray-600"
+            title="Past results"
+          >
+            <History className="h-4 w-4" />
+          </button>
           <button
             onClick={refresh}
             disabled={effectiveLoading}
@@ -740,6 +813,10 @@ export const ValidatedWidget: React.FC<WidgetProps> = ({
       </div>
       
       {renderContent()}
+
+      {showHistory && (
+        <SnapshotHistory qid={qid} title={title} filters={filters} onClose={() => setShowHistory(false)} />
+      )}
     </div>
   );
 }; 
\ No newline at end of file
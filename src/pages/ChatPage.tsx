@@ -1,17 +1,32 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Plus, Trash2, MessageSquare, Bot, User, Code, BarChart3, CheckCircle, AlertTriangle } from 'lucide-react';
+import { Send, Plus, Trash2, MessageSquare, Bot, User, Code, BarChart3, CheckCircle, AlertTriangle, Database, Square } from 'lucide-react';
 import { useChatStore } from '../store/chatStore';
 import { useAuthStore } from '../store/authStore';
 import { chatService } from '../services/chatService';
+import { FilterParams } from '../services/validatedQueriesService';
+import { AnswerFilterChips } from '../components/AnswerFilterChips';
+import { AnswerProvenancePanel } from '../components/AnswerProvenancePanel';
+import { connectorService } from '../services/connectorService';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 import ReactSyntaxHighlighter from 'react-syntax-highlighter';
 import { atomOneDark } from 'react-syntax-highlighter/dist/esm/styles/hljs';
 
+// Connector kinds the agents can query
+const QUERYABLE_KINDS = ['mysql', 'postgres', 'redshift', 'mongo'];
+
+interface DataSource {
+  id: string;
+  name: string;
+  kind: string;
+}
+
 const ChatPage: React.FC = () => {
   const [message, setMessage] = useState('');
+  const [dataSources, setDataSources] = useState<DataSource[]>([]);
   const [isSending, setIsSending] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const pendingRequest = useRef<{ requestId: string; controller: AbortController } | null>(null);
   const _user = useAuthStore((state) => state.user);
   const {
     conversations,
@@ -21,6 +36,7 @@ const ChatPage: React.FC = () => {
     createConversation,
     deleteConversation,
     setActiveConversation,
+    setConversationConnector,
   } = useChatStore();
 
   const activeConversation = conversations.find(c => c.id === activeConversationId);
@@ -33,6 +49,15 @@ const ChatPage: React.FC = () => {
     scrollToBottom();
   }, [activeConversation?.messages]);
 
+  useEffect(() => {
+    connectorService.getConnectors()
+      .then((data) => {
+        const connectors = data as unknown as DataSource[];
+        setDataSources(connectors.filter(c => QUERYABLE_KINDS.includes(c.kind)));
+      })
+      .catch(() => setDataSources([]));
+  }, []);
+
   useEffect(() => {
     if (conversations.length === 0) {
       createConversation('Welcome Chat');
@@ -64,8 +89,15 @@ const ChatPage: React.FC = () => {
       loading: true,
     });
 
+    const request = { requestId: crypto.randomUUID(), controller: new AbortController() };
+    pendingRequest.current = request;
+
     try {
-      const response = await chatService.sendMessage(userMessage, conversationId);
+      const connectorId = conversations.find(c => c.id === conversationId)?.connectorId;
+      const response = await chatService.sendMessage(userMessage, conversationId, connectorId, {
+        requestId: request.requestId,
+        signal: request.controller.signal,
+      });
       
       // Update the loading message with the actual response
       updateMessage(conversationId, assistantMessageId, {
@@ -73,6 +105,14 @@ const ChatPage: React.FC = () => {
         sql: response.sql,
         chart: response.chart,
         agentUsed: response.agentUsed,
+        validationBadge: response.validationBadge,
+        sources: response.sources,
+        confidence: response.confidence,
+        question: userMessage,
+        qid: response.qid,
+        appliedFilters: response.appliedFilters,
+        provenance: response.provenance,
+        verification: response.verification,
         loading: false,
       });
 
@@ -81,16 +121,78 @@ const ChatPage: React.FC = () => {
         // TODO: Update conversation title based on first message
       }
     } catch (_error) {
-      updateMessage(conversationId, assistantMessageId, {
-        content: 'Sorry, I encountered an error processing your request. Please try again.',
+      if (request.controller.signal.aborted) {
+        updateMessage(conversationId, assistantMessageId, {
+          content: 'Request cancelled.',
+          loading: false,
+        });
+      } else {
+        updateMessage(conversationId, assistantMessageId, {
+          content: 'Sorry, I encountered an error processing your request. Please try again.',
+          loading: false,
+        });
+        toast.error('Failed to send message');
+      }
+    } finally {
+      pendingRequest.current = null;
+      setIsSending(false);
+    }
+  };
+
+  // Answer a validated message again with the filters edited in its chips, in place
+  const handleRefineFilters = async (answer: any, filters: FilterParams) => {
+    if (!activeConversationId || !answer.qid || isSending) return;
+
+    const conversationId = activeConversationId;
+    const request = { requestId: crypto.randomUUID(), controller: new AbortController() };
+    pendingRequest.current = request;
+    setIsSending(true);
+    updateMessage(conversationId, answer.id, { loading: true });
+
+    try {
+      const response = await chatService.refineValidatedAnswer(answer.question, answer.qid, filters, {
+        requestId: request.requestId,
+        signal: request.controller.signal,
+      });
+      updateMessage(conversationId, answer.id, {
+        content: response.content,
+        validationBadge: response.validationBadge,
+        sources: response.sources,
+        confidence: response.confidence,
+        qid: response.qid,
+        appliedFilters: response.appliedFilters,
+        provenance: response.provenance,
+        verification: response.verification,
         loading: false,
       });
-      toast.error('Failed to send message');
+    } catch (error) {
+      // Keep the previous answer when the new filters could not be applied
+      updateMessage(conversationId, answer.id, { loading: false });
+      if (!request.controller.signal.aborted) {
+        const issues = (error as any)?.response?.data?.details;
+        toast.error(Array.isArray(issues) && issues.length > 0
+          ? `Invalid filters: ${issues.map((issue: any) => `${issue.param} ${issue.message}`).join(', ')}`
+          : 'Failed to update the answer');
+      }
     } finally {
+      pendingRequest.current = null;
       setIsSending(false);
     }
   };
 
+  // Stop the server-side queries first, then drop the pending HTTP request
+  const handleCancelMessage = async () => {
+    const request = pendingRequest.current;
+    if (!request) return;
+
+    try {
+      await chatService.cancelMessage(request.requestId);
+    } catch (_error) {
+      // Already finished, or the disconnect below stops it anyway
+    }
+    request.controller.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -146,6 +248,31 @@ const ChatPage: React.FC = () => {
       );
     };
 
+    const renderVerification = () => {
+      const verification = message.verification;
+      if (!verification || verification.status === 'no_figures') return null;
+
+      const unsupported = verification.claims.filter((claim: any) => !claim.supported);
+      if (verification.status === 'verified') {
+        return (
+          <div className="flex items-center space-x-1 mt-2 text-xs text-green-700">
+            <CheckCircle className="h-3 w-3" />
+            <span>All {verification.claims.length} figures match the data</span>
+          </div>
+        );
+      }
+      return (
+        <div className="flex items-start space-x-1 mt-2 text-xs text-orange-700">
+          <AlertTriangle className="h-3 w-3 mt-0.5" />
+          <span>
+            {verification.status === 'corrected'
+              ? `Corrected to match the data: ${unsupported.map((claim: any) => `${claim.text} → ${claim.corrected_to}`).join(', ')}`
+              : `Not found in the data: ${unsupported.filter((claim: any) => !claim.corrected_to).map((claim: any) => claim.text).join(', ')}`}
+          </span>
+        </div>
+      );
+    };
+
     const renderSources = () => {
       if (!message.sources || message.sources.length === 0) return null;
 
@@ -203,7 +330,16 @@ const ChatPage: React.FC = () => {
         )}
 
         {renderSources()}
+        {message.appliedFilters && message.qid && (
+          <AnswerFilterChips
+            filters={message.appliedFilters}
+            onChange={(filters) => handleRefineFilters(message, filters)}
+            disabled={isSending}
+          />
+        )}
         {renderValidationBadge()}
+        {renderVerification()}
+        {message.provenance && <AnswerProvenancePanel provenance={message.provenance} />}
 
         {message.agentUsed && (
           <div className="text-xs text-gray-500 flex items-center space-x-1">
@@ -314,6 +450,26 @@ const ChatPage: React.FC = () => {
 
             {/* Input Area */}
             <div className="border-t border-gray-200 p-6">
+              {dataSources.length > 0 && (
+                <div className="flex items-center space-x-2 mb-3 text-sm text-gray-600">
+                  <Database className="h-4 w-4" />
+                  <label htmlFor="chat-data-source">Data source</label>
+                  <select
+                    id="chat-data-source"
+                    value={activeConversation.connectorId || ''}
+                    onChange={(e) => setConversationConnector(activeConversation.id, e.target.value || null)}
+                    className="border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    disabled={isSending}
+                  >
+                    <option value="">Deliveries (default)</option>
+                    {dataSources.map((source) => (
+                      <option key={source.id} value={source.id}>
+                        {source.name} ({source.kind})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div className="flex space-x-4">
                 <div className="flex-1">
                   <textarea
@@ -326,14 +482,24 @@ const ChatPage: React.FC = () => {
                     disabled={isSending}
                   />
                 </div>
-                <button
-                  onClick={handleSendMessage}
-                  disabled={!message.trim() || isSending}
-                  className="px-6 py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
-                >
-                  <Send className="h-4 w-4" />
-                  <span>Send</span>
-                </button>
+                {isSending ? (
+                  <button
+                    onClick={handleCancelMessage}
+                    className="px-6 py-3 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors flex items-center space-x-2"
+                  >
+                    <Square className="h-4 w-4" />
+                    <span>Stop</span>
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleSendMessage}
+                    disabled={!message.trim()}
+                    className="px-6 py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                  >
+                    <Send className="h-4 w-4" />
+                    <span>Send</span>
+                  </button>
+                )}
               </div>
             </div>
           </>
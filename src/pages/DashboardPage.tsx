@@ -5,6 +5,7 @@ import { DashboardFloatingChat } from '../components/DashboardFloatingChat';
 import { DashboardChatButton } from '../components/DashboardChatButton';
 import { ErrorBoundary } from '../components/ErrorBoundary';
 import { FilterParams, QueryResult, validatedQueriesService } from '../services/validatedQueriesService';
+import { validatedQueryUpdates } from '../services/validatedQueryUpdates';
 
 // Global request manager to prevent duplicates across all renders
 class GlobalRequestManager {
@@ -13,6 +14,7 @@ class GlobalRequestManager {
   private completedRequests = new Set<string>();
   private requestPromises = new Map<string, Promise<QueryResult>>();
   private dataCache = new Map<string, QueryResult>();
+  private requestArgs = new Map<string, { qid: string; filters: FilterParams }>();
 
   static getInstance(): GlobalRequestManager {
     if (!GlobalRequestManager.instance) {
@@ -61,6 +63,7 @@ class GlobalRequestManager {
     // Start new request
     console.log(`[Global Request Manager] ${caller}: Starting new request for ${cacheKey}`);
     this.ongoingRequests.add(cacheKey);
+    this.requestArgs.set(cacheKey, { qid, filters });
 
     const promise = validatedQueriesService.executeValidatedQuery(qid, filters)
       .then(result => {
@@ -81,12 +84,21 @@ class GlobalRequestManager {
     return promise;
   }
 
+  // Fetch a result again after the server announced a refresh of it
+  async refreshRequest(cacheKey: string): Promise<QueryResult | null> {
+    const args = this.requestArgs.get(cacheKey);
+    if (!args) return null;
+    this.dataCache.delete(cacheKey);
+    return this.executeRequest(args.qid, args.filters, 'refresh');
+  }
+
   clearCache(): void {
     console.log('[Global Request Manager] Clearing all caches');
     this.ongoingRequests.clear();
     this.completedRequests.clear();
     this.requestPromises.clear();
     this.dataCache.clear();
+    this.requestArgs.clear();
   }
 
   isOngoing(cacheKey: string): boolean {
@@ -177,6 +189,33 @@ const DashboardDataProvider: React.FC<{ children: React.ReactNode; filters: Filt
     }
   }, [requestManager, data, loading]);
 
+  // Stale results are refreshed in the background on the server; swap in the new data
+  // when it announces the refresh, without showing the widgets as loading
+  const refreshChannels = useMemo(() => Object.entries(data)
+    .filter(([, result]) => result?.metadata.refresh_channel)
+    .map(([cacheKey, result]) => ({
+      cacheKey,
+      channel: result!.metadata.refresh_channel!,
+      computedAt: result!.metadata.computed_at
+    })), [data]);
+
+  useEffect(() => {
+    const unsubscribes = refreshChannels.map(({ cacheKey, channel, computedAt }) =>
+      validatedQueryUpdates.subscribe(channel, async (event) => {
+        if (computedAt && event.computed_at <= computedAt) return;
+        try {
+          const result = await requestManager.refreshRequest(cacheKey);
+          if (result) {
+            setData(prev => ({ ...prev, [cacheKey]: result }));
+          }
+        } catch (err) {
+          console.warn(`[Data Loading] Refresh of ${cacheKey} failed:`, err);
+        }
+      })
+    );
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [refreshChannels, requestManager]);
+
   // Clear data when filters change
   const filtersString = useMemo(() => JSON.stringify(filters), [filters]);
   useEffect(() => {
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { Shield, Database, Clock, Eye, EyeOff, Save } from 'lucide-react';
+import { Shield, Database, Clock, Eye, EyeOff, Save, Gauge } from 'lucide-react';
 import { settingsService } from '../services/settingsService';
+import { Connector, connectorService } from '../services/connectorService';
 import toast from 'react-hot-toast';
 
 interface Settings {
@@ -14,6 +15,18 @@ interface Settings {
   table_access: {
     [role: string]: string[];
   };
+  // Patterns on connectors, by connector id and role
+  connector_table_access: {
+    [connectorId: string]: { [role: string]: string[] };
+  };
+  query_cost_limits: {
+    [role: string]: QueryCostLimit;
+  };
+}
+
+interface QueryCostLimit {
+  max_rows_scanned: number;
+  max_full_scan_rows: number;
 }
 
 const SettingsPage: React.FC = () => {
@@ -29,12 +42,18 @@ const SettingsPage: React.FC = () => {
       am: ['orders', 'clients', 'delivery_stats'],
       leader: ['*'],
       analyst: ['orders', 'hr_%']
+    },
+    connector_table_access: {},
+    query_cost_limits: {
+      default: { max_rows_scanned: 5000000, max_full_scan_rows: 1000000 }
     }
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [newPiiColumn, setNewPiiColumn] = useState('');
-  const [newTableAccess, setNewTableAccess] = useState({ role: '', table: '' });
+  const [newTableAccess, setNewTableAccess] = useState({ role: '', table: '', connectorId: '' });
+  const [connectors, setConnectors] = useState<Connector[]>([]);
+  const [newCostLimitRole, setNewCostLimitRole] = useState('');
 
   useEffect(() => {
     fetchSettings();
@@ -44,6 +63,7 @@ const SettingsPage: React.FC = () => {
     try {
       const data = await settingsService.getSettings();
       setSettings(data);
+      setConnectors(await connectorService.getConnectors());
     } catch (error) {
       toast.error('Failed to load settings');
     } finally {
@@ -90,32 +110,73 @@ const SettingsPage: React.FC = () => {
     }));
   };
 
+  // Patterns of the deliveries database ('') or of one connector
+  const updateTableAccess = (connectorId: string, role: string, update: (tables: string[]) => string[]) => {
+    setSettings(prev => {
+      if (!connectorId) {
+        return { ...prev, table_access: { ...prev.table_access, [role]: update(prev.table_access[role] || []) } };
+      }
+      const byRole = prev.connector_table_access?.[connectorId] || {};
+      return {
+        ...prev,
+        connector_table_access: {
+          ...(prev.connector_table_access || {}),
+          [connectorId]: { ...byRole, [role]: update(byRole[role] || []) }
+        }
+      };
+    });
+  };
+
   const addTableAccess = () => {
     if (newTableAccess.role && newTableAccess.table) {
+      updateTableAccess(newTableAccess.connectorId, newTableAccess.role, tables => [...tables, newTableAccess.table]);
+      setNewTableAccess({ role: '', table: '', connectorId: newTableAccess.connectorId });
+    }
+  };
+
+  const removeTableAccess = (connectorId: string, role: string, table: string) => {
+    updateTableAccess(connectorId, role, tables => tables.filter(t => t !== table));
+  };
+
+  const accessGroups = [
+    { connectorId: '', name: 'Deliveries database', byRole: settings.table_access },
+    ...connectors.map(connector => ({
+      connectorId: connector.id,
+      name: connector.name,
+      byRole: settings.connector_table_access?.[connector.id] || {}
+    }))
+  ];
+
+  const addCostLimitRole = () => {
+    if (newCostLimitRole && !settings.query_cost_limits[newCostLimitRole]) {
       setSettings(prev => ({
         ...prev,
-        table_access: {
-          ...prev.table_access,
-          [newTableAccess.role]: [
-            ...(prev.table_access[newTableAccess.role] || []),
-            newTableAccess.table
-          ]
+        query_cost_limits: {
+          ...prev.query_cost_limits,
+          [newCostLimitRole]: { ...prev.query_cost_limits.default }
         }
       }));
-      setNewTableAccess({ role: '', table: '' });
+      setNewCostLimitRole('');
     }
   };
 
-  const removeTableAccess = (role: string, table: string) => {
+  const updateCostLimit = (role: string, field: keyof QueryCostLimit, value: number) => {
     setSettings(prev => ({
       ...prev,
-      table_access: {
-        ...prev.table_access,
-        [role]: prev.table_access[role]?.filter(t => t !== table) || []
+      query_cost_limits: {
+        ...prev.query_cost_limits,
+        [role]: { ...prev.query_cost_limits[role], [field]: value }
       }
     }));
   };
 
+  const removeCostLimitRole = (role: string) => {
+    setSettings(prev => {
+      const { [role]: _removed, ...rest } = prev.query_cost_limits;
+      return { ...prev, query_cost_limits: rest };
+    });
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-96">
@@ -206,13 +267,22 @@ const SettingsPage: React.FC = () => {
             <div>
               <h3 className="text-lg font-semibold text-gray-900">Table Access Control</h3>
               <p className="text-sm text-gray-500">
-                Define which tables each role can access
+                Define which tables each role can query through the chat agents, per data source. A role can only use a connector it has patterns on. Use * or % as wildcards (e.g. hr_%)
               </p>
             </div>
           </div>
 
           <div className="space-y-4">
-            <div className="grid grid-cols-2 gap-2">
+            <div className="grid grid-cols-3 gap-2">
+              <select
+                value={newTableAccess.connectorId}
+                onChange={(e) => setNewTableAccess(prev => ({ ...prev, connectorId: e.target.value }))}
+                className="border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                {accessGroups.map(group => (
+                  <option key={group.connectorId} value={group.connectorId}>{group.name}</option>
+                ))}
+              </select>
               <select
                 value={newTableAccess.role}
                 onChange={(e) => setNewTableAccess(prev => ({ ...prev, role: e.target.value }))}
@@ -228,7 +298,7 @@ const SettingsPage: React.FC = () => {
                   type="text"
                   value={newTableAccess.table}
                   onChange={(e) => setNewTableAccess(prev => ({ ...prev, table: e.target.value }))}
-                  placeholder="Table name or pattern"
+                  placeholder="Table name or pattern (e.g. hr_%)"
                   className="flex-1 border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
                 />
                 <button
@@ -240,25 +310,105 @@ const SettingsPage: React.FC = () => {
               </div>
             </div>
 
+            {accessGroups.map(group => (
+              <div key={group.connectorId} className="space-y-3">
+                <div className="text-sm font-medium text-gray-700">{group.name}</div>
+                {Object.entries(group.byRole).map(([role, tables]) => (
+                  <div key={role} className="border border-gray-200 rounded-md p-3">
+                    <div className="font-medium text-gray-900 capitalize mb-2">{role}</div>
+                    <div className="flex flex-wrap gap-2">
+                      {tables.map((table) => (
+                        <div
+                          key={`${role}-${table}`}
+                          className="flex items-center space-x-2 px-2 py-1 bg-blue-50 text-blue-700 rounded text-sm"
+                        >
+                          <span>{table}</span>
+                          <button
+                            onClick={() => removeTableAccess(group.connectorId, role, table)}
+                            className="text-blue-500 hover:text-blue-700"
+                          >
+                            ×
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Query Cost Limits */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center space-x-3 mb-4">
+            <div className="p-2 bg-orange-100 rounded-lg">
+              <Gauge className="h-6 w-6 text-orange-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Query Cost Limits</h3>
+              <p className="text-sm text-gray-500">
+                Queries are checked with EXPLAIN before they run and refused above these estimates. Use 0 to disable a limit
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex space-x-2">
+              <select
+                value={newCostLimitRole}
+                onChange={(e) => setNewCostLimitRole(e.target.value)}
+                className="flex-1 border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <option value="">Select Role</option>
+                <option value="am">Account Manager</option>
+                <option value="leader">Leader</option>
+                <option value="analyst">Analyst</option>
+                <option value="admin">Admin</option>
+              </select>
+              <button
+                onClick={addCostLimitRole}
+                className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors"
+              >
+                Add
+              </button>
+            </div>
+
             <div className="space-y-3">
-              {Object.entries(settings.table_access).map(([role, tables]) => (
+              {Object.entries(settings.query_cost_limits).map(([role, limit]) => (
                 <div key={role} className="border border-gray-200 rounded-md p-3">
-                  <div className="font-medium text-gray-900 capitalize mb-2">{role}</div>
-                  <div className="flex flex-wrap gap-2">
-                    {tables.map((table) => (
-                      <div
-                        key={`${role}-${table}`}
-                        className="flex items-center space-x-2 px-2 py-1 bg-blue-50 text-blue-700 rounded text-sm"
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="font-medium text-gray-900 capitalize">{role}</span>
+                    {role !== 'default' && (
+                      <button
+                        onClick={() => removeCostLimitRole(role)}
+                        className="text-sm text-gray-500 hover:text-red-600"
                       >
-                        <span>{table}</span>
-                        <button
-                          onClick={() => removeTableAccess(role, table)}
-                          className="text-blue-500 hover:text-blue-700"
-                        >
-                          ×
-                        </button>
-                      </div>
-                    ))}
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Max rows scanned</label>
+                      <input
+                        type="number"
+                        value={limit.max_rows_scanned}
+                        onChange={(e) => updateCostLimit(role, 'max_rows_scanned', parseInt(e.target.value) || 0)}
+                        className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        min="0"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Max rows in a full table scan</label>
+                      <input
+                        type="number"
+                        value={limit.max_full_scan_rows}
+                        onChange={(e) => updateCostLimit(role, 'max_full_scan_rows', parseInt(e.target.value) || 0)}
+                        className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        min="0"
+                      />
+                    </div>
                   </div>
                 </div>
               ))}
@@ -1,5 +1,12 @@
 import api from './api';
-import { validatedChatService } from './validatedQueriesService';
+import {
+  AnswerProvenance,
+  AnswerVerification,
+  AppliedFilter,
+  FilterParams,
+  ValidatedAnswer,
+  validatedChatService
+} from './validatedQueriesService';
 
 interface ChatResponse {
   content: string;
@@ -9,33 +16,63 @@ interface ChatResponse {
   validationBadge?: 'validated' | 'ai-generated';
   sources?: string[];
   confidence?: number;
+  // Validated query and filters the answer came from, editable in the chat
+  qid?: string;
+  appliedFilters?: AppliedFilter[];
+  provenance?: AnswerProvenance;
+  verification?: AnswerVerification;
+}
+
+// requestId lets the server stop this message's queries through cancelMessage;
+// aborting signal drops the HTTP request, which the server also treats as a cancel
+export interface SendMessageOptions {
+  requestId?: string;
+  signal?: AbortSignal;
+}
+
+function toChatResponse(response: ValidatedAnswer): ChatResponse {
+  return {
+    content: response.answer,
+    validationBadge: response.badge,
+    sources: response.sources,
+    confidence: response.confidence,
+    qid: response.qid,
+    appliedFilters: response.applied_filters,
+    provenance: response.provenance,
+    verification: response.verification,
+    agentUsed: 'QueryAnswerAgent'
+  };
 }
 
 export const chatService = {
-  async sendMessage(message: string, conversationId: string): Promise<ChatResponse> {
-    // First try to get a validated answer
-    try {
-      const validatedResponse = await validatedChatService.askQuestion(message, 'AM');
+  async sendMessage(
+    message: string,
+    conversationId: string,
+    connectorId?: string | null,
+    options: SendMessageOptions = {}
+  ): Promise<ChatResponse> {
+    // First try to get a validated answer - validated queries only cover the default data source
+    if (!connectorId) {
+      try {
+        const validatedResponse = await validatedChatService.askQuestion(message, 'AM', options.requestId, options.signal);
       
-      // If we have a validated answer with high confidence, use it
-      if (validatedResponse.confidence && validatedResponse.confidence >= 0.8) {
-        return {
-          content: validatedResponse.answer,
-          validationBadge: validatedResponse.badge,
-          sources: validatedResponse.sources,
-          confidence: validatedResponse.confidence,
-          agentUsed: 'QueryAnswerAgent'
-        };
+        // The server only answers from validated data when a query matched confidently enough
+        if (validatedResponse.badge === 'validated') {
+          return toChatResponse(validatedResponse);
+        }
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.log('Validated query not available, falling back to AI agent');
       }
-    } catch (error) {
-      console.log('Validated query not available, falling back to AI agent');
     }
 
     // Fall back to regular AI agent with warning badge
     const response = await api.post('/chat', {
       message,
       conversationId,
-    });
+      connectorId: connectorId || null,
+      requestId: options.requestId,
+    }, { signal: options.signal });
 
     return {
       ...response.data,
@@ -43,6 +80,21 @@ export const chatService = {
     };
   },
 
+  // Answer a question again from the same validated query with edited filters
+  async refineValidatedAnswer(
+    message: string,
+    qid: string,
+    filters: FilterParams,
+    options: SendMessageOptions = {}
+  ): Promise<ChatResponse> {
+    const response = await validatedChatService.askQuestion(message, 'AM', options.requestId, options.signal, { qid, filters });
+    return toChatResponse(response);
+  },
+
+  async cancelMessage(requestId: string): Promise<void> {
+    await api.post(`/chat/cancel/${requestId}`);
+  },
+
   async getConversationHistory(conversationId: string) {
     const response = await api.get(`/chat/history/${conversationId}`);
     return response.data;
@@ -24,6 +24,33 @@ export interface CreateConnectorData {
   password: string;
 }
 
+export interface SchemaDiff {
+  addedTables: string[];
+  removedTables: string[];
+  changedTables: Array<{
+    table: string;
+    addedColumns: string[];
+    removedColumns: string[];
+    changedColumns: Array<{ column: string; from: string; to: string }>;
+  }>;
+}
+
+export interface SchemaHistoryEntry {
+  id: string;
+  connector_id: string;
+  diff_json: SchemaDiff | null;
+  table_count: number;
+  triggered_by: string | null;
+  created_at: string;
+}
+
+export interface IntrospectionResult {
+  tables: number;
+  introspectedAt: string;
+  changed: boolean;
+  diff: SchemaDiff | null;
+}
+
 export const connectorService = {
   async getConnectors(): Promise<Connector[]> {
     const response = await api.get('/connectors');
@@ -44,6 +71,16 @@ export const connectorService = {
     await api.delete(`/connectors/${id}`);
   },
 
+  async introspectSchema(id: string): Promise<IntrospectionResult> {
+    const response = await api.post(`/connectors/${id}/introspect`);
+    return response.data;
+  },
+
+  async getSchemaHistory(id: string): Promise<SchemaHistoryEntry[]> {
+    const response = await api.get(`/connectors/${id}/schema-history`);
+    return response.data;
+  },
+
   async testConnection(id: string): Promise<{ success: boolean; message: string }> {
     const response = await api.post(`/connectors/${id}/test`);
     return response.data;
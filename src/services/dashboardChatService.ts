@@ -14,7 +14,7 @@ interface DashboardContext {
   filters: {
     start_date?: string;
     end_date?: string;
-    merchant_id?: string;
+    merchant_id?: string | string[];
     region?: string;
     tier?: string;
     am?: string;
@@ -9,15 +9,153 @@ export interface ValidatedQuery {
   scope: 'AM' | 'AMM' | 'ALL';
   sql_text: string;
   chart_hint: string;
-  validated_by: string;
+  validated_by: string | null;
   validated_at: string;
   active: boolean;
+  param_schema?: ValidatedQueryParam[] | null;
+  description?: string | null;
+  cache_soft_ttl_seconds?: number | null;
+  cache_hard_ttl_seconds?: number | null;
+  current_version?: number;
+  approved_version?: number | null;
+  status?: ValidatedQueryStatus;
+}
+
+export type ValidatedQueryStatus = 'draft' | 'in_review' | 'approved' | 'deprecated';
+
+export interface ValidatedQueryParam {
+  name: string;
+  type: 'date' | 'int' | 'string' | 'enum' | 'list';
+  required?: boolean;
+  default?: string | number | Array<string | number>;
+  allowed_values?: Array<string | number>;
+  dimension?: string;
+}
+
+export interface SqlDiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  line: string;
+}
+
+export interface VersionDiff {
+  sql: SqlDiffLine[] | null;
+  fields: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface ValidatedQueryVersion {
+  id: string;
+  qid: string;
+  version: number;
+  name: string;
+  scope: 'AM' | 'AMM' | 'ALL';
+  sql_text: string;
+  param_schema: ValidatedQueryParam[] | null;
+  chart_hint: string;
+  change_note: string | null;
+  diff_json: VersionDiff | null;
+  author: string;
+  created_at: string;
+  status: ValidatedQueryStatus;
+  submitted_by: string | null;
+  submitted_at: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  test_result_json: VersionTestResult | null;
+}
+
+export interface VersionTestResult {
+  success: boolean;
+  row_count?: number;
+  error?: string;
+  filters: Record<string, unknown>;
+}
+
+export interface VersionComparison {
+  from: Pick<ValidatedQueryVersion, 'version' | 'author' | 'change_note' | 'created_at'>;
+  to: Pick<ValidatedQueryVersion, 'version' | 'author' | 'change_note' | 'created_at'>;
+  diff: VersionDiff;
+}
+
+export type TestAssertion =
+  | { type: 'row_count'; min?: number; max?: number }
+  | { type: 'not_null'; columns: string[] }
+  | { type: 'column_type'; column: string; expected: 'number' | 'string' | 'date' | 'boolean' }
+  | { type: 'total_matches'; column: string; query: string; other_column: string; filters?: FilterParams; tolerance?: number }
+  | { type: 'unique_key'; columns: string[] };
+
+export interface ValidatedQueryTest {
+  id: string;
+  qid: string;
+  name: string;
+  filters_json: FilterParams;
+  assertions_json: TestAssertion[];
+  is_active: boolean;
+  last_status?: 'passed' | 'failed' | 'error' | null;
+  last_version?: number | null;
+  last_run_at?: string | null;
+}
+
+export interface TestRunResult {
+  test_id: string;
+  test_name: string;
+  qid: string;
+  query_version: number;
+  status: 'passed' | 'failed' | 'error';
+  row_count: number | null;
+  assertions: { type: TestAssertion['type']; passed: boolean; message: string }[];
+  error?: string;
+  duration_ms: number;
+}
+
+export interface MaterializationSchedule {
+  id: string;
+  qid: string;
+  cron_expression: string;
+  max_combinations: number;
+  is_active: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  query_name?: string;
+  last_status?: MaterializationStatus | null;
+  last_duration_ms?: number | null;
+}
+
+export type MaterializationStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+export interface MaterializationRun {
+  id: string;
+  qid: string;
+  query_name: string;
+  query_version: number;
+  status: MaterializationStatus;
+  results: { filters: FilterParams; status: 'succeeded' | 'failed'; row_count: number | null; duration_ms: number; error?: string }[];
+  error?: string;
+  duration_ms: number;
+}
+
+export interface ResultSnapshot {
+  id: string;
+  qid: string;
+  run_stamp: string;
+  query_version: number | null;
+  filters: FilterParams;
+  row_count: number;
+  data?: any[];
+}
+
+export interface SnapshotDiff {
+  key_columns: string[];
+  added: any[];
+  removed: any[];
+  changed: { key: Record<string, unknown>; changes: Record<string, { from: unknown; to: unknown; delta: number | null }> }[];
+  unchanged: number;
 }
 
 export interface FilterParams {
   start_date?: string;
   end_date?: string;
-  merchant_id?: string;
+  merchant_id?: string | string[];
   region?: string;
   tier?: string;
   am?: string;
@@ -33,16 +171,95 @@ export interface FilterDimension {
   is_active: boolean;
 }
 
+// A filter a validated answer is based on, read from the question or set by the user
+export interface AppliedFilter {
+  // sql_param of the filter, or date_range for start_date and end_date
+  key: string;
+  label: string;
+  // Filter dimension whose options the value can be changed to
+  dimension?: string;
+  values: FilterParams;
+  display: string;
+  // Words of the question the filter was read from
+  matched: string;
+  score: number;
+}
+
+// A number quoted in a validated answer and the result rows it was read or computed from
+export interface AnswerFigure {
+  text: string;
+  column: string | null;
+  calculation: 'value' | 'sum' | 'avg' | 'count' | 'min' | 'max' | 'other';
+  // 1-based positions in the result
+  row_numbers: number[];
+  rows: any[];
+}
+
+// Query version, filters, run and rows behind the numbers of a validated answer
+export interface AnswerProvenance {
+  qid: string;
+  query_name: string;
+  version: number;
+  filters: FilterParams;
+  enforced_filters: Record<string, string>;
+  run_stamp: string | null;
+  stale: boolean;
+  source: 'redshift' | 'mysql' | null;
+  validated_by: string | null;
+  validated_at: string | null;
+  row_count: number;
+  figures: AnswerFigure[];
+}
+
+// Result of checking the numbers of an answer against the rows it summarized
+export interface AnswerVerification {
+  // corrected: figures close to a supported value were rewritten to it; unverified: some are flagged in the text
+  status: 'verified' | 'corrected' | 'unverified' | 'no_figures';
+  claims: {
+    text: string;
+    index: number;
+    value: number;
+    supported: boolean;
+    basis: string | null;
+    column: string | null;
+    corrected_to?: string;
+  }[];
+}
+
+export interface ValidatedAnswer {
+  answer: string;
+  badge: 'validated' | 'ai-generated';
+  sources?: string[];
+  confidence?: number;
+  qid?: string;
+  applied_filters?: AppliedFilter[];
+  provenance?: AnswerProvenance;
+  verification?: AnswerVerification;
+  // Milliseconds spent ranking queries, running the best match and writing the answer
+  timings?: { rank_ms: number; execute_ms: number; answer_ms: number; total_ms: number };
+}
+
 export interface QueryResult {
   data: any[];
   metadata: {
     is_validated: boolean;
     query_id: string;
     query_name: string;
+    query_version?: number;
     chart_hint: string;
     scope: string;
     filters_applied: FilterParams;
+    enforced_filters?: Record<string, string>;
+    // Parameters the query declares (null when it has no schema) and request filters it ignored
+    parameters?: string[] | null;
+    ignored_filters?: string[];
     cached: boolean;
+    // Served past the query's soft TTL while a background refresh runs
+    stale?: boolean;
+    computed_at?: string | null;
+    source?: 'redshift' | 'mysql' | null;
+    // Channel on which a refresh of this result is announced
+    refresh_channel?: string;
   };
 }
 
@@ -75,22 +292,99 @@ export class ValidatedQueriesService {
     return response.data;
   }
 
-  // Create new validated query
-  async createValidatedQuery(data: Omit<ValidatedQuery, 'id' | 'validated_at'>): Promise<ValidatedQuery> {
+  // Create new validated query (a draft until the data team approves it)
+  async createValidatedQuery(data: Omit<ValidatedQuery, 'id' | 'validated_at' | 'validated_by'>): Promise<ValidatedQuery> {
     const response = await axios.post(`${API_BASE}/validated-queries`, data, {
       headers: this.getAuthHeaders(),
     });
     return response.data;
   }
 
-  // Update validated query
-  async updateValidatedQuery(id: string, data: Partial<ValidatedQuery>): Promise<ValidatedQuery> {
-    const response = await axios.put(`${API_BASE}/validated-queries/${id}`, data, {
+  // Update validated query; definition changes are stored as a new version
+  async updateValidatedQuery(id: string, data: Partial<ValidatedQuery>, changeNote?: string): Promise<ValidatedQuery> {
+    const response = await axios.put(`${API_BASE}/validated-queries/${id}`, { ...data, change_note: changeNote }, {
+      headers: this.getAuthHeaders(),
+    });
+    return response.data;
+  }
+
+  // Version history, newest first
+  async getVersions(id: string): Promise<{ current_version: number; versions: ValidatedQueryVersion[] }> {
+    const response = await axios.get(`${API_BASE}/validated-queries/${id}/versions`, {
+      headers: this.getAuthHeaders(),
+    });
+    return response.data;
+  }
+
+  async compareVersions(id: string, from: number, to: number): Promise<VersionComparison> {
+    const response = await axios.get(`${API_BASE}/validated-queries/${id}/versions/compare`, {
+      params: { from, to },
+      headers: this.getAuthHeaders(),
+    });
+    return response.data;
+  }
+
+  async submitVersion(id: string, version: number): Promise<ValidatedQueryVersion> {
+    const response = await axios.post(`${API_BASE}/validated-queries/${id}/versions/${version}/submit`, {}, {
+      headers: this.getAuthHeaders(),
+    });
+    return response.data;
+  }
+
+  // Data team only; fails with 422 and the test result when the test run fails
+  async approveVersion(id: string, version: number, note?: string): Promise<{ approved: boolean; version: ValidatedQueryVersion; test: VersionTestResult }> {
+    const response = await axios.post(`${API_BASE}/validated-queries/${id}/versions/${version}/approve`, { note }, {
+      headers: this.getAuthHeaders(),
+    });
+    return response.data;
+  }
+
+  async rejectVersion(id: string, version: number, note: string): Promise<ValidatedQueryVersion> {
+    const response = await axios.post(`${API_BASE}/validated-queries/${id}/versions/${version}/reject`, { note }, {
+      headers: this.getAuthHeaders(),
+    });
+    return response.data;
+  }
+
+  async deprecateQuery(id: string, note?: string): Promise<ValidatedQueryVersion> {
+    const response = await axios.post(`${API_BASE}/validated-queries/${id}/deprecate`, { note }, {
       headers: this.getAuthHeaders(),
     });
     return response.data;
   }
 
+  // Regression tests of a query with their latest outcome
+  async getTests(id: string): Promise<ValidatedQueryTest[]> {
+    const response = await axios.get(`${API_BASE}/validated-queries/${id}/tests`, {
+      headers: this.getAuthHeaders(),
+    });
+    return response.data;
+  }
+
+  async createTest(id: string, data: { name: string; filters?: FilterParams; assertions: TestAssertion[] }): Promise<ValidatedQueryTest> {
+    const response = await axios.post(`${API_BASE}/validated-queries/${id}/tests`, data, {
+      headers: this.getAuthHeaders(),
+    });
+    return response.data;
+  }
+
+  // Runs against the approved version unless a version is given
+  async runTests(id: string, version?: number): Promise<{ version: number; passed: number; failed: number; results: TestRunResult[] }> {
+    const response = await axios.post(`${API_BASE}/validated-queries/${id}/tests/run`, { version }, {
+      headers: this.getAuthHeaders(),
+    });
+    return response.data;
+  }
+
+  // Restore an earlier version (recorded as a new draft version)
+  async rollbackValidatedQuery(id: string, version: number, changeNote?: string): Promise<{ query: ValidatedQuery; version: ValidatedQueryVersion | null }> {
+    const response = await axios.post(`${API_BASE}/validated-queries/${id}/rollback`,
+      { version, change_note: changeNote },
+      { headers: this.getAuthHeaders() }
+    );
+    return response.data;
+  }
+
   // Execute validated query with filters
   async executeValidatedQuery(id: string, filters: FilterParams = {}): Promise<QueryResult> {
     const response = await axios.post(`${API_BASE}/validated-queries/${id}/execute`, 
@@ -100,6 +394,39 @@ export class ValidatedQueriesService {
     return response.data;
   }
 
+  // Stored runs for the given filters (all filter sets when omitted), newest first
+  async getSnapshots(id: string, filters?: FilterParams, range: { from?: string; to?: string } = {}): Promise<ResultSnapshot[]> {
+    const response = await axios.get(`${API_BASE}/validated-queries/${id}/snapshots`, {
+      headers: this.getAuthHeaders(),
+      params: { filters: filters ? JSON.stringify(filters) : undefined, ...range },
+    });
+    return response.data;
+  }
+
+  async getSnapshot(id: string, snapshotId: string): Promise<ResultSnapshot> {
+    const response = await axios.get(`${API_BASE}/validated-queries/${id}/snapshots/${snapshotId}`, {
+      headers: this.getAuthHeaders(),
+    });
+    return response.data;
+  }
+
+  // What the query showed for these filters at a date or timestamp
+  async getSnapshotAsOf(id: string, filters: FilterParams, at: string): Promise<ResultSnapshot> {
+    const response = await axios.get(`${API_BASE}/validated-queries/${id}/snapshots/as-of`, {
+      headers: this.getAuthHeaders(),
+      params: { filters: JSON.stringify(filters), at },
+    });
+    return response.data;
+  }
+
+  async compareSnapshots(id: string, from: string, to: string): Promise<{ from: ResultSnapshot; to: ResultSnapshot; diff: SnapshotDiff }> {
+    const response = await axios.get(`${API_BASE}/validated-queries/${id}/snapshots/compare`, {
+      headers: this.getAuthHeaders(),
+      params: { from, to },
+    });
+    return response.data;
+  }
+
   // Test SQL query
   async testQuery(sql: string, filters: FilterParams = {}): Promise<{ success: boolean; data?: any[]; error?: string }> {
     const response = await axios.post(`${API_BASE}/validated-queries/test`, 
@@ -132,6 +459,31 @@ export class ValidatedQueriesService {
     });
   }
 
+  async getMaterializationSchedules(): Promise<MaterializationSchedule[]> {
+    const response = await axios.get(`${API_BASE}/validated-queries/materialization/schedules`, {
+      headers: this.getAuthHeaders(),
+    });
+    return response.data;
+  }
+
+  async saveMaterializationSchedule(
+    id: string,
+    data: { cron_expression?: string; max_combinations?: number; is_active?: boolean }
+  ): Promise<MaterializationSchedule> {
+    const response = await axios.put(`${API_BASE}/validated-queries/${id}/schedule`, data, {
+      headers: this.getAuthHeaders(),
+    });
+    return response.data;
+  }
+
+  // Warm one query's cache now, outside its schedule
+  async materializeQuery(id: string): Promise<MaterializationRun> {
+    const response = await axios.post(`${API_BASE}/validated-queries/${id}/materialize`, {}, {
+      headers: this.getAuthHeaders(),
+    });
+    return response.data;
+  }
+
   // Deactivate query
   async deactivateQuery(id: string): Promise<void> {
     await axios.delete(`${API_BASE}/validated-queries/${id}`, {
@@ -197,15 +549,17 @@ export class ValidatedChatService {
     };
   }
 
-  async askQuestion(question: string, scope?: string): Promise<{
-    answer: string;
-    badge: 'validated' | 'ai-generated';
-    sources?: string[];
-    confidence?: number;
-  }> {
+  // refine answers the question again from query qid with exactly these filters
+  async askQuestion(
+    question: string,
+    scope?: string,
+    requestId?: string,
+    signal?: AbortSignal,
+    refine?: { qid: string; filters: FilterParams }
+  ): Promise<ValidatedAnswer> {
     const response = await axios.post(`${API_BASE}/chat/validated-answer`, 
-      { question, scope }, 
-      { headers: this.getAuthHeaders() }
+      { question, scope, requestId, ...refine }, 
+      { headers: this.getAuthHeaders(), signal }
     );
     return response.data;
   }
@@ -0,0 +1,56 @@
+import { io, Socket } from 'socket.io-client';
+import { useAuthStore } from '../store/authStore';
+
+export interface ValidatedQueryRefresh {
+  channel: string;
+  qid: string;
+  computed_at: string;
+  source: 'redshift' | 'mysql';
+}
+
+type RefreshListener = (event: ValidatedQueryRefresh) => void;
+
+// Announcements of recomputed validated query results over the app's socket. The event only
+// says that a result changed; listeners refetch it through the API.
+class ValidatedQueryUpdates {
+  private socket: Socket | null = null;
+  private listeners = new Map<string, Set<RefreshListener>>();
+
+  // Listen for refreshes of one result (refresh_channel from the execute metadata).
+  // Returns the function that stops listening.
+  subscribe(channel: string, listener: RefreshListener): () => void {
+    const socket = this.connect();
+    let channelListeners = this.listeners.get(channel);
+    if (!channelListeners) {
+      channelListeners = new Set();
+      this.listeners.set(channel, channelListeners);
+      if (socket.connected) socket.emit('validated_query:subscribe', channel);
+    }
+    channelListeners.add(listener);
+
+    return () => {
+      channelListeners!.delete(listener);
+      if (channelListeners!.size === 0 && this.listeners.get(channel) === channelListeners) {
+        this.listeners.delete(channel);
+        socket.emit('validated_query:unsubscribe', channel);
+      }
+    };
+  }
+
+  private connect(): Socket {
+    if (!this.socket) {
+      const socket = io({ auth: (callback) => callback({ token: useAuthStore.getState().token }) });
+      socket.on('validated_query:refreshed', (event: ValidatedQueryRefresh) => {
+        this.listeners.get(event.channel)?.forEach(listener => listener(event));
+      });
+      // Subscriptions belong to a connection, so they are renewed after every (re)connect
+      socket.on('connect', () => {
+        this.listeners.forEach((_, channel) => socket.emit('validated_query:subscribe', channel));
+      });
+      this.socket = socket;
+    }
+    return this.socket;
+  }
+}
+
+export const validatedQueryUpdates = new ValidatedQueryUpdates();
@@ -4,7 +4,7 @@ import { persist } from 'zustand/middleware';
 export interface User {
   id: string;
   email: string;
-  role: 'admin' | 'leader' | 'am' | 'analyst';
+  role: 'admin' | 'leader' | 'am' | 'analyst' | 'data_team';
   name: string;
   avatar_url?: string;
 }
@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import { AnswerProvenance, AnswerVerification, AppliedFilter } from '../services/validatedQueriesService';
 
 export interface Message {
   id: string;
@@ -8,6 +9,16 @@ export interface Message {
   sql?: string;
   chart?: string;
   agentUsed?: string;
+  validationBadge?: 'validated' | 'ai-generated';
+  sources?: string[];
+  confidence?: number;
+  // Validated answers: the question, query and filters, so edited filters can be asked again
+  question?: string;
+  qid?: string;
+  appliedFilters?: AppliedFilter[];
+  provenance?: AnswerProvenance;
+  // Numbers of the answer checked against the data it summarized
+  verification?: AnswerVerification;
   loading?: boolean;
 }
 
@@ -15,6 +26,7 @@ export interface Conversation {
   id: string;
   title: string;
   type: 'regular' | 'dashboard';
+  connectorId?: string | null;
   messages: Message[];
   createdAt: Date;
   updatedAt: Date;
@@ -32,6 +44,7 @@ interface ChatState {
   deleteConversation: (conversationId: string) => void;
   setActiveConversation: (conversationId: string) => void;
   setDashboardConversation: (conversationId: string) => void;
+  setConversationConnector: (conversationId: string, connectorId: string | null) => void;
   setLoading: (loading: boolean) => void;
 }
 
@@ -139,6 +152,14 @@ export const useChatStore = create<ChatState>((set, get) => ({
     set({ dashboardConversationId: conversationId });
   },
 
+  setConversationConnector: (conversationId, connectorId) => {
+    set((state) => ({
+      conversations: state.conversations.map((conv) =>
+        conv.id === conversationId ? { ...conv, connectorId } : conv
+      ),
+    }));
+  },
+
   setLoading: (loading) => {
     set({ isLoading: loading });
   },